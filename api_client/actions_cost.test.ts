@@ -0,0 +1,198 @@
+import { assertAlmostEquals, assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { ActionsCostCalculator } from "./actions_cost.ts";
+import type {
+  FileContent,
+  WorkflowJob,
+  WorkflowRun,
+  WorkflowRunUsage,
+} from "./api_client.ts";
+import { fakeWorkflowJob, fakeWorkflowRun } from "./fake_github_server.ts";
+import { WorkflowModel } from "../workflow_model/src/workflow_file.ts";
+
+const dummyRun = (
+  id: number,
+  path: string,
+  branch: string,
+  startedAt: string,
+): WorkflowRun =>
+  fakeWorkflowRun({
+    id,
+    path,
+    head_branch: branch,
+    run_started_at: startedAt,
+  });
+
+const dummyJob = (
+  id: number,
+  runId: number,
+  name: string,
+  labels: string[],
+  minutes = 1,
+): WorkflowJob =>
+  fakeWorkflowJob({
+    id,
+    run_id: runId,
+    name,
+    labels,
+    started_at: "2024-01-01T00:00:00Z",
+    completed_at: new Date(
+      Date.parse("2024-01-01T00:00:00Z") + minutes * 60_000,
+    ).toISOString(),
+  });
+
+const runs = [
+  dummyRun(1, ".github/workflows/ci.yml", "main", "2024-01-01T00:00:00Z"),
+  dummyRun(2, ".github/workflows/ci.yml", "feature", "2024-01-02T00:00:00Z"),
+];
+const jobs = [
+  dummyJob(11, 1, "test (ubuntu-latest)", ["ubuntu-latest"]),
+  dummyJob(12, 1, "test (macos-latest)", ["macos-latest"]),
+  dummyJob(13, 1, "build", ["ubuntu-4-cores"]),
+  dummyJob(21, 2, "test (ubuntu-latest)", ["ubuntu-latest"]),
+];
+const usages: WorkflowRunUsage[] = [
+  {
+    billable: {
+      UBUNTU: {
+        total_ms: 190_000,
+        jobs: 2,
+        job_runs: [
+          { job_id: 11, duration_ms: 61_000 },
+          { job_id: 13, duration_ms: 120_000 },
+        ],
+      },
+      MACOS: {
+        total_ms: 30_000,
+        jobs: 1,
+        job_runs: [{ job_id: 12, duration_ms: 30_000 }],
+      },
+    },
+  },
+  {
+    billable: {
+      UBUNTU: {
+        total_ms: 60_000,
+        jobs: 1,
+        job_runs: [{ job_id: 21, duration_ms: 60_000 }],
+      },
+    },
+  },
+];
+
+describe(ActionsCostCalculator.name, () => {
+  const calculator = new ActionsCostCalculator({
+    skuRates: { "ubuntu-4-cores": 0.016 },
+  });
+
+  it("Prices jobs with OS multipliers and SKU rates", () => {
+    const [cost] = calculator.calculateRunCosts(runs, usages, jobs);
+    assertEquals(cost.source, "usage");
+    assertEquals(
+      cost.jobs.map(({ name, os, sku, minutes }) => ({
+        name,
+        os,
+        sku,
+        minutes,
+      })),
+      [
+        {
+          name: "test (ubuntu-latest)",
+          os: "UBUNTU",
+          sku: undefined,
+          minutes: 2,
+        },
+        { name: "build", os: "UBUNTU", sku: "ubuntu-4-cores", minutes: 2 },
+        {
+          name: "test (macos-latest)",
+          os: "MACOS",
+          sku: undefined,
+          minutes: 1,
+        },
+      ],
+    );
+    assertEquals(cost.minutes, 5);
+    // 2 * 0.008 + 2 * 0.016 + 1 * 0.008 * 10
+    assertAlmostEquals(cost.costUsd, 0.128);
+  });
+
+  it("Estimates from job timings without usages (GHES)", () => {
+    const [cost] = calculator.calculateRunCosts(runs, undefined, [
+      ...jobs,
+      dummyJob(14, 1, "deploy", ["self-hosted", "linux"], 3),
+    ]);
+    assertEquals(cost.source, "jobs");
+    assertEquals(cost.minutes, 6);
+    assertAlmostEquals(cost.costUsd, 0.104);
+    assertEquals(cost.jobs.at(-1)?.os, "SELF_HOSTED");
+    assertEquals(cost.jobs.at(-1)?.costUsd, 0);
+  });
+
+  it("Prices unknown labels and OS buckets at the base rate", () => {
+    // A billable bucket that this library does not know yet
+    const usage = {
+      billable: {
+        UBUNTU_ARM: {
+          total_ms: 60_000,
+          jobs: 1,
+          job_runs: [{ job_id: 11, duration_ms: 60_000 }],
+        },
+      },
+    } as unknown as WorkflowRunUsage;
+    const [cost] = calculator.calculateRunCosts([runs[0]], [usage], [
+      dummyJob(11, 1, "odd", ["constructor", "toString"]),
+    ]);
+    assertEquals(cost.jobs.map(({ os, sku }) => ({ os, sku })), [
+      { os: "UBUNTU_ARM", sku: undefined },
+    ]);
+    assertAlmostEquals(cost.costUsd, 0.008);
+  });
+
+  describe("rollup", () => {
+    const costs = calculator.calculateRunCosts(runs, usages, jobs);
+
+    it("by workflow", () => {
+      const [rollup] = calculator.rollup(costs, "workflow");
+      assertEquals(rollup.key, ".github/workflows/ci.yml");
+      assertEquals(rollup.runs, 2);
+      assertEquals(rollup.minutes, 6);
+    });
+
+    it("by branch within a date range", () => {
+      const actual = calculator.rollup(costs, "branch", {
+        since: new Date("2024-01-02T00:00:00Z"),
+      });
+      assertEquals(actual.map((it) => it.key), ["feature"]);
+    });
+
+    it("by job with matrix jobs grouped by JobModel.match", () => {
+      const workflowModel = new WorkflowModel({
+        raw: { path: ".github/workflows/ci.yml" },
+        content: `on: push
+jobs:
+  test:
+    strategy:
+      matrix:
+        os: [ubuntu-latest, macos-latest]
+    runs-on: \${{ matrix.os }}
+    steps:
+      - run: echo test
+  build:
+    runs-on: ubuntu-4-cores
+    steps:
+      - run: echo build
+`,
+      } as unknown as FileContent);
+      const actual = calculator.rollup(costs, "job", {
+        workflowModels: [workflowModel],
+      });
+      assertEquals(
+        actual.map(({ key, runs, minutes }) => ({ key, runs, minutes })),
+        [
+          { key: ".github/workflows/ci.yml:test", runs: 2, minutes: 4 },
+          { key: ".github/workflows/ci.yml:build", runs: 1, minutes: 2 },
+        ],
+      );
+    });
+  });
+});
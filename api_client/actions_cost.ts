@@ -0,0 +1,350 @@
+import type {
+  RunnerOs,
+  WorkflowJob,
+  WorkflowRun,
+  WorkflowRunUsage,
+} from "./api_client.ts";
+import {
+  JobModel,
+  type WorkflowModel,
+} from "../workflow_model/src/workflow_file.ts";
+
+/**
+ * Per-minute prices of GitHub-hosted runners
+ *
+ * @see https://docs.github.com/en/billing/managing-billing-for-your-products/managing-billing-for-github-actions/about-billing-for-github-actions#per-minute-rates
+ */
+export type ActionsPriceTable = {
+  /** USD per minute of a standard Linux runner */
+  baseRate: number;
+  /** Rate multipliers of standard runners by OS */
+  osMultipliers: Record<RunnerOs, number>;
+  /** USD per minute by runner label of larger runners. OS multipliers are not applied */
+  skuRates: Record<string, number>;
+};
+
+/**
+ * Default prices of GitHub-hosted runners
+ *
+ * Larger Linux/Windows runners have labels chosen by each organization,
+ * so add their labels to `skuRates` to price them.
+ */
+export const DEFAULT_ACTIONS_PRICE_TABLE: ActionsPriceTable = {
+  baseRate: 0.008,
+  osMultipliers: { UBUNTU: 1, WINDOWS: 2, MACOS: 10 },
+  skuRates: {
+    "macos-13-large": 0.12,
+    "macos-14-large": 0.12,
+    "macos-15-large": 0.12,
+    "macos-latest-large": 0.12,
+    "macos-13-xlarge": 0.16,
+    "macos-14-xlarge": 0.16,
+    "macos-15-xlarge": 0.16,
+    "macos-latest-xlarge": 0.16,
+  },
+};
+
+/** Cost of a single job */
+export type JobCost = {
+  /** Job ID */
+  jobId: number;
+  /** Job name, or undefined if the job was not given to the calculator */
+  name?: string;
+  /** Runner OS, or "SELF_HOSTED" for self-hosted runners that are not billed */
+  os: RunnerOs | "SELF_HOSTED";
+  /** Runner label priced by `skuRates`, if any */
+  sku?: string;
+  /** Billable minutes, rounded up per job like GitHub billing */
+  minutes: number;
+  /** Cost in USD */
+  costUsd: number;
+};
+
+/** Cost of a workflow run */
+export type WorkflowRunCost = {
+  /** Workflow run */
+  run: WorkflowRun;
+  /** "usage" when computed from the usage API, "jobs" when estimated from job timings (e.g. GHES) */
+  source: "usage" | "jobs";
+  /** Billable minutes of all jobs */
+  minutes: number;
+  /** Cost in USD */
+  costUsd: number;
+  /** Cost of each job */
+  jobs: JobCost[];
+};
+
+/** Costs summed up by a key */
+export type CostRollup = {
+  /** Run ID, workflow path, branch, or "workflow path:job ID" */
+  key: string;
+  /** Number of workflow runs */
+  runs: number;
+  /** Billable minutes */
+  minutes: number;
+  /** Cost in USD */
+  costUsd: number;
+};
+
+/** Options to roll up costs */
+export type CostRollupOptions = {
+  /** Include only runs started at or after this time */
+  since?: Date;
+  /** Include only runs started before this time */
+  until?: Date;
+  /** Workflow models of the runs, used to group matrix jobs by `JobModel.match` when rolling up by "job" */
+  workflowModels?: WorkflowModel[];
+};
+
+/**
+ * Estimates GitHub Actions costs of workflow runs
+ *
+ * Costs are computed from `fetchWorkflowRunUsages`. Where the usage API is not
+ * available (GHES returns undefined), costs are estimated from job timings and
+ * runner labels instead.
+ *
+ * @example
+ * ```typescript
+ * const runs = await github.fetchWorkflowRunsWithCreated("owner", "repo", "2024-01-01..2024-01-31");
+ * const usages = await github.fetchWorkflowRunUsages(runs);
+ * const jobs = await github.fetchWorkflowJobs(runs);
+ *
+ * const calculator = new ActionsCostCalculator({ skuRates: { "ubuntu-4-cores": 0.016 } });
+ * const costs = calculator.calculateRunCosts(runs, usages, jobs);
+ * for (const rollup of calculator.rollup(costs, "workflow")) {
+ *   console.log(rollup.key, rollup.costUsd);
+ * }
+ * ```
+ */
+export class ActionsCostCalculator {
+  /** Price table */
+  priceTable: ActionsPriceTable;
+
+  /**
+   * Creates a new ActionsCostCalculator instance
+   * @param priceTable - Prices overriding DEFAULT_ACTIONS_PRICE_TABLE. `skuRates` are merged with the defaults
+   */
+  constructor(priceTable?: Partial<ActionsPriceTable>) {
+    this.priceTable = {
+      ...DEFAULT_ACTIONS_PRICE_TABLE,
+      ...priceTable,
+      skuRates: {
+        ...DEFAULT_ACTIONS_PRICE_TABLE.skuRates,
+        ...priceTable?.skuRates,
+      },
+    };
+  }
+
+  /**
+   * Calculates costs of workflow runs
+   *
+   * @param workflowRuns - Array of workflow runs
+   * @param usages - Usages in the same order as workflowRuns (as returned by fetchWorkflowRunUsages), or undefined to estimate from jobs
+   * @param jobs - Jobs of the runs, used for job names, runner labels and estimation
+   * @returns Array of run costs in the same order as workflowRuns
+   */
+  calculateRunCosts(
+    workflowRuns: WorkflowRun[],
+    usages: WorkflowRunUsage[] | undefined,
+    jobs: WorkflowJob[] = [],
+  ): WorkflowRunCost[] {
+    const jobsByRunId = Map.groupBy(jobs, (job) => job.run_id);
+    return workflowRuns.map((run, index) =>
+      this.calculateRunCost(
+        run,
+        usages?.[index],
+        jobsByRunId.get(run.id) ?? [],
+      )
+    );
+  }
+
+  /**
+   * Calculates the cost of a workflow run
+   *
+   * @param workflowRun - Workflow run
+   * @param usage - Usage of the run, or undefined to estimate from jobs
+   * @param jobs - Jobs of the run
+   * @returns Run cost
+   */
+  calculateRunCost(
+    workflowRun: WorkflowRun,
+    usage: WorkflowRunUsage | undefined,
+    jobs: WorkflowJob[] = [],
+  ): WorkflowRunCost {
+    const jobCosts = usage
+      ? this.jobCostsFromUsage(usage, jobs)
+      : this.jobCostsFromJobs(jobs);
+    return {
+      run: workflowRun,
+      source: usage ? "usage" : "jobs",
+      minutes: jobCosts.reduce((sum, job) => sum + job.minutes, 0),
+      costUsd: jobCosts.reduce((sum, job) => sum + job.costUsd, 0),
+      jobs: jobCosts,
+    };
+  }
+
+  /**
+   * Sums up run costs per run, workflow, branch or job
+   *
+   * @param costs - Run costs
+   * @param groupBy - Grouping key
+   * @param options - Date range and workflow models
+   * @returns Rollups sorted by cost in descending order
+   *
+   * @example
+   * ```typescript
+   * const byJob = calculator.rollup(costs, "job", {
+   *   since: new Date("2024-01-01"),
+   *   workflowModels,
+   * });
+   * ```
+   */
+  rollup(
+    costs: WorkflowRunCost[],
+    groupBy: "run" | "workflow" | "branch" | "job",
+    options?: CostRollupOptions,
+  ): CostRollup[] {
+    const rollups = new Map<string, CostRollup & { runIds: Set<number> }>();
+    const add = (
+      key: string,
+      runId: number,
+      minutes: number,
+      costUsd: number,
+    ) => {
+      const rollup = rollups.get(key) ??
+        { key, runs: 0, minutes: 0, costUsd: 0, runIds: new Set<number>() };
+      rollup.runIds.add(runId);
+      rollup.minutes += minutes;
+      rollup.costUsd += costUsd;
+      rollups.set(key, rollup);
+    };
+
+    for (const cost of costs) {
+      const startedAt = Date.parse(cost.run.run_started_at);
+      if (options?.since && startedAt < options.since.getTime()) continue;
+      if (options?.until && startedAt >= options.until.getTime()) continue;
+
+      const { run } = cost;
+      switch (groupBy) {
+        case "run":
+          add(String(run.id), run.id, cost.minutes, cost.costUsd);
+          break;
+        case "workflow":
+          add(run.path, run.id, cost.minutes, cost.costUsd);
+          break;
+        case "branch":
+          add(run.head_branch ?? "", run.id, cost.minutes, cost.costUsd);
+          break;
+        case "job": {
+          const workflowModel = options?.workflowModels?.find((model) =>
+            model.fileContent.raw.path === run.path
+          );
+          for (const job of cost.jobs) {
+            const jobModel = job.name !== undefined
+              ? JobModel.match(workflowModel?.jobs, job.name)
+              : undefined;
+            const jobKey = jobModel?.id ?? job.name ?? String(job.jobId);
+            add(`${run.path}:${jobKey}`, run.id, job.minutes, job.costUsd);
+          }
+          break;
+        }
+      }
+    }
+
+    return [...rollups.values()]
+      .map(({ runIds, ...rollup }) => ({ ...rollup, runs: runIds.size }))
+      .toSorted((a, b) => b.costUsd - a.costUsd);
+  }
+
+  /**
+   * Creates job costs from the billable usage
+   * @param usage - Usage of the run
+   * @param jobs - Jobs of the run
+   * @returns Array of job costs
+   */
+  private jobCostsFromUsage(
+    usage: WorkflowRunUsage,
+    jobs: WorkflowJob[],
+  ): JobCost[] {
+    const jobCosts: JobCost[] = [];
+    for (const [os, billable] of Object.entries(usage.billable)) {
+      for (const jobRun of billable?.job_runs ?? []) {
+        const job = jobs.find((job) => job.id === jobRun.job_id);
+        jobCosts.push(
+          this.jobCost(jobRun.job_id, job, os as RunnerOs, jobRun.duration_ms),
+        );
+      }
+    }
+    return jobCosts;
+  }
+
+  /**
+   * Estimates job costs from job timings and runner labels
+   * @param jobs - Jobs of the run
+   * @returns Array of job costs
+   */
+  private jobCostsFromJobs(jobs: WorkflowJob[]): JobCost[] {
+    return jobs
+      .filter((job) => job.completed_at && job.conclusion !== "skipped")
+      .map((job) => {
+        const labels = job.labels.map((label) => label.toLowerCase());
+        const durationMs = Date.parse(job.completed_at!) -
+          Date.parse(job.started_at);
+        if (labels.includes("self-hosted")) {
+          return {
+            jobId: job.id,
+            name: job.name,
+            os: "SELF_HOSTED",
+            minutes: ActionsCostCalculator.toBillableMinutes(durationMs),
+            costUsd: 0,
+          };
+        }
+        const os: RunnerOs = labels.some((label) => label.includes("windows"))
+          ? "WINDOWS"
+          : labels.some((label) => label.includes("macos"))
+          ? "MACOS"
+          : "UBUNTU";
+        return this.jobCost(job.id, job, os, durationMs);
+      });
+  }
+
+  /**
+   * Prices a job
+   * @param jobId - Job ID
+   * @param job - Job, if given
+   * @param os - Runner OS. OSes without a multiplier, e.g. new billable buckets, are priced at the base rate
+   * @param durationMs - Billable duration
+   * @returns Job cost
+   */
+  private jobCost(
+    jobId: number,
+    job: WorkflowJob | undefined,
+    os: RunnerOs,
+    durationMs: number,
+  ): JobCost {
+    const minutes = ActionsCostCalculator.toBillableMinutes(durationMs);
+    const { baseRate, osMultipliers, skuRates } = this.priceTable;
+    // Own keys only, so that labels such as "constructor" are not priced
+    const sku = job?.labels.find((label) => Object.hasOwn(skuRates, label));
+    const rate = sku !== undefined
+      ? skuRates[sku]
+      : baseRate * (Object.hasOwn(osMultipliers, os) ? osMultipliers[os] : 1);
+    return {
+      jobId,
+      name: job?.name,
+      os,
+      sku,
+      minutes,
+      costUsd: minutes * rate,
+    };
+  }
+
+  /**
+   * Rounds a duration up to whole minutes, as GitHub bills each job
+   * @param durationMs - Duration in milliseconds
+   * @returns Billable minutes
+   */
+  private static toBillableMinutes(durationMs: number): number {
+    return Math.ceil(Math.max(0, durationMs) / 60_000);
+  }
+}
@@ -0,0 +1,110 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { GithubActionsUrlError, parseGithubActionsUrl } from "./actions_url.ts";
+
+const base = {
+  origin: "https://github.com",
+  owner: "Kesin11",
+  repo: "actions-timeline",
+};
+const repoUrl = "https://github.com/Kesin11/actions-timeline";
+
+describe(parseGithubActionsUrl.name, () => {
+  it("should parse run URL", () => {
+    assertEquals(parseGithubActionsUrl(`${repoUrl}/actions/runs/1000/`), {
+      ...base,
+      type: "run",
+      runId: 1000,
+    });
+  });
+
+  it("should parse run attempt URL", () => {
+    assertEquals(
+      parseGithubActionsUrl(`${repoUrl}/actions/runs/1000/attempts/2`),
+      { ...base, type: "run", runId: 1000, runAttempt: 2 },
+    );
+  });
+
+  it("should parse job URL with step anchor", () => {
+    assertEquals(
+      parseGithubActionsUrl(`${repoUrl}/actions/runs/1000/job/2000#step:4:12`),
+      {
+        ...base,
+        type: "job",
+        runId: 1000,
+        jobId: 2000,
+        step: 4,
+        line: 12,
+      },
+    );
+  });
+
+  it("should parse pull request checks URL", () => {
+    assertEquals(
+      parseGithubActionsUrl(`${repoUrl}/pull/42/checks?check_run_id=2000`),
+      { ...base, type: "pullRequestCheck", pullNumber: 42, checkRunId: 2000 },
+    );
+  });
+
+  it("should parse workflow file URL with ref containing slash and line range", () => {
+    assertEquals(
+      parseGithubActionsUrl(
+        `${repoUrl}/blob/feature/foo/.github/workflows/ci.yml#L10-L20`,
+      ),
+      {
+        ...base,
+        type: "workflowFile",
+        ref: "feature/foo",
+        path: ".github/workflows/ci.yml",
+        startLine: 10,
+        endLine: 20,
+      },
+    );
+  });
+
+  it("should parse workflow page URL of GHES", () => {
+    assertEquals(
+      parseGithubActionsUrl(
+        "https://ghes.example.com/owner/repo/actions/workflows/ci.yml?query=branch%3Amain",
+      ),
+      {
+        origin: "https://ghes.example.com",
+        owner: "owner",
+        repo: "repo",
+        type: "workflow",
+        workflowFileName: "ci.yml",
+        path: ".github/workflows/ci.yml",
+      },
+    );
+  });
+
+  describe("should throw on malformed URL", () => {
+    const cases = [
+      ["not a URL", "not a URL"],
+      ["https://github.com/owner", "owner and repo are missing"],
+      [
+        `${repoUrl}/actions/runs/abc`,
+        'run ID must be a positive integer, got "abc"',
+      ],
+      [
+        `${repoUrl}/actions/runs/1000/artifacts`,
+        "expected /actions/runs/{runId}",
+      ],
+      [`${repoUrl}/blob/main/README.md`, "expected /blob/{ref}/.github/{path}"],
+      [`${repoUrl}/issues/1`, "not a run, job"],
+      [
+        "https://github.com/o/r/actions/runs/%E0%A4%A",
+        "malformed percent-encoding",
+      ],
+    ];
+    for (const [url, message] of cases) {
+      it(url, () => {
+        assertThrows(
+          () => parseGithubActionsUrl(url),
+          GithubActionsUrlError,
+          message,
+        );
+      });
+    }
+  });
+});
@@ -0,0 +1,215 @@
+/** Fields common to every parsed GitHub URL */
+export type GithubRepositoryUrl = {
+  /** e.g. "https://github.com" or the GHES origin */
+  origin: string;
+  owner: string;
+  repo: string;
+};
+
+/**
+ * A parsed GitHub Actions URL
+ *
+ * - "run": `/{owner}/{repo}/actions/runs/{runId}[/attempts/{runAttempt}]`
+ * - "job": `/{owner}/{repo}/actions/runs/{runId}/job/{jobId}[#step:{step}:{line}]`
+ * - "pullRequestCheck": `/{owner}/{repo}/pull/{pullNumber}/checks[?check_run_id={checkRunId}]`
+ * - "workflowFile": `/{owner}/{repo}/blob/{ref}/.github/...[#L{startLine}[-L{endLine}]]`
+ * - "workflow": `/{owner}/{repo}/actions/workflows/{workflowFileName}`
+ */
+export type GithubActionsUrl =
+  | GithubRepositoryUrl & {
+    type: "run";
+    runId: number;
+    runAttempt?: number;
+  }
+  | GithubRepositoryUrl & {
+    type: "job";
+    runId: number;
+    /** Job ID, which is also the check run ID */
+    jobId: number;
+    /** Step number of a `#step:{step}:{line}` anchor */
+    step?: number;
+    /** Log line number of a `#step:{step}:{line}` anchor */
+    line?: number;
+  }
+  | GithubRepositoryUrl & {
+    type: "pullRequestCheck";
+    pullNumber: number;
+    /** Selected check run (job) ID */
+    checkRunId?: number;
+  }
+  | GithubRepositoryUrl & {
+    type: "workflowFile";
+    /** Branch, tag or commit hash. Branch names with "/" are supported */
+    ref: string;
+    /** File path, e.g. ".github/workflows/ci.yml" */
+    path: string;
+    startLine?: number;
+    endLine?: number;
+  }
+  | GithubRepositoryUrl & {
+    type: "workflow";
+    /** Workflow file name, which the API accepts as the workflow ID */
+    workflowFileName: string;
+    /** File path, e.g. ".github/workflows/ci.yml" */
+    path: string;
+  };
+
+/**
+ * Error thrown when a URL is not a supported GitHub Actions URL
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   parseGithubActionsUrl(text);
+ * } catch (error) {
+ *   if (error instanceof GithubActionsUrlError) console.error(error.url, error.message);
+ * }
+ * ```
+ */
+export class GithubActionsUrlError extends Error {
+  /** The given URL */
+  url: string;
+
+  /**
+   * Creates a new GithubActionsUrlError instance
+   * @param url - The given URL
+   * @param reason - Why the URL could not be parsed
+   */
+  constructor(url: string, reason: string) {
+    super(`Invalid GitHub Actions URL "${url}": ${reason}`);
+    this.name = "GithubActionsUrlError";
+    this.url = url;
+  }
+}
+
+/**
+ * Parses a GitHub Actions related URL of github.com or GHES
+ *
+ * @param actionsUrl - URL of a run, run attempt, job, pull request checks, workflow file or workflow page
+ * @returns Parsed URL discriminated by `type`
+ * @throws {GithubActionsUrlError} If the URL is malformed or not a supported shape
+ *
+ * @example
+ * ```typescript
+ * const parsed = parseGithubActionsUrl(
+ *   "https://github.com/owner/repo/actions/runs/123/job/456#step:4:12",
+ * );
+ * if (parsed.type === "job") {
+ *   console.log(parsed.runId, parsed.jobId, parsed.step); // 123 456 4
+ * }
+ * ```
+ */
+export function parseGithubActionsUrl(actionsUrl: string): GithubActionsUrl {
+  let url: URL;
+  try {
+    url = new URL(actionsUrl.trim());
+  } catch {
+    throw new GithubActionsUrlError(actionsUrl, "not a URL");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new GithubActionsUrlError(actionsUrl, "not an http(s) URL");
+  }
+
+  let segments: string[];
+  try {
+    segments = url.pathname.split("/").filter((it) => it !== "")
+      .map(decodeURIComponent);
+  } catch {
+    throw new GithubActionsUrlError(actionsUrl, "malformed percent-encoding");
+  }
+  const [owner, repo, kind, ...rest] = segments;
+  if (owner === undefined || repo === undefined) {
+    throw new GithubActionsUrlError(actionsUrl, "owner and repo are missing");
+  }
+  const base = { origin: url.origin, owner, repo };
+  const id = (value: string | undefined, name: string): number => {
+    if (value === undefined || !/^\d+$/.test(value) || Number(value) === 0) {
+      throw new GithubActionsUrlError(
+        actionsUrl,
+        `${name} must be a positive integer, got "${value ?? ""}"`,
+      );
+    }
+    return Number(value);
+  };
+
+  if (kind === "actions" && rest[0] === "runs") {
+    const runId = id(rest[1], "run ID");
+    if (rest.length === 2) return { ...base, type: "run", runId };
+    if (rest[2] === "attempts" && rest.length === 4) {
+      return {
+        ...base,
+        type: "run",
+        runId,
+        runAttempt: id(rest[3], "run attempt"),
+      };
+    }
+    if ((rest[2] === "job" || rest[2] === "jobs") && rest.length === 4) {
+      const anchor = url.hash.match(/^#step:(\d+)(?::(\d+))?$/);
+      return {
+        ...base,
+        type: "job",
+        runId,
+        jobId: id(rest[3], "job ID"),
+        step: anchor ? Number(anchor[1]) : undefined,
+        line: anchor?.[2] !== undefined ? Number(anchor[2]) : undefined,
+      };
+    }
+    throw new GithubActionsUrlError(
+      actionsUrl,
+      "expected /actions/runs/{runId}, /attempts/{attempt} or /job/{jobId}",
+    );
+  }
+
+  if (kind === "actions" && rest[0] === "workflows") {
+    const workflowFileName = rest[1];
+    if (rest.length !== 2 || !/\.ya?ml$/.test(workflowFileName)) {
+      throw new GithubActionsUrlError(
+        actionsUrl,
+        "expected /actions/workflows/{file}.yml",
+      );
+    }
+    return {
+      ...base,
+      type: "workflow",
+      workflowFileName,
+      path: `.github/workflows/${workflowFileName}`,
+    };
+  }
+
+  if (kind === "pull" && rest[1] === "checks" && rest.length === 2) {
+    const checkRunId = url.searchParams.get("check_run_id");
+    return {
+      ...base,
+      type: "pullRequestCheck",
+      pullNumber: id(rest[0], "pull request number"),
+      checkRunId: checkRunId !== null
+        ? id(checkRunId, "check run ID")
+        : undefined,
+    };
+  }
+
+  if (kind === "blob") {
+    // The ref may contain "/", so the path is found by its ".github" directory
+    const githubIndex = rest.indexOf(".github");
+    if (githubIndex < 1 || githubIndex === rest.length - 1) {
+      throw new GithubActionsUrlError(
+        actionsUrl,
+        "expected /blob/{ref}/.github/{path}",
+      );
+    }
+    const lines = url.hash.match(/^#L(\d+)(?:-L(\d+))?$/);
+    return {
+      ...base,
+      type: "workflowFile",
+      ref: rest.slice(0, githubIndex).join("/"),
+      path: rest.slice(githubIndex).join("/"),
+      startLine: lines ? Number(lines[1]) : undefined,
+      endLine: lines?.[2] !== undefined ? Number(lines[2]) : undefined,
+    };
+  }
+
+  throw new GithubActionsUrlError(
+    actionsUrl,
+    "not a run, job, pull request checks, workflow file or workflow URL",
+  );
+}
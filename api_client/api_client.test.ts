@@ -1,6 +1,59 @@
-import { assertEquals } from "@std/assert";
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+  assertThrows,
+} from "@std/assert";
 import { beforeEach, describe, it } from "@std/testing/bdd";
-import { FileContent, Github, parseWorkflowRunUrl } from "./api_client.ts";
+import { stub } from "@std/testing/mock";
+import { encodeBase64 } from "@std/encoding";
+import {
+  type Artifact,
+  decideRateLimitRetry,
+  FileContent,
+  Github,
+  parseWorkflowRunUrl,
+  summarizeArtifactSizeByWorkflow,
+} from "./api_client.ts";
+import { GithubActionsUrlError } from "./actions_url.ts";
+import { MemoryContentCacheStore } from "./content_cache.ts";
+import { ForbiddenError, NotFoundError, RateLimitedError } from "./errors.ts";
+import { FakeGithubServer, fakeWorkflowRun } from "./fake_github_server.ts";
+import {
+  type RequestStartEvent,
+  type RequestTraceEvent,
+  silentLogger,
+} from "./logger.ts";
+import { ResponseValidationError } from "./response_validation.ts";
+import { WorkflowDispatchInputError } from "../workflow_model/src/workflow_file.ts";
+
+/**
+ * Creates a fake fetch that serves `pages` of items under `key`
+ * with Link headers like the GitHub API
+ */
+const fakePaginatedFetch = (
+  key: string,
+  pagesFor: (url: URL) => unknown[][],
+) =>
+(input: string | URL | Request): Promise<Response> => {
+  const url = new URL(input instanceof Request ? input.url : input);
+  const requestUrl = url.toString();
+  const pages = pagesFor(url);
+  const page = Number(url.searchParams.get("page") ?? 1);
+  const headers = new Headers({ "content-type": "application/json" });
+  if (page < pages.length) {
+    url.searchParams.set("page", String(page + 1));
+    headers.set("link", `<${url}>; rel="next"`);
+  }
+  const body = {
+    total_count: pages.flat().length,
+    [key]: pages[page - 1] ?? [],
+  };
+  const res = new Response(JSON.stringify(body), { status: 200, headers });
+  // Octokit's paginate reads response.url, which is empty for a constructed Response
+  Object.defineProperty(res, "url", { value: requestUrl });
+  return Promise.resolve(res);
+};
 
 describe(Github.name, () => {
   describe("Set token at constructor", () => {
@@ -67,6 +120,902 @@ describe(Github.name, () => {
   });
 });
 
+describe("Github.iterateWorkflowRuns", () => {
+  const dummyRun = (id: number, event = "push") => ({
+    id,
+    event,
+    head_sha: "sha",
+    path: ".github/workflows/ci.yml",
+    run_started_at: "2024-01-01T00:00:00Z",
+    repository: { name: "repo", owner: { login: "owner" } },
+  });
+  // Serves 2 pages: ids 1..3 (with a dynamic run) and ids 4..5
+  const pages = [
+    [dummyRun(1), dummyRun(2, "dynamic"), dummyRun(3)],
+    [dummyRun(4), dummyRun(5)],
+  ];
+  const fakeFetch = fakePaginatedFetch("workflow_runs", () => pages);
+
+  it("Iterates all pages and skips dynamic runs", async () => {
+    using fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    const ids = [];
+    for await (const run of github.iterateWorkflowRuns("owner", "repo")) {
+      ids.push(run.id);
+    }
+    assertEquals(ids, [1, 3, 4, 5]);
+    assertEquals(fetchStub.calls.length, 2);
+  });
+
+  it("Stops requesting pages after maxCount", async () => {
+    using fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    const ids = [];
+    for await (
+      const run of github.iterateWorkflowRuns("owner", "repo", { maxCount: 2 })
+    ) {
+      ids.push(run.id);
+    }
+    assertEquals(ids, [1, 3]);
+    assertEquals(fetchStub.calls.length, 1);
+  });
+
+  it("Uses the per-workflow endpoint with filters", async () => {
+    using fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    const iterator = github.iterateWorkflowRuns("owner", "repo", {
+      workflow_id: "ci.yml",
+      status: "failure",
+      head_sha: "abc",
+    });
+    await iterator.next();
+    const url = new URL(fetchStub.calls[0].args[0] as string);
+    assertEquals(
+      url.pathname,
+      "/repos/owner/repo/actions/workflows/ci.yml/runs",
+    );
+    assertEquals(url.searchParams.get("status"), "failure");
+    assertEquals(url.searchParams.get("head_sha"), "abc");
+  });
+});
+
+describe("Github validateResponses", () => {
+  // Minimal run that lacks most of the fields of WorkflowRun
+  const fakeFetch = fakePaginatedFetch("workflow_runs", () => [[{
+    id: 1,
+    event: "push",
+    path: ".github/workflows/ci.yml",
+  }]]);
+
+  it("Returns responses as they are by default", async () => {
+    using _fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    const runs = await github.fetchWorkflowRuns("owner", "repo");
+    assertEquals(runs.map((run) => run.id), [1]);
+  });
+
+  it("Throws ResponseValidationError naming the invalid field", async () => {
+    using _fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({
+      token: "token",
+      validateResponses: true,
+      _workaroundDenoTest: true,
+    });
+
+    await assertRejects(
+      () => github.fetchWorkflowRuns("owner", "repo"),
+      ResponseValidationError,
+      'Invalid WorkflowRun response: "[0].node_id" is missing',
+    );
+  });
+});
+
+describe("Github.fetchWorkflowRunJobs", () => {
+  const dummyJob = (id: number) => ({
+    id,
+    name: `job${id}`,
+    status: "completed",
+    conclusion: "success",
+    started_at: "2024-01-01T00:00:00Z",
+    completed_at: "2024-01-01T00:01:00Z",
+  });
+  // attempt 1: 1 page, attempt 2: 2 pages
+  const fakeFetch = fakePaginatedFetch("jobs", (url) => {
+    const attempt = Number(url.pathname.match(/attempts\/(\d+)/)?.[1]);
+    return attempt === 1
+      ? [[dummyJob(1)]]
+      : [[dummyJob(2), dummyJob(3)], [dummyJob(4)]];
+  });
+  const run = fakeWorkflowRun({ id: 100, head_sha: "sha", run_attempt: 2 });
+
+  it("Fetches all pages of the latest attempt", async () => {
+    using _fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    const jobs = await github.fetchWorkflowRunJobs(run);
+    assertEquals(jobs.map((job) => [job.id, job.run_attempt]), [
+      [2, 2],
+      [3, 2],
+      [4, 2],
+    ]);
+  });
+
+  it("Fetches jobs of every attempt with allAttempts", async () => {
+    using _fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    const jobs = await github.fetchWorkflowJobs([run], 20, {
+      allAttempts: true,
+    });
+    assertEquals(jobs.map((job) => [job.id, job.run_attempt]), [
+      [1, 1],
+      [2, 2],
+      [3, 2],
+      [4, 2],
+    ]);
+  });
+});
+
+describe("Github.fetchContent", () => {
+  const params = {
+    owner: "owner",
+    repo: "repo",
+    path: ".github/workflows/ci.yml",
+  };
+  // "hello world" with ETag "v1", 304 when If-None-Match matches
+  const fakeFetch = (_input: string | URL | Request, init?: RequestInit) => {
+    const headers = new Headers(init?.headers);
+    if (headers.get("if-none-match") === '"v1"') {
+      return Promise.resolve(new Response(null, { status: 304 }));
+    }
+    const body = {
+      type: "file",
+      size: 11,
+      name: "ci.yml",
+      path: params.path,
+      content: "aGVsbG8gd29ybGQ=",
+      sha: "abc123",
+      url: "https://api.github.com/repos/owner/repo/contents/ci.yml",
+      git_url: null,
+      html_url: null,
+      download_url: null,
+    };
+    return Promise.resolve(
+      new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { "content-type": "application/json", etag: '"v1"' },
+      }),
+    );
+  };
+
+  it("Serves commit hash ref from cache without request", async () => {
+    using fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+    const ref = "0123456789abcdef0123456789abcdef01234567";
+
+    const first = await github.fetchContent({ ...params, ref });
+    const second = await github.fetchContent({ ...params, ref });
+    assertEquals(first?.content, "hello world");
+    assertEquals(second?.content, "hello world");
+    assertEquals(fetchStub.calls.length, 1);
+  });
+
+  it("Revalidates branch ref with If-None-Match", async () => {
+    using fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    const first = await github.fetchContent({ ...params, ref: "main" });
+    const second = await github.fetchContent({ ...params, ref: "main" });
+    assertEquals(first?.content, "hello world");
+    assertEquals(second?.content, "hello world");
+    assertEquals(fetchStub.calls.length, 2);
+    const headers = new Headers(fetchStub.calls[1].args[1]?.headers);
+    assertEquals(headers.get("if-none-match"), '"v1"');
+  });
+
+  it("Records requests and cache hits in the ledger", async () => {
+    using _fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+    const ref = "0123456789abcdef0123456789abcdef01234567";
+
+    await github.fetchContent({ ...params, ref });
+    await github.fetchContent({ ...params, ref });
+    await github.fetchContent({ ...params, ref: "main" });
+    await github.fetchContent({ ...params, ref: "main" });
+    assertEquals(github.ledger.entries(), [{
+      route: "GET /repos/{owner}/{repo}/contents/{path}",
+      requests: 3,
+      cacheHits: 2,
+      errors: 0,
+      rateLimitConsumed: 0,
+    }]);
+  });
+});
+
+describe("Github.fetchContent large files", () => {
+  // Over 1 MB, so the contents API omits the content
+  const largeYaml = `name: Generated\non: push\njobs:\n${
+    Array.from(
+      { length: 20000 },
+      (_, i) =>
+        `  job${i}:\n    runs-on: ubuntu-latest\n    steps:\n      - run: echo ${i}\n`,
+    ).join("")
+  }`;
+  const server = new FakeGithubServer({
+    files: [{
+      owner: "owner",
+      repo: "repo",
+      path: ".github/workflows/generated.yml",
+      content: largeYaml,
+    }],
+  });
+  const params = {
+    owner: "owner",
+    repo: "repo",
+    path: ".github/workflows/generated.yml",
+    ref: "main",
+  };
+
+  it("Falls back to the blobs API by sha", async () => {
+    server.requests.length = 0;
+    const github = new Github({
+      token: "token",
+      fetch: server.fetch,
+      _workaroundDenoTest: true,
+    });
+
+    const content = await github.fetchContent(params);
+    assertEquals(content?.content, largeYaml);
+    assertEquals(content?.raw.encoding, "base64");
+    assertEquals(
+      server.requests.map((req) => new URL(req.url).pathname.split("/")[4]),
+      ["contents", "git"],
+    );
+  });
+
+  it("Works in strict mode", async () => {
+    const github = new Github({
+      token: "token",
+      fetch: server.fetch,
+      strict: true,
+      _workaroundDenoTest: true,
+    });
+
+    const content = await github.fetchContent(params);
+    assertEquals(content?.content.length, largeYaml.length);
+  });
+});
+
+describe("Github.fetchContents", () => {
+  const sha = "0123456789abcdef0123456789abcdef01234567";
+  const files: Record<string, string> = {
+    [`owner/repo:${sha}:.github/workflows/ci.yml`]: "name: CI\n",
+    [`owner/repo:${sha}:.github/workflows/release.yml`]: "name: Release\n",
+    [`owner/other:main:.github/workflows/ci.yml`]: "name: Other\n",
+  };
+  const json = (body: unknown, status = 200) =>
+    Promise.resolve(
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { "content-type": "application/json" },
+      }),
+    );
+  // Serves `files` by GraphQL aliases and by the contents API
+  const fakeFetch = (
+    options?: {
+      graphqlStatus?: number;
+      graphqlSchemaError?: boolean;
+      truncated?: boolean;
+    },
+  ) =>
+  (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    if (url.pathname === "/graphql") {
+      if (options?.graphqlSchemaError) {
+        return json({
+          errors: [{
+            message: "Field 'byteSize' doesn't exist on type 'Blob'",
+          }],
+        });
+      }
+      if (options?.graphqlStatus === 403) {
+        return json({ message: "API rate limit exceeded" }, 403);
+      }
+      if (options?.graphqlStatus) {
+        return json({ message: "Not Found" }, options.graphqlStatus);
+      }
+      const { variables } = JSON.parse(String(init?.body));
+      const data: Record<string, unknown> = {};
+      const errors = [];
+      for (let i = 0; `owner${i}` in variables; i++) {
+        const repo = `${variables[`owner${i}`]}/${variables[`repo${i}`]}`;
+        if (repo === "owner/missing") {
+          data[`f${i}`] = null;
+          errors.push({ type: "NOT_FOUND", path: [`f${i}`] });
+          continue;
+        }
+        const text = files[`${repo}:${variables[`expression${i}`]}`];
+        data[`f${i}`] = {
+          url: `https://github.com/${repo}`,
+          object: text === undefined ? null : {
+            __typename: "Blob",
+            oid: `oid${i}`,
+            byteSize: text.length,
+            isTruncated: options?.truncated ?? false,
+            text: options?.truncated ? text.slice(0, 4) : text,
+          },
+        };
+      }
+      return json(errors.length ? { data, errors } : { data });
+    }
+    const [, , owner, repo, , ...path] = url.pathname.split("/");
+    const text = files[
+      `${owner}/${repo}:${url.searchParams.get("ref")}:${
+        decodeURIComponent(path.join("/"))
+      }`
+    ];
+    if (text === undefined) return json({ message: "Not Found" }, 404);
+    return json({
+      type: "file",
+      size: text.length,
+      name: "ci.yml",
+      path: decodeURIComponent(path.join("/")),
+      content: encodeBase64(new TextEncoder().encode(text)),
+      encoding: "base64",
+      sha: "rest",
+      url: url.toString(),
+      git_url: null,
+      html_url: null,
+      download_url: null,
+    });
+  };
+  const requests = [
+    {
+      owner: "owner",
+      repo: "repo",
+      path: ".github/workflows/ci.yml",
+      ref: sha,
+    },
+    {
+      owner: "owner",
+      repo: "other",
+      path: ".github/workflows/ci.yml",
+      ref: "main",
+    },
+    {
+      owner: "owner",
+      repo: "repo",
+      path: ".github/workflows/none.yml",
+      ref: sha,
+    },
+    {
+      owner: "owner",
+      repo: "missing",
+      path: ".github/workflows/ci.yml",
+      ref: sha,
+    },
+    {
+      owner: "owner",
+      repo: "repo",
+      path: ".github/workflows/release.yml",
+      ref: sha,
+    },
+    {
+      owner: "owner",
+      repo: "repo",
+      path: ".github/workflows/ci.yml",
+      ref: sha,
+    },
+  ];
+
+  it("Resolves files with GraphQL aliases in input order", async () => {
+    using fetchStub = stub(globalThis, "fetch", fakeFetch());
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    const contents = await github.fetchContents(requests, { batchSize: 3 });
+    assertEquals(contents.map((content) => content?.content), [
+      "name: CI\n",
+      "name: Other\n",
+      undefined,
+      undefined,
+      "name: Release\n",
+      "name: CI\n",
+    ]);
+    assertEquals(
+      contents[0]?.raw.html_url,
+      `https://github.com/owner/repo/blob/${sha}/.github/workflows/ci.yml`,
+    );
+    // 5 unique files in batches of 3
+    assertEquals(fetchStub.calls.length, 2);
+    assertEquals(github.ledger.entries()[0].route, "POST /graphql");
+  });
+
+  it("Populates the content cache", async () => {
+    using fetchStub = stub(globalThis, "fetch", fakeFetch());
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    await github.fetchContents(requests.slice(0, 1));
+    const content = await github.fetchContent(requests[0]);
+    assertEquals(content?.content, "name: CI\n");
+    assertEquals(fetchStub.calls.length, 1);
+    // Cached commit hash refs are not queried again
+    await github.fetchContents(requests.slice(0, 1));
+    assertEquals(fetchStub.calls.length, 1);
+  });
+
+  it("Keeps cache entries of branch refs revalidatable", async () => {
+    using _fetchStub = stub(globalThis, "fetch", fakeFetch());
+    const contentCacheStore = new MemoryContentCacheStore();
+    const github = new Github({
+      token: "token",
+      contentCacheStore,
+      _workaroundDenoTest: true,
+    });
+    const key = JSON.stringify(requests[1]);
+    const entry = {
+      response: (await github.fetchContent(requests[1]))!.raw,
+      etag: '"etag"',
+    };
+    await contentCacheStore.set(key, entry);
+
+    const [content] = await github.fetchContents(requests.slice(1, 2));
+    assertEquals(content?.content, "name: Other\n");
+    assertEquals(await contentCacheStore.get(key), entry);
+  });
+
+  it("Fetches truncated files with the contents API", async () => {
+    using _fetchStub = stub(
+      globalThis,
+      "fetch",
+      fakeFetch({ truncated: true }),
+    );
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    const [content] = await github.fetchContents(requests.slice(0, 1));
+    assertEquals(content?.content, "name: CI\n");
+    assertEquals(content?.raw.sha, "rest");
+  });
+
+  it("Falls back to the contents API when GraphQL is unavailable", async () => {
+    using fetchStub = stub(
+      globalThis,
+      "fetch",
+      fakeFetch({ graphqlStatus: 404 }),
+    );
+    const github = new Github({
+      token: "token",
+      logger: silentLogger,
+      _workaroundDenoTest: true,
+    });
+
+    const contents = await github.fetchContents(requests.slice(0, 2));
+    assertEquals(contents.map((content) => content?.content), [
+      "name: CI\n",
+      "name: Other\n",
+    ]);
+    await github.fetchContents(requests.slice(4, 5));
+    const graphqlCalls = fetchStub.calls.filter((call) =>
+      String(call.args[0]).endsWith("/graphql")
+    );
+    assertEquals(graphqlCalls.length, 1);
+  });
+
+  it("Falls back to the contents API when GraphQL lacks the fields", async () => {
+    using fetchStub = stub(
+      globalThis,
+      "fetch",
+      fakeFetch({ graphqlSchemaError: true }),
+    );
+    const github = new Github({
+      token: "token",
+      logger: silentLogger,
+      _workaroundDenoTest: true,
+    });
+
+    await github.fetchContents(requests.slice(0, 1));
+    const [content] = await github.fetchContents(requests.slice(1, 2));
+    assertEquals(content?.content, "name: Other\n");
+    const graphqlCalls = fetchStub.calls.filter((call) =>
+      String(call.args[0]).endsWith("/graphql")
+    );
+    assertEquals(graphqlCalls.length, 1);
+  });
+
+  it("Keeps using GraphQL after a transient failure", async () => {
+    using fetchStub = stub(
+      globalThis,
+      "fetch",
+      fakeFetch({ graphqlStatus: 403 }),
+    );
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    for (let i = 0; i < 2; i++) {
+      await assertRejects(
+        () => github.fetchContents(requests.slice(0, 1)),
+        RateLimitedError,
+      );
+    }
+    assertEquals(fetchStub.calls.length, 2);
+  });
+
+  it("Throws NotFoundError for missing files when strict", async () => {
+    using _fetchStub = stub(globalThis, "fetch", fakeFetch());
+    const github = new Github({
+      token: "token",
+      strict: true,
+      _workaroundDenoTest: true,
+    });
+
+    await assertRejects(
+      () => github.fetchContents(requests.slice(2, 3)),
+      NotFoundError,
+      "File not found (owner/repo/.github/workflows/none.yml@",
+    );
+  });
+});
+
+describe("Github.fetchWorkflowDefinitions", () => {
+  const workflow = (id: number, path: string, state = "active") => ({
+    id,
+    node_id: `W_${id}`,
+    name: path.split("/").at(-1),
+    path,
+    state,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    url: `https://api.github.com/repos/owner/repo/actions/workflows/${id}`,
+    html_url: `https://github.com/owner/repo/blob/main/${path}`,
+    badge_url: `https://github.com/owner/repo/workflows/${id}/badge.svg`,
+  });
+  const files: Record<string, string> = {
+    ".github/workflows/ci.yml":
+      "name: CI\non: push\njobs:\n  test:\n    runs-on: ubuntu-latest\n",
+    ".github/workflows/broken.yml": "name: [\n",
+    ".github/workflows/empty.yml": "",
+    ".github/workflows/never-run.yml":
+      "on: workflow_dispatch\njobs:\n  noop:\n    runs-on: ubuntu-latest\n",
+  };
+  const json = (body: unknown, requestUrl: string) => {
+    const res = new Response(JSON.stringify(body), {
+      headers: { "content-type": "application/json" },
+    });
+    Object.defineProperty(res, "url", { value: requestUrl });
+    return Promise.resolve(res);
+  };
+  const fakeFetch = (
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    if (url.pathname.endsWith("/actions/workflows")) {
+      return json({
+        total_count: 4,
+        workflows: [
+          workflow(1, ".github/workflows/ci.yml"),
+          workflow(2, ".github/workflows/broken.yml", "disabled_manually"),
+          workflow(3, ".github/workflows/deleted.yml", "deleted"),
+          workflow(4, ".github/workflows/never-run.yml"),
+          workflow(5, "dynamic/github-code-scanning/codeql"),
+        ],
+      }, url.toString());
+    }
+    if (url.pathname.endsWith("/contents/.github%2Fworkflows")) {
+      return json(
+        Object.keys(files).map((path) => ({
+          type: "file",
+          name: path.split("/").at(-1),
+          path,
+        })),
+        url.toString(),
+      );
+    }
+    const { variables } = JSON.parse(String(init?.body));
+    const data: Record<string, unknown> = {};
+    for (let i = 0; `expression${i}` in variables; i++) {
+      const text = files[variables[`expression${i}`].replace(/^HEAD:/, "")];
+      data[`f${i}`] = {
+        url: "https://github.com/owner/repo",
+        object: text === undefined ? null : {
+          __typename: "Blob",
+          oid: `oid${i}`,
+          byteSize: text.length,
+          isTruncated: false,
+          text,
+        },
+      };
+    }
+    return json({ data }, url.toString());
+  };
+
+  it("Joins registered workflows with parsed files", async () => {
+    using _fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({
+      token: "token",
+      validateResponses: true,
+      _workaroundDenoTest: true,
+    });
+
+    const definitions = await github.fetchWorkflowDefinitions("owner", "repo");
+    assertEquals(
+      definitions.map((it) => [
+        it.path,
+        it.workflow?.state,
+        it.model?.name,
+        it.error !== undefined,
+      ]),
+      [
+        [
+          ".github/workflows/broken.yml",
+          "disabled_manually",
+          undefined,
+          true,
+        ],
+        [".github/workflows/ci.yml", "active", "CI", false],
+        [
+          ".github/workflows/deleted.yml",
+          "deleted",
+          undefined,
+          true,
+        ],
+        [".github/workflows/empty.yml", undefined, undefined, true],
+        [
+          ".github/workflows/never-run.yml",
+          "active",
+          ".github/workflows/never-run.yml",
+          false,
+        ],
+      ],
+    );
+    assertInstanceOf(definitions[2].error, NotFoundError);
+    assertEquals(
+      definitions[1].workflow?.badge_url,
+      "https://github.com/owner/repo/workflows/1/badge.svg",
+    );
+  });
+});
+
+describe("Github logger and tracing hooks", () => {
+  const params = {
+    owner: "owner",
+    repo: "repo",
+    path: ".github/workflows/ci.yml",
+  };
+  // "hello world" with ETag "v1", 304 when If-None-Match matches, 404 for other paths
+  const fakeFetch = (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    if (!decodeURIComponent(url.pathname).endsWith(params.path)) {
+      return Promise.resolve(
+        new Response(JSON.stringify({ message: "Not Found" }), {
+          status: 404,
+          headers: { "content-type": "application/json" },
+        }),
+      );
+    }
+    if (new Headers(init?.headers).get("if-none-match") === '"v1"') {
+      return Promise.resolve(new Response(null, { status: 304 }));
+    }
+    return Promise.resolve(
+      new Response(
+        JSON.stringify({
+          type: "file",
+          size: 11,
+          name: "ci.yml",
+          path: params.path,
+          content: "aGVsbG8gd29ybGQ=",
+          sha: "abc123",
+          url: url.toString(),
+          git_url: null,
+          html_url: null,
+          download_url: null,
+        }),
+        {
+          status: 200,
+          headers: { "content-type": "application/json", etag: '"v1"' },
+        },
+      ),
+    );
+  };
+
+  it("Calls onRequest/onResponse with status and cache hit", async () => {
+    using _fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const requests: RequestStartEvent[] = [];
+    const responses: RequestTraceEvent[] = [];
+    const github = new Github({
+      token: "token",
+      logger: silentLogger,
+      onRequest: (event) => requests.push(event),
+      onResponse: (event) => responses.push(event),
+      _workaroundDenoTest: true,
+    });
+    const sha = "0123456789abcdef0123456789abcdef01234567";
+
+    await github.fetchContent({ ...params, ref: "main" });
+    await github.fetchContent({ ...params, ref: "main" });
+    await github.fetchContent({ ...params, ref: sha });
+    await github.fetchContent({ ...params, ref: sha });
+
+    const route = "/repos/{owner}/{repo}/contents/{path}";
+    assertEquals(requests, Array(3).fill({ method: "GET", route }));
+    assertEquals(
+      responses.map(({ method, route, status, cacheHit }) => ({
+        method,
+        route,
+        status,
+        cacheHit,
+      })),
+      [
+        { method: "GET", route, status: 200, cacheHit: false },
+        { method: "GET", route, status: 304, cacheHit: true },
+        { method: "GET", route, status: 200, cacheHit: false },
+        { method: "GET", route, status: undefined, cacheHit: true },
+      ],
+    );
+    assertEquals(responses.every((event) => event.durationMs >= 0), true);
+  });
+
+  it("Writes warnings to the logger instead of the console", async () => {
+    using _fetchStub = stub(globalThis, "fetch", fakeFetch);
+    using warnStub = stub(console, "warn");
+    const messages: string[] = [];
+    const github = new Github({
+      token: "token",
+      logger: { ...silentLogger, warn: (message) => messages.push(message) },
+      _workaroundDenoTest: true,
+    });
+
+    await github.fetchContent({ ...params, path: "missing.yml", ref: "main" });
+    assertEquals(messages, ["fetchContent failed"]);
+    assertEquals(warnStub.calls.length, 0);
+  });
+});
+
+describe("Github strict", () => {
+  const params = {
+    owner: "owner",
+    repo: "repo",
+    path: ".github/workflows/ci.yml",
+    ref: "main",
+  };
+  const fakeFetch = (status: number, message: string) => () =>
+    Promise.resolve(
+      new Response(JSON.stringify({ message }), {
+        status,
+        headers: { "content-type": "application/json" },
+      }),
+    );
+
+  it("fetchContent returns undefined on failure by default", async () => {
+    using _fetchStub = stub(globalThis, "fetch", fakeFetch(404, "Not Found"));
+    using _warnStub = stub(console, "warn");
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    assertEquals(await github.fetchContent(params), undefined);
+  });
+
+  it("fetchContent throws NotFoundError with the target", async () => {
+    using _fetchStub = stub(globalThis, "fetch", fakeFetch(404, "Not Found"));
+    const github = new Github({
+      token: "token",
+      strict: true,
+      _workaroundDenoTest: true,
+    });
+
+    const error = await assertRejects(
+      () => github.fetchContent(params),
+      NotFoundError,
+    );
+    assertEquals(
+      [error.owner, error.repo, error.path, error.ref],
+      ["owner", "repo", ".github/workflows/ci.yml", "main"],
+    );
+  });
+
+  it("Other methods throw classified errors", async () => {
+    using _fetchStub = stub(
+      globalThis,
+      "fetch",
+      fakeFetch(403, "Resource not accessible by integration"),
+    );
+    const github = new Github({
+      token: "token",
+      strict: true,
+      _workaroundDenoTest: true,
+    });
+
+    await assertRejects(
+      () => github.fetchWorkflowRun("owner", "repo", 1),
+      ForbiddenError,
+      "Resource not accessible by integration (owner/repo)",
+    );
+  });
+});
+
+describe("Github.dispatchWorkflow", () => {
+  const workflowYaml = `name: Release
+on:
+  workflow_dispatch:
+    inputs:
+      version:
+        required: true
+jobs:
+  release:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo release
+`;
+  // Serves release.yml from contents API and accepts dispatches
+  const fakeFetch = (input: string | URL | Request, _init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    if (url.pathname.includes("/contents/")) {
+      const body = {
+        type: "file",
+        size: workflowYaml.length,
+        name: "release.yml",
+        path: ".github/workflows/release.yml",
+        content: btoa(workflowYaml),
+        sha: "abc123",
+        url: url.toString(),
+        git_url: null,
+        html_url: null,
+        download_url: null,
+      };
+      return Promise.resolve(
+        new Response(JSON.stringify(body), {
+          status: 200,
+          headers: { "content-type": "application/json" },
+        }),
+      );
+    }
+    return Promise.resolve(new Response(null, { status: 204 }));
+  };
+
+  it("Dispatches by file name with validated inputs", async () => {
+    using fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    await github.dispatchWorkflow({
+      owner: "owner",
+      repo: "repo",
+      workflow: "release.yml",
+      ref: "main",
+      inputs: { version: "1.2.0" },
+    });
+    assertEquals(fetchStub.calls.length, 2);
+    const [input, init] = fetchStub.calls[1].args;
+    assertEquals(
+      String(input),
+      "https://api.github.com/repos/owner/repo/actions/workflows/release.yml/dispatches",
+    );
+    assertEquals(JSON.parse(String(init?.body)), {
+      ref: "main",
+      inputs: { version: "1.2.0" },
+    });
+  });
+
+  it("Does not call the API with invalid inputs", async () => {
+    using fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    await assertRejects(
+      () =>
+        github.dispatchWorkflow({
+          owner: "owner",
+          repo: "repo",
+          workflow: ".github/workflows/release.yml",
+          ref: "main",
+        }),
+      WorkflowDispatchInputError,
+      'required input "version" is missing',
+    );
+    // Only the workflow file is fetched
+    assertEquals(fetchStub.calls.length, 1);
+  });
+});
+
 describe(FileContent.name, () => {
   const dummyResponse = {
     type: "file" as const,
@@ -104,6 +1053,15 @@ describe(FileContent.name, () => {
     });
     assertEquals(fc.content, "hello world");
   });
+
+  it("Normalizes a UTF-8 BOM and CRLF line endings", () => {
+    const bytes = new TextEncoder().encode("\uFEFFname: CI\r\non: push\r\n");
+    const fc = new FileContent({
+      ...dummyResponse,
+      content: encodeBase64(bytes),
+    });
+    assertEquals(fc.content, "name: CI\non: push\n");
+  });
 });
 
 describe(parseWorkflowRunUrl.name, () => {
@@ -148,4 +1106,111 @@ describe(parseWorkflowRunUrl.name, () => {
     };
     assertEquals(actual, expect);
   });
+
+  it("should throw on URL without run ID", () => {
+    const url = "https://github.com/Kesin11/actions-timeline/actions";
+    assertThrows(() => parseWorkflowRunUrl(url), GithubActionsUrlError);
+  });
+});
+
+describe(summarizeArtifactSizeByWorkflow.name, () => {
+  const artifact = (runId: number, size: number, expired = false) =>
+    ({
+      id: runId * 10,
+      name: "artifact",
+      size_in_bytes: size,
+      expired,
+      workflow_run: { id: runId },
+    }) as Artifact;
+  const run = (id: number, path: string) => fakeWorkflowRun({ id, path });
+
+  it("should sum sizes per workflow path", () => {
+    const actual = summarizeArtifactSizeByWorkflow(
+      [
+        artifact(1, 100),
+        artifact(2, 300),
+        artifact(3, 50),
+        artifact(3, 1000, true),
+        artifact(4, 10),
+      ],
+      [
+        run(1, ".github/workflows/ci.yml"),
+        run(2, ".github/workflows/release.yml"),
+        run(3, ".github/workflows/ci.yml"),
+      ],
+    );
+    assertEquals(actual, [
+      { path: ".github/workflows/release.yml", count: 1, sizeInBytes: 300 },
+      { path: ".github/workflows/ci.yml", count: 2, sizeInBytes: 150 },
+      { path: undefined, count: 1, sizeInBytes: 10 },
+    ]);
+  });
+});
+
+describe(decideRateLimitRetry.name, () => {
+  const hit = {
+    secondary: false,
+    retryAfter: 60,
+    retryCount: 0,
+    totalWaitSeconds: 0,
+  };
+
+  it("Retries 3 times by default", () => {
+    const retries = [0, 1, 2, 3].map((retryCount) =>
+      decideRateLimitRetry(undefined, { ...hit, retryCount }).retry
+    );
+    assertEquals(retries, [true, true, true, false]);
+    // Explicit undefined uses the default too
+    assertEquals(
+      decideRateLimitRetry({ maxRetries: undefined }, {
+        ...hit,
+        retryCount: 3,
+      }).retry,
+      false,
+    );
+  });
+
+  it("Stops at maxRetries", () => {
+    assertEquals(
+      decideRateLimitRetry({ maxRetries: 1 }, { ...hit, retryCount: 0 }),
+      { retry: true, totalWaitSeconds: 60 },
+    );
+    assertEquals(
+      decideRateLimitRetry({ maxRetries: 1 }, { ...hit, retryCount: 1 }),
+      { retry: false, totalWaitSeconds: 0 },
+    );
+  });
+
+  it("Accumulates waits up to maxTotalWaitSeconds", () => {
+    const policy = { maxTotalWaitSeconds: 150 };
+    let totalWaitSeconds = 0;
+    const retries = [0, 1, 2].map((retryCount) => {
+      const decision = decideRateLimitRetry(policy, {
+        ...hit,
+        retryCount,
+        totalWaitSeconds,
+      });
+      totalWaitSeconds = decision.totalWaitSeconds;
+      return decision.retry;
+    });
+    assertEquals(retries, [true, true, false]);
+    assertEquals(totalWaitSeconds, 120);
+  });
+
+  it("Retries secondary rate limits only with retryOnSecondaryRateLimit", () => {
+    const secondary = { ...hit, secondary: true };
+    assertEquals(decideRateLimitRetry(undefined, secondary).retry, false);
+    assertEquals(
+      decideRateLimitRetry({ retryOnSecondaryRateLimit: true }, secondary)
+        .retry,
+      true,
+    );
+    assertEquals(
+      decideRateLimitRetry(
+        { retryOnSecondaryRateLimit: true, maxTotalWaitSeconds: 30 },
+        secondary,
+      ),
+      { retry: false, totalWaitSeconds: 0 },
+    );
+  });
 });
@@ -1,8 +1,36 @@
-import { decodeBase64 } from "@std/encoding";
+import { decodeBase64, encodeBase64 } from "@std/encoding";
 import { chunk } from "@std/collections";
 import { Octokit } from "@octokit/rest";
 import { throttling, type ThrottlingOptions } from "@octokit/plugin-throttling";
 import { retry } from "@octokit/plugin-retry";
+import { GithubActionsUrlError, parseGithubActionsUrl } from "./actions_url.ts";
+import {
+  type ContentCacheStore,
+  MemoryContentCacheStore,
+} from "./content_cache.ts";
+import { GithubAppAuth, type GithubAppAuthOptions } from "./github_app_auth.ts";
+import {
+  createRecordingFetch,
+  createReplayFetch,
+  type HttpFixtureOptions,
+} from "./http_fixture.ts";
+import { RequestLedger } from "./request_ledger.ts";
+import {
+  type ResponseTypeName,
+  validateResponse,
+} from "./response_validation.ts";
+import {
+  type WorkflowDispatchInputValue,
+  WorkflowModel,
+} from "../workflow_model/src/workflow_file.ts";
+import { NotFoundError, toGithubApiError } from "./errors.ts";
+import {
+  createConsoleLogger,
+  type Logger,
+  type RequestStartEvent,
+  type RequestTraceEvent,
+} from "./logger.ts";
+import { extractZip } from "./zip.ts";
 
 /** GitHub file content response data */
 export type FileContentResponse = {
@@ -16,6 +44,22 @@ export type FileContentResponse = {
   git_url: string | null;
   html_url: string | null;
   download_url: string | null;
+  /** "base64", or "none" when the file is too large (1-100 MB) to include content */
+  encoding?: string;
+};
+
+/** Repository of a GraphQL blob query. `object` is null if the path does not exist at the ref */
+type GraphqlBlobRepository = {
+  url: string;
+  /** Blob fields are only set when `__typename` is "Blob" */
+  object: {
+    __typename: string;
+    oid: string;
+    byteSize: number;
+    isTruncated: boolean;
+    /** null for binary files */
+    text: string | null;
+  } | null;
 };
 
 /** GitHub non-file content response data */
@@ -57,58 +101,230 @@ export type GithubOctokit = {
   };
 };
 
-/** GitHub repository response data */
+/** GitHub user or organization data */
+export type GithubUser = {
+  login: string;
+  id: number;
+  node_id?: string;
+  avatar_url?: string;
+  html_url?: string;
+  /** "User", "Organization" or "Bot" */
+  type?: string;
+  site_admin?: boolean;
+};
+
+/**
+ * GitHub repository response data
+ *
+ * Repositories embedded in workflow runs are minimal and lack fields such as
+ * `default_branch` and `topics`.
+ */
 export type RepositoryResponse = {
+  id: number;
+  node_id: string;
   name: string;
-  owner: {
-    login: string;
-    [key: string]: unknown;
-  };
-  [key: string]: unknown;
+  full_name: string;
+  private: boolean;
+  owner: GithubUser;
+  html_url: string;
+  description: string | null;
+  fork: boolean;
+  url: string;
+  default_branch?: string;
+  archived?: boolean;
+  disabled?: boolean;
+  visibility?: string;
+  topics?: string[];
+  created_at?: string | null;
+  updated_at?: string | null;
+  pushed_at?: string | null;
+};
+
+/** Filters for listing repositories of an owner */
+export type RepositoryFilter = {
+  /** Include archived repositories (default: false) */
+  includeArchived?: boolean;
+  /** Include forked repositories (default: false) */
+  includeForks?: boolean;
+  /** Only include repositories that have all of these topics */
+  topics?: string[];
 };
 
 /** GitHub workflow job step data */
 export type WorkflowJobStep = {
   name: string;
   number: number;
+  /** "queued", "in_progress" or "completed" */
   status: string;
   conclusion: string | null;
-  started_at: string;
-  completed_at: string;
-  [key: string]: unknown;
+  /** Null while the step is queued */
+  started_at?: string | null;
+  completed_at?: string | null;
 };
 
 /** GitHub workflow job data */
 export type WorkflowJob = {
   id: number;
-  name: string;
+  run_id: number;
+  run_url: string;
+  /** Missing on older GHES versions */
+  run_attempt?: number;
+  node_id: string;
+  head_sha: string;
+  head_branch?: string | null;
+  url: string;
+  html_url: string | null;
+  /** "queued", "in_progress", "completed", "waiting", "requested" or "pending" */
   status: string;
   conclusion: string | null;
+  created_at?: string;
   started_at: string;
   completed_at: string | null;
-  created_at?: string;
+  name: string;
   steps?: WorkflowJobStep[];
-  [key: string]: unknown;
+  check_run_url: string;
+  /** Runner labels of `runs-on` */
+  labels: string[];
+  runner_id: number | null;
+  runner_name: string | null;
+  runner_group_id: number | null;
+  runner_group_name: string | null;
+  workflow_name?: string | null;
 };
 
 /** GitHub workflow jobs data */
 export type WorkflowJobs = WorkflowJob[];
 
+/** Pull request associated with a workflow run */
+export type WorkflowRunPullRequest = {
+  id: number;
+  number: number;
+  url: string;
+  head: {
+    ref: string;
+    sha: string;
+    repo: { id: number; url: string; name: string };
+  };
+  base: {
+    ref: string;
+    sha: string;
+    repo: { id: number; url: string; name: string };
+  };
+};
+
+/** Head commit of a workflow run */
+export type WorkflowRunHeadCommit = {
+  id: string;
+  tree_id: string;
+  message: string;
+  timestamp: string;
+  author: { name: string; email: string } | null;
+  committer: { name: string; email: string } | null;
+};
+
 /** GitHub workflow run data */
 export type WorkflowRun = {
-  event: string;
-  head_sha: string;
   id: number;
   name?: string | null;
+  node_id: string;
+  check_suite_id?: number;
+  head_branch: string | null;
+  head_sha: string;
   path: string;
-  repository: RepositoryResponse;
+  /** Missing on older GHES versions */
+  display_title?: string;
+  run_number: number;
   run_attempt?: number;
+  event: string;
+  status: WorkflowRunStatus | null;
+  conclusion: string | null;
+  workflow_id: number;
+  url: string;
+  html_url: string;
+  /** Pull requests whose head matches the run. Forks are not included */
+  pull_requests: WorkflowRunPullRequest[] | null;
+  created_at: string;
+  updated_at: string;
+  actor?: GithubUser;
+  triggering_actor?: GithubUser;
   run_started_at: string;
-  [key: string]: unknown;
+  jobs_url: string;
+  logs_url: string;
+  artifacts_url: string;
+  cancel_url: string;
+  rerun_url: string;
+  workflow_url: string;
+  head_commit: WorkflowRunHeadCommit | null;
+  repository: RepositoryResponse;
+  head_repository?: RepositoryResponse;
+};
+
+/** Status or conclusion filter accepted by the workflow runs API */
+export type WorkflowRunStatus =
+  | "completed"
+  | "action_required"
+  | "cancelled"
+  | "failure"
+  | "neutral"
+  | "skipped"
+  | "stale"
+  | "success"
+  | "timed_out"
+  | "in_progress"
+  | "queued"
+  | "requested"
+  | "waiting"
+  | "pending";
+
+/**
+ * Filters for listing workflow runs
+ *
+ * Mirrors the query parameters of the GitHub "List workflow runs" API.
+ * @see https://docs.github.com/en/rest/actions/workflow-runs#list-workflow-runs-for-a-repository
+ */
+export type WorkflowRunsFilter = {
+  /** Workflow ID or workflow file name (e.g. "ci.yml") to list runs of a single workflow */
+  workflow_id?: number | string;
+  /** Login of the user who triggered the run */
+  actor?: string;
+  /** Branch name */
+  branch?: string;
+  /** Event name that triggered the run (e.g. "push", "pull_request") */
+  event?: string;
+  /** Run status or conclusion */
+  status?: WorkflowRunStatus;
+  /** ISO 8601 date or range (e.g., "2023-01-01..2023-12-31", ">=2023-01-01") */
+  created?: string;
+  /** Omit pull_requests from the response to make it lighter */
+  exclude_pull_requests?: boolean;
+  /** Check suite ID */
+  check_suite_id?: number;
+  /** Commit SHA the run was triggered for */
+  head_sha?: string;
 };
 
-/** GitHub workflow run usage data */
+/** Operating system keys of billable usage */
+export type RunnerOs = "UBUNTU" | "MACOS" | "WINDOWS";
+
+/** Billable usage of a workflow run on a single operating system */
+export type WorkflowRunBillableUsage = {
+  /** Billable time in milliseconds, before OS multipliers */
+  total_ms: number;
+  /** Number of billable jobs */
+  jobs: number;
+  /** Billable time of each job */
+  job_runs?: Array<{ job_id: number; duration_ms: number }>;
+};
+
+/**
+ * GitHub workflow run usage data
+ * @see https://docs.github.com/en/rest/actions/workflow-runs#get-workflow-run-usage
+ */
 export type WorkflowRunUsage = {
+  /** Billable usage by OS. Self-hosted runners are not included */
+  billable: Partial<Record<RunnerOs, WorkflowRunBillableUsage>>;
+  /** Wall clock duration of the run */
+  run_duration_ms?: number;
   [key: string]: unknown;
 };
 
@@ -118,15 +334,133 @@ export type ActionsCacheUsage = {
   [key: string]: unknown;
 };
 
+/** GitHub Actions cache entry data */
+export type ActionsCache = {
+  id: number;
+  ref: string;
+  key: string;
+  version: string;
+  last_accessed_at: string;
+  created_at: string;
+  size_in_bytes: number;
+  [key: string]: unknown;
+};
+
 /** GitHub Actions cache list data */
 export type ActionsCacheList = {
-  actions_caches: Array<{
-    [key: string]: unknown;
-  }>;
+  actions_caches: ActionsCache[];
   total_count: number;
   [key: string]: unknown;
 };
 
+/**
+ * GitHub Actions workflow registered in a repository
+ * @see https://docs.github.com/en/rest/actions/workflows#list-repository-workflows
+ */
+export type RepositoryWorkflow = {
+  id: number;
+  node_id: string;
+  name: string;
+  /** Workflow file path, e.g. ".github/workflows/ci.yml" */
+  path: string;
+  state:
+    | "active"
+    | "deleted"
+    | "disabled_fork"
+    | "disabled_inactivity"
+    | "disabled_manually";
+  created_at: string;
+  updated_at: string;
+  url: string;
+  html_url: string;
+  badge_url: string;
+  [key: string]: unknown;
+};
+
+/** Workflow of a repository joined with its parsed file */
+export type WorkflowDefinition = {
+  /** Workflow file path */
+  path: string;
+  /** Metadata from the Actions workflows API, or undefined if the file is not registered (e.g. it only exists at a non-default ref) */
+  workflow?: RepositoryWorkflow;
+  /** Parsed workflow, or undefined if the file could not be fetched or parsed */
+  model?: WorkflowModel;
+  /** Error of fetching or parsing the file */
+  error?: unknown;
+};
+
+/** GitHub Actions artifact data */
+export type Artifact = {
+  id: number;
+  node_id: string;
+  name: string;
+  size_in_bytes: number;
+  url: string;
+  archive_download_url: string;
+  expired: boolean;
+  digest?: string | null;
+  created_at: string | null;
+  expires_at: string | null;
+  updated_at: string | null;
+  workflow_run?: {
+    id?: number;
+    repository_id?: number;
+    head_repository_id?: number;
+    head_branch?: string;
+    head_sha?: string;
+  } | null;
+};
+
+/** Artifact storage size aggregated per workflow */
+export type ArtifactSizeSummary = {
+  /** Workflow file path, or undefined for artifacts whose run is not given */
+  path: string | undefined;
+  /** Number of artifacts */
+  count: number;
+  /** Total size of artifacts in bytes */
+  sizeInBytes: number;
+};
+
+/**
+ * Aggregates artifact storage size per workflow
+ *
+ * Artifacts only know the ID of their workflow run, so the workflow runs that
+ * produced them are required to attribute the size to workflow files.
+ * Expired artifacts are excluded because they no longer use storage.
+ *
+ * @param artifacts - Array of artifacts
+ * @param workflowRuns - Workflow runs that produced the artifacts
+ * @returns Summaries sorted by size in descending order
+ *
+ * @example
+ * ```typescript
+ * const artifacts = await github.fetchArtifacts("owner", "repo");
+ * const runs = await github.fetchWorkflowRunsWithCreated("owner", "repo", ">=2024-01-01");
+ * const summaries = summarizeArtifactSizeByWorkflow(artifacts, runs);
+ * console.log(summaries[0].path, summaries[0].sizeInBytes);
+ * ```
+ */
+export function summarizeArtifactSizeByWorkflow(
+  artifacts: Artifact[],
+  workflowRuns: WorkflowRun[],
+): ArtifactSizeSummary[] {
+  const runPaths = new Map(workflowRuns.map((run) => [run.id, run.path]));
+  const summaries = new Map<string | undefined, ArtifactSizeSummary>();
+  for (const artifact of artifacts) {
+    if (artifact.expired) continue;
+
+    const runId = artifact.workflow_run?.id;
+    const path = runId !== undefined ? runPaths.get(runId) : undefined;
+    const summary = summaries.get(path) ?? { path, count: 0, sizeInBytes: 0 };
+    summary.count++;
+    summary.sizeInBytes += artifact.size_in_bytes;
+    summaries.set(path, summary);
+  }
+  return [...summaries.values()].toSorted((a, b) =>
+    b.sizeInBytes - a.sizeInBytes
+  );
+}
+
 /**
  * Wrapper class for GitHub file content with decoded text
  *
@@ -139,7 +473,7 @@ export type ActionsCacheList = {
 export class FileContent {
   /** Raw file content response from GitHub API */
   raw: FileContentResponse;
-  /** Decoded text content */
+  /** Decoded text content with LF line endings and without BOM */
   content: string;
 
   /**
@@ -151,7 +485,10 @@ export class FileContent {
     const textDecoder = new TextDecoder();
     // GitHub API returns base64 with newlines (RFC 2045), strip them before decoding
     const base64 = getContentResponse.content.replace(/[\r\n]/g, "");
-    this.content = textDecoder.decode(decodeBase64(base64));
+    // Normalize a BOM and CRLF line endings so that line numbers of the YAML AST stay correct
+    this.content = textDecoder.decode(decodeBase64(base64))
+      .replace(/^\uFEFF/, "")
+      .replace(/\r\n?/g, "\n");
   }
 }
 
@@ -167,8 +504,12 @@ export type WorkflowRunUrl = {
 /**
  * Parses a GitHub workflow run URL to extract components
  *
+ * Run, run attempt and job URLs are accepted. Use `parseGithubActionsUrl`
+ * to parse other GitHub Actions URLs.
+ *
  * @param runUrl - GitHub workflow run URL
  * @returns Parsed URL components
+ * @throws {GithubActionsUrlError} If the URL is not a run, run attempt or job URL
  *
  * @example
  * ```typescript
@@ -180,21 +521,82 @@ export type WorkflowRunUrl = {
  * ```
  */
 export function parseWorkflowRunUrl(runUrl: string): WorkflowRunUrl {
-  const url = new URL(runUrl);
-  const path = url.pathname.split("/");
-  const owner = path[1];
-  const repo = path[2];
-  const runId = Number(path[5]);
-  const runAttempt = path[6] === "attempts" ? Number(path[7]) : undefined;
+  const parsed = parseGithubActionsUrl(runUrl);
+  if (parsed.type !== "run" && parsed.type !== "job") {
+    throw new GithubActionsUrlError(
+      runUrl,
+      `expected a workflow run URL, got a ${parsed.type} URL`,
+    );
+  }
   return {
-    origin: url.origin,
-    owner,
-    repo,
-    runId,
-    runAttempt,
+    origin: parsed.origin,
+    owner: parsed.owner,
+    repo: parsed.repo,
+    runId: parsed.runId,
+    runAttempt: parsed.type === "run" ? parsed.runAttempt : undefined,
   };
 }
 
+/** Retry policy when hitting GitHub rate limits */
+export type RateLimitPolicy = {
+  /** Maximum retries of a single request (default: 3) */
+  maxRetries?: number;
+  /** Maximum seconds to wait for rate limits over the lifetime of the client (default: unlimited) */
+  maxTotalWaitSeconds?: number;
+  /** Retry after secondary (abuse) rate limits too, instead of failing immediately (default: false) */
+  retryOnSecondaryRateLimit?: boolean;
+};
+
+/** Rate limit hit by a request */
+export type RateLimitHit = {
+  /** Whether it is a secondary (abuse) rate limit */
+  secondary: boolean;
+  /** Seconds to wait before retrying */
+  retryAfter: number;
+  /** Retries of the request so far */
+  retryCount: number;
+  /** Seconds already waited for rate limits by the client */
+  totalWaitSeconds: number;
+};
+
+/**
+ * Decides whether to retry a request that hit a rate limit
+ *
+ * Unset (or undefined) fields of the policy use their defaults.
+ *
+ * @param policy - Retry policy
+ * @param hit - Rate limit hit
+ * @returns Whether to retry, and the seconds waited by the client including this retry
+ *
+ * @example
+ * ```typescript
+ * const decision = decideRateLimitRetry({ maxTotalWaitSeconds: 600 }, {
+ *   secondary: false,
+ *   retryAfter: 60,
+ *   retryCount: 0,
+ *   totalWaitSeconds: 0,
+ * });
+ * console.log(decision); // { retry: true, totalWaitSeconds: 60 }
+ * ```
+ */
+export function decideRateLimitRetry(
+  policy: RateLimitPolicy | undefined,
+  hit: RateLimitHit,
+): { retry: boolean; totalWaitSeconds: number } {
+  const maxRetries = policy?.maxRetries ?? 3;
+  const maxTotalWaitSeconds = policy?.maxTotalWaitSeconds ?? Infinity;
+  const retryOnSecondaryRateLimit = policy?.retryOnSecondaryRateLimit ?? false;
+  const totalWaitSeconds = hit.totalWaitSeconds + hit.retryAfter;
+  if (
+    (hit.secondary && !retryOnSecondaryRateLimit) ||
+    hit.retryCount >= maxRetries ||
+    totalWaitSeconds > maxTotalWaitSeconds
+  ) {
+    return { retry: false, totalWaitSeconds: hit.totalWaitSeconds };
+  }
+  return { retry: true, totalWaitSeconds };
+}
+
 /**
  * GitHub API client with rate limiting, caching, and retry functionality
  *
@@ -206,11 +608,19 @@ export function parseWorkflowRunUrl(runUrl: string): WorkflowRunUrl {
  * // Or initialize with explicit token
  * const github = new Github({ token: "ghp_xxxx" });
  *
+ * // Or authenticate as a GitHub App installation
+ * const github = new Github({
+ *   app: { appId: 12345, privateKey, owner: "owner", repo: "repo" },
+ * });
+ *
  * // Fetch workflow runs
  * const runs = await github.fetchWorkflowRuns("owner", "repo");
  * ```
  */
 export class Github {
+  /** Octokit route of fetchContent */
+  private static readonly CONTENT_ROUTE =
+    "/repos/{owner}/{repo}/contents/{path}";
   /** Octokit instance for GitHub API calls */
   private readonly octokitClient: Octokit;
   /** GitHub token for authentication */
@@ -219,8 +629,22 @@ export class Github {
   baseUrl: string;
   /** Whether this is GitHub Enterprise Server */
   isGHES: boolean;
-  /** Cache for file content responses */
-  contentCache: Map<string, FileContent> = new Map();
+  /** Cache store for file content responses */
+  contentCache: ContentCacheStore;
+  /** Requests, cache hits and rate limit consumption per route */
+  readonly ledger: RequestLedger = new RequestLedger();
+  /** Whether responses are validated against their types at runtime */
+  private readonly validateResponses: boolean;
+  /** Whether failures are thrown as GithubApiError instead of logged */
+  private readonly strict: boolean;
+  /** Logger for warnings and debug messages */
+  readonly logger: Logger;
+  /** Hook called before each request */
+  private readonly onRequest?: (event: RequestStartEvent) => void;
+  /** Hook called after each request and each content cache hit */
+  private readonly onResponse?: (event: RequestTraceEvent) => void;
+  /** Set when a GraphQL query failed as a whole, so fetchContents uses REST only */
+  private graphqlUnavailable = false;
 
   /**
    * Public Octokit-compatible subset for advanced consumers.
@@ -237,52 +661,216 @@ export class Github {
    *
    * @param options - Configuration options
    * @param options.token - GitHub token (defaults to GITHUB_TOKEN env var)
+   * @param options.app - Authenticate as a GitHub App installation instead of a token
    * @param options.host - GitHub host for GHES (defaults to github.com)
-   * @param options.debug - Enable debug logging
+   * @param options.debug - Enable debug logging of the default console logger
+   * @param options.logger - Logger for all messages, including Octokit's (defaults to console for "warn" and above)
+   * @param options.onRequest - Hook called before each request
+   * @param options.onResponse - Hook called with status, duration and cache hit after each request and each content cache hit
+   * @param options.contentCacheStore - Cache store for fetchContent (defaults to in-memory store)
+   * @param options.fetch - Custom fetch for all requests, e.g. `FakeGithubServer.fetch`
+   * @param options.httpFixture - Record responses to, or replay responses from, a fixture file
+   * @param options.rateLimit - Retry policy when hitting rate limits
+   * @param options.validateResponses - Validate runs, jobs, repositories and caches at runtime, throwing ResponseValidationError on unexpected shapes
+   * @param options.strict - Throw GithubApiError subclasses (NotFoundError, ForbiddenError, ...) for every failed request, and from fetchContent instead of returning undefined
    * @param options._workaroundDenoTest - Internal workaround for Deno tests
    */
   constructor(
     options?: {
       token?: string;
+      app?: GithubAppAuthOptions;
       host?: string;
       debug?: boolean;
+      logger?: Logger;
+      onRequest?: (event: RequestStartEvent) => void;
+      onResponse?: (event: RequestTraceEvent) => void;
+      contentCacheStore?: ContentCacheStore;
+      fetch?: typeof fetch;
+      httpFixture?: HttpFixtureOptions;
+      rateLimit?: RateLimitPolicy;
+      validateResponses?: boolean;
+      strict?: boolean;
       _workaroundDenoTest?: boolean;
     },
   ) {
+    this.validateResponses = options?.validateResponses ?? false;
+    this.strict = options?.strict ?? false;
+    this.logger = options?.logger ??
+      createConsoleLogger({ level: options?.debug ? "debug" : "warn" });
+    this.onRequest = options?.onRequest;
+    this.onResponse = options?.onResponse;
+    this.contentCache = options?.contentCacheStore ??
+      new MemoryContentCacheStore();
     this.baseUrl = Github.getBaseUrl(options?.host);
     this.isGHES = this.baseUrl !== "https://api.github.com";
-    this.token = options?.token ?? Deno.env.get("GITHUB_TOKEN") ?? undefined;
-    const MyOctokit = (options?._workaroundDenoTest)
+    this.token = options?.app
+      ? undefined
+      : options?.token ?? Deno.env.get("GITHUB_TOKEN") ?? undefined;
+    const isReplay = options?.httpFixture?.mode === "replay";
+    const MyOctokit = (options?._workaroundDenoTest || isReplay)
       // Adding throttling causes "Leaks" error when running `deno test`
       // error: Leaks detected:
       // - An interval was started in this test, but never completed. This is often caused by not calling `clearInterval`.
       // It is unclear whether this is a false positive, but since throttling is not used in tests, a workaround is introduced to avoid adding the plugin.
+      // Replayed responses never hit rate limits, so throttling is not needed either.
       ? Octokit.plugin(retry)
       : Octokit.plugin(throttling, retry);
+    // Seconds waited for rate limits over the lifetime of this client
+    let totalWaitSeconds = 0;
+    const shouldRetry = (
+      secondary: boolean,
+      retryAfter: number,
+      retryCount: number,
+    ): boolean => {
+      const decision = decideRateLimitRetry(options?.rateLimit, {
+        secondary,
+        retryAfter,
+        retryCount,
+        totalWaitSeconds,
+      });
+      totalWaitSeconds = decision.totalWaitSeconds;
+      return decision.retry;
+    };
     const throttleOptions: ThrottlingOptions = {
       onRateLimit: (retryAfter, options, _octokit, retryCount) => {
-        this.octokitClient.log.warn(
-          `Request quota exhausted for request ${options.method} ${options.url}`,
-        );
-        // Retry twice after hitting a rate limit error, then give up
-        if (retryCount <= 2) {
-          console.warn(`Retrying after ${retryAfter} seconds!`);
+        const fields = {
+          method: options.method,
+          route: options.url,
+          retryAfter,
+          retryCount,
+        };
+        this.logger.warn("Request quota exhausted", fields);
+        if (shouldRetry(false, retryAfter, retryCount)) {
+          this.logger.warn(`Retrying after ${retryAfter} seconds!`, fields);
           return true;
         }
       },
-      onSecondaryRateLimit: (_retryAfter, options, _octokit, _retryCount) => {
-        // does not retry, only logs a warning
-        console.warn(
-          `Abuse detected for request ${options.method} ${options.url}`,
-        );
+      onSecondaryRateLimit: (retryAfter, options, _octokit, retryCount) => {
+        const fields = {
+          method: options.method,
+          route: options.url,
+          retryAfter,
+          retryCount,
+        };
+        this.logger.warn("Secondary rate limit detected", fields);
+        if (shouldRetry(true, retryAfter, retryCount)) {
+          this.logger.warn(`Retrying after ${retryAfter} seconds!`, fields);
+          return true;
+        }
       },
     };
     this.octokitClient = new MyOctokit({
       auth: this.token,
       baseUrl: this.baseUrl,
-      log: options?.debug ? console : undefined,
+      // Octokit logs with extra arguments, which are passed as fields
+      log: {
+        debug: (message, ...details) =>
+          this.logger.debug(message, details.length ? { details } : undefined),
+        info: (message, ...details) =>
+          this.logger.info(message, details.length ? { details } : undefined),
+        warn: (message, ...details) =>
+          this.logger.warn(message, details.length ? { details } : undefined),
+        error: (message, ...details) =>
+          this.logger.error(message, details.length ? { details } : undefined),
+      },
       throttle: throttleOptions,
+      // Replayed responses are deterministic, so retrying never helps
+      retry: { enabled: !isReplay },
+      request: { fetch: Github.createFetch(options) },
     });
+
+    // Wraps retries too, so each call is recorded once with its final response
+    // and only the final error is classified
+    this.octokitClient.hook.wrap("request", async (request, requestOptions) => {
+      const { method, url } = requestOptions;
+      const route = `${method} ${url}`;
+      const startedAt = performance.now();
+      this.onRequest?.({ method, route: url });
+      try {
+        const res = await request(requestOptions);
+        this.ledger.recordRequest(route, res);
+        this.traceResponse({
+          method,
+          route: url,
+          status: res.status,
+          durationMs: performance.now() - startedAt,
+          cacheHit: false,
+        });
+        return res;
+      } catch (error) {
+        const status = (error as { status?: number }).status;
+        // 304 Not Modified is only requested by fetchContent to revalidate its cache
+        this.traceResponse({
+          method,
+          route: url,
+          status,
+          durationMs: performance.now() - startedAt,
+          cacheHit: status === 304,
+          error: status === 304 ? undefined : error,
+        });
+        this.ledger.recordRequest(
+          route,
+          {
+            status,
+            headers:
+              (error as { response?: { headers?: Record<string, string> } })
+                .response?.headers,
+          },
+        );
+        // 304 Not Modified is not a failure
+        if (!this.strict || status === 304) throw error;
+        const params = requestOptions as Record<string, unknown>;
+        throw toGithubApiError(error, {
+          owner: params.owner as string | undefined,
+          repo: params.repo as string | undefined,
+          path: params.path as string | undefined,
+          ref: params.ref as string | undefined,
+        });
+      }
+    });
+
+    if (options?.app) {
+      const appAuth = new GithubAppAuth(
+        options.app,
+        (route, params) => this.octokitClient.request(route, params),
+      );
+      // Requests that already have authorization (e.g. JWT for App APIs) are sent as-is
+      this.octokitClient.hook.before("request", async (requestOptions) => {
+        if (requestOptions.headers.authorization) return;
+        requestOptions.headers.authorization = `token ${await appAuth
+          .getInstallationToken()}`;
+      });
+    }
+  }
+
+  /**
+   * Logs a completed request and passes it to the `onResponse` hook
+   * @param event - Completed request
+   */
+  private traceResponse(event: RequestTraceEvent): void {
+    const { error: _, ...fields } = event;
+    this.logger.debug("GitHub API request", fields);
+    this.onResponse?.(event);
+  }
+
+  /**
+   * Creates the fetch used by Octokit from the constructor options
+   * @param options - Constructor options
+   * @param options.fetch - Custom fetch
+   * @param options.httpFixture - Record or replay options
+   * @returns Fetch, or undefined to use Octokit's default
+   */
+  private static createFetch(
+    options?: { fetch?: typeof fetch; httpFixture?: HttpFixtureOptions },
+  ): typeof fetch | undefined {
+    switch (options?.httpFixture?.mode) {
+      case "record":
+        return createRecordingFetch(options.httpFixture.path, options.fetch);
+      case "replay":
+        return createReplayFetch(options.httpFixture.path);
+      default:
+        return options?.fetch;
+    }
   }
 
   /**
@@ -323,13 +911,60 @@ export class Github {
       owner,
       repo,
     });
-    return res.data as RepositoryResponse;
+    return this.validate<RepositoryResponse>("RepositoryResponse", res.data);
+  }
+
+  /**
+   * Fetches all repositories of an organization or a user
+   *
+   * Tries the organization API first and falls back to the user API
+   * when the owner is not an organization.
+   *
+   * @param owner - Organization or user login
+   * @param filter - Repository filters
+   * @returns Array of repository data
+   *
+   * @example
+   * ```typescript
+   * const repos = await github.fetchRepositories("owner", { topics: ["backend"] });
+   * ```
+   */
+  async fetchRepositories(
+    owner: string,
+    filter?: RepositoryFilter,
+  ): Promise<RepositoryResponse[]> {
+    const repositories = await this.octokitClient.paginate(
+      this.octokitClient.repos.listForOrg,
+      { org: owner, per_page: 100 }, // MAX per_page num
+    ).catch((error) => {
+      // owner is not an organization
+      if ((error as { status?: number }).status !== 404) throw error;
+      return this.octokitClient.paginate(
+        this.octokitClient.repos.listForUser,
+        { username: owner, per_page: 100 }, // MAX per_page num
+      );
+    });
+
+    return repositories.map((repository, index) =>
+      this.validate<RepositoryResponse>(
+        "RepositoryResponse",
+        repository,
+        `[${index}]`,
+      )
+    ).filter((repository) => {
+      if (!filter?.includeArchived && repository.archived) return false;
+      if (!filter?.includeForks && repository.fork) return false;
+      return (filter?.topics ?? []).every((topic) =>
+        repository.topics?.includes(topic)
+      );
+    });
   }
 
   /**
    * Fetches workflow run usage data for multiple workflow runs
    *
    * Note: This API is not supported on GitHub Enterprise Server.
+   * `ActionsCostCalculator` can estimate usage from job timings instead.
    *
    * Uses chunking to limit concurrent requests and reduce API usage
    *
@@ -372,39 +1007,34 @@ export class Github {
   /**
    * Fetches workflow jobs for multiple workflow runs
    *
-   * Note: This function might have bugs. See: https://github.com/Kesin11/actions-timeline/issues/186
    * Uses chunking to limit concurrent requests
    *
    * @param workflowRuns - Array of workflow runs
    * @param chunkSize - Number of concurrent requests (default: 20)
-   * @returns Array of workflow jobs
+   * @param options - Fetch options
+   * @param options.allAttempts - Fetch jobs of every attempt (1..run_attempt) instead of only the latest one
+   * @returns Array of workflow jobs tagged with `run_attempt`
    *
    * @example
    * ```typescript
    * const runs = await github.fetchWorkflowRuns("owner", "repo");
    * const jobs = await github.fetchWorkflowJobs(runs);
+   * const allJobs = await github.fetchWorkflowJobs(runs, 20, { allAttempts: true });
    * ```
    */
   async fetchWorkflowJobs(
     workflowRuns: WorkflowRun[],
     chunkSize = 20,
+    options?: { allAttempts?: boolean },
   ): Promise<WorkflowJobs> {
     const workflowJobs: WorkflowJobs = [];
     const workflowJobsChunks = chunk(workflowRuns, chunkSize);
 
     for (const chunk of workflowJobsChunks) {
       const promises = chunk.map((run) => {
-        return this.octokitClient.actions.listJobsForWorkflowRunAttempt({
-          owner: run.repository.owner.login,
-          repo: run.repository.name,
-          run_id: run.id,
-          attempt_number: run.run_attempt ?? 1,
-          per_page: 100, // MAX per_page num
-        });
+        return this.fetchWorkflowRunJobs(run, options);
       });
-      const chunkResults = (await Promise.all(promises)).map((res) =>
-        res.data.jobs as WorkflowJobs
-      );
+      const chunkResults = await Promise.all(promises);
       workflowJobs.push(...chunkResults.flat());
     }
     return workflowJobs;
@@ -414,31 +1044,63 @@ export class Github {
    * Fetches workflow jobs for a single workflow run
    *
    * @param workflowRun - Workflow run
-   * @returns Array of workflow jobs
+   * @param options - Fetch options
+   * @param options.allAttempts - Fetch jobs of every attempt (1..run_attempt) instead of only the latest one
+   * @returns Array of workflow jobs tagged with `run_attempt`
    *
    * @example
    * ```typescript
    * const run = await github.fetchWorkflowRun("owner", "repo", 12345);
    * const jobs = await github.fetchWorkflowRunJobs(run);
+   * const allJobs = await github.fetchWorkflowRunJobs(run, { allAttempts: true });
    * ```
    */
   async fetchWorkflowRunJobs(
     workflowRun: WorkflowRun,
+    options?: { allAttempts?: boolean },
+  ): Promise<WorkflowJobs> {
+    const latestAttempt = workflowRun.run_attempt ?? 1;
+    const attempts = options?.allAttempts
+      ? Array.from({ length: latestAttempt }, (_, i) => i + 1)
+      : [latestAttempt];
+
+    const results = await Promise.all(attempts.map((attempt) => {
+      return this.fetchWorkflowRunAttemptJobs(workflowRun, attempt);
+    }));
+    return results.flat();
+  }
+
+  /**
+   * Fetches all pages of workflow jobs for a single attempt of a workflow run
+   * @param workflowRun - Workflow run
+   * @param attempt - Run attempt number
+   * @returns Array of workflow jobs tagged with `run_attempt`
+   */
+  private async fetchWorkflowRunAttemptJobs(
+    workflowRun: WorkflowRun,
+    attempt: number,
   ): Promise<WorkflowJobs> {
-    const workflowJobs = await this.octokitClient.actions
-      .listJobsForWorkflowRunAttempt({
+    const jobs = await this.octokitClient.paginate(
+      this.octokitClient.actions.listJobsForWorkflowRunAttempt,
+      {
         owner: workflowRun.repository.owner.login,
         repo: workflowRun.repository.name,
         run_id: workflowRun.id,
-        attempt_number: workflowRun.run_attempt ?? 1,
+        attempt_number: attempt,
         per_page: 100, // MAX per_page num
-      });
-    return workflowJobs.data.jobs as WorkflowJobs;
+      },
+    );
+    return jobs.map((job, index) => ({
+      ...this.validate<WorkflowJob>("WorkflowJob", job, `[${index}]`),
+      run_attempt: job.run_attempt ?? attempt,
+    }));
   }
 
   /**
    * Fetches workflow runs for a repository
    *
+   * Note: Returns only the latest 100 runs. Use `iterateWorkflowRuns` to scan all runs.
+   *
    * @param owner - Repository owner
    * @param repo - Repository name
    * @param branch - Optional branch filter
@@ -464,9 +1126,9 @@ export class Github {
       },
     );
     // Ignore some special workflowRuns that have not workflow file. ex: CodeQL
-    return res.data.workflow_runs.filter((run) =>
-      run.event !== "dynamic"
-    ) as WorkflowRun[];
+    return res.data.workflow_runs.map((run, index) =>
+      this.validate<WorkflowRun>("WorkflowRun", run, `[${index}]`)
+    ).filter((run) => run.event !== "dynamic");
   }
 
   /**
@@ -497,14 +1159,14 @@ export class Github {
         run_id: runId,
         attempt_number: runAttempt,
       });
-      return res.data as WorkflowRun;
+      return this.validate<WorkflowRun>("WorkflowRun", res.data);
     } else {
       const res = await this.octokitClient.actions.getWorkflowRun({
         owner,
         repo,
         run_id: runId,
       });
-      return res.data as WorkflowRun;
+      return this.validate<WorkflowRun>("WorkflowRun", res.data);
     }
   }
 
@@ -541,9 +1203,71 @@ export class Github {
       },
     );
     // Ignore some special workflowRuns that have not workflow file. ex: CodeQL
-    return workflowRuns.filter((run) =>
-      run.event !== "dynamic"
-    ) as WorkflowRun[];
+    return workflowRuns.map((run, index) =>
+      this.validate<WorkflowRun>("WorkflowRun", run, `[${index}]`)
+    ).filter((run) => run.event !== "dynamic");
+  }
+
+  /**
+   * Iterates workflow runs for a repository with lazy pagination
+   *
+   * Pages are requested only when the previous page has been consumed, so
+   * long histories can be scanned without loading every run into memory.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param options - Filters for the workflow runs API
+   * @param options.maxCount - Stop after yielding this number of runs
+   * @returns Async iterator of workflow runs (excludes dynamic runs like CodeQL)
+   *
+   * @example
+   * ```typescript
+   * for await (
+   *   const run of github.iterateWorkflowRuns("owner", "repo", {
+   *     workflow_id: "ci.yml",
+   *     status: "failure",
+   *     created: "2023-01-01..2023-06-30",
+   *     maxCount: 500,
+   *   })
+   * ) {
+   *   console.log(run.id);
+   * }
+   * ```
+   */
+  async *iterateWorkflowRuns(
+    owner: string,
+    repo: string,
+    options?: WorkflowRunsFilter & { maxCount?: number },
+  ): AsyncGenerator<WorkflowRun> {
+    const { workflow_id, maxCount, ...filter } = options ?? {};
+    if (maxCount !== undefined && maxCount <= 0) return;
+
+    const params = {
+      owner,
+      repo,
+      ...filter,
+      per_page: Math.min(maxCount ?? 100, 100), // MAX per_page num
+    };
+    const iterator = workflow_id === undefined
+      ? this.octokitClient.paginate.iterator(
+        this.octokitClient.actions.listWorkflowRunsForRepo,
+        params,
+      )
+      : this.octokitClient.paginate.iterator(
+        this.octokitClient.actions.listWorkflowRuns,
+        { ...params, workflow_id },
+      );
+
+    let count = 0;
+    for await (const res of iterator) {
+      for (const run of res.data) {
+        // Ignore some special workflowRuns that have not workflow file. ex: CodeQL
+        if (run.event === "dynamic") continue;
+        yield this.validate<WorkflowRun>("WorkflowRun", run, `[${count}]`);
+        count++;
+        if (maxCount !== undefined && count >= maxCount) return;
+      }
+    }
   }
 
   /**
@@ -595,7 +1319,236 @@ export class Github {
       sort: "size_in_bytes",
       per_page: perPage,
     });
-    return res.data as ActionsCacheList;
+    return this.validate<ActionsCacheList>("ActionsCacheList", res.data);
+  }
+
+  /**
+   * Fetches all artifacts of a repository or a single workflow run
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param options - Filters for artifacts
+   * @param options.runId - Fetch only artifacts of this workflow run
+   * @param options.name - Fetch only artifacts with this exact name
+   * @returns Array of artifacts
+   *
+   * @example
+   * ```typescript
+   * const artifacts = await github.fetchArtifacts("owner", "repo");
+   * const runArtifacts = await github.fetchArtifacts("owner", "repo", { runId: 12345 });
+   * ```
+   */
+  async fetchArtifacts(
+    owner: string,
+    repo: string,
+    options?: { runId?: number; name?: string },
+  ): Promise<Artifact[]> {
+    const artifacts = options?.runId === undefined
+      ? await this.octokitClient.paginate(
+        this.octokitClient.actions.listArtifactsForRepo,
+        {
+          owner,
+          repo,
+          name: options?.name,
+          per_page: 100, // MAX per_page num
+        },
+      )
+      : await this.octokitClient.paginate(
+        this.octokitClient.actions.listWorkflowRunArtifacts,
+        {
+          owner,
+          repo,
+          run_id: options.runId,
+          name: options.name,
+          per_page: 100, // MAX per_page num
+        },
+      );
+    return artifacts as Artifact[];
+  }
+
+  /**
+   * Downloads an artifact and extracts its zip archive into a directory
+   *
+   * Requires `--allow-write` for the directory.
+   *
+   * @param params - Parameters for downloading the artifact
+   * @param params.owner - Repository owner
+   * @param params.repo - Repository name
+   * @param params.artifactId - Artifact ID
+   * @param params.dir - Destination directory. Created if it does not exist
+   * @returns Paths of the extracted files
+   *
+   * @example
+   * ```typescript
+   * const [artifact] = await github.fetchArtifacts("owner", "repo", { runId: 12345 });
+   * const files = await github.downloadArtifact({
+   *   owner: "owner",
+   *   repo: "repo",
+   *   artifactId: artifact.id,
+   *   dir: "./artifacts",
+   * });
+   * ```
+   */
+  async downloadArtifact(params: {
+    owner: string;
+    repo: string;
+    artifactId: number;
+    dir: string;
+  }): Promise<string[]> {
+    const res = await this.octokitClient.actions.downloadArtifact({
+      owner: params.owner,
+      repo: params.repo,
+      artifact_id: params.artifactId,
+      archive_format: "zip",
+    });
+    return await extractZip(res.data as ArrayBuffer, params.dir);
+  }
+
+  /**
+   * Triggers a workflow with the `workflow_dispatch` event
+   *
+   * Inputs are validated against `on.workflow_dispatch.inputs` of the workflow
+   * before calling the API. When a workflow file path or name is given, the
+   * definition is fetched at `ref` to validate against.
+   *
+   * @param params - Parameters for dispatching the workflow
+   * @param params.owner - Repository owner
+   * @param params.repo - Repository name
+   * @param params.workflow - Workflow model, workflow file path, or file name (e.g. "release.yml")
+   * @param params.ref - Branch or tag to run the workflow on
+   * @param params.inputs - Inputs of the workflow
+   * @throws {WorkflowDispatchInputError} If the inputs do not match the workflow definition
+   *
+   * @example
+   * ```typescript
+   * await github.dispatchWorkflow({
+   *   owner: "owner",
+   *   repo: "repo",
+   *   workflow: "release.yml",
+   *   ref: "main",
+   *   inputs: { version: "1.2.0", dry_run: false },
+   * });
+   * ```
+   */
+  async dispatchWorkflow(params: {
+    owner: string;
+    repo: string;
+    workflow: WorkflowModel | string;
+    ref: string;
+    inputs?: Record<string, WorkflowDispatchInputValue | undefined>;
+  }): Promise<void> {
+    let workflow = params.workflow;
+    if (typeof workflow === "string") {
+      const path = workflow.includes("/")
+        ? workflow
+        : `.github/workflows/${workflow}`;
+      const fileContent = await this.fetchContent({
+        owner: params.owner,
+        repo: params.repo,
+        path,
+        ref: params.ref,
+      });
+      if (fileContent === undefined) {
+        throw new Error(
+          `Workflow file not found: ref: ${params.ref}, path: ${params.owner}/${params.repo}/${path}`,
+        );
+      }
+      workflow = new WorkflowModel(fileContent);
+    }
+
+    const inputs = workflow.validateDispatchInputs(params.inputs ?? {});
+    await this.octokitClient.actions.createWorkflowDispatch({
+      owner: params.owner,
+      repo: params.repo,
+      // The API accepts the workflow file name as the workflow ID
+      workflow_id: workflow.fileContent.raw.path.split("/").pop()!,
+      ref: params.ref,
+      inputs,
+    });
+  }
+
+  /**
+   * Re-runs all jobs of a workflow run
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param runId - Workflow run ID
+   * @param options - Re-run options
+   * @param options.enableDebugLogging - Enable step debug logging for the re-run
+   *
+   * @example
+   * ```typescript
+   * await github.rerunWorkflowRun("owner", "repo", 12345);
+   * ```
+   */
+  async rerunWorkflowRun(
+    owner: string,
+    repo: string,
+    runId: number,
+    options?: { enableDebugLogging?: boolean },
+  ): Promise<void> {
+    await this.octokitClient.actions.reRunWorkflow({
+      owner,
+      repo,
+      run_id: runId,
+      enable_debug_logging: options?.enableDebugLogging,
+    });
+  }
+
+  /**
+   * Re-runs failed jobs of a workflow run, and the jobs depending on them
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param runId - Workflow run ID
+   * @param options - Re-run options
+   * @param options.enableDebugLogging - Enable step debug logging for the re-run
+   *
+   * @example
+   * ```typescript
+   * await github.rerunFailedJobs("owner", "repo", 12345);
+   * ```
+   */
+  async rerunFailedJobs(
+    owner: string,
+    repo: string,
+    runId: number,
+    options?: { enableDebugLogging?: boolean },
+  ): Promise<void> {
+    await this.octokitClient.actions.reRunWorkflowFailedJobs({
+      owner,
+      repo,
+      run_id: runId,
+      enable_debug_logging: options?.enableDebugLogging,
+    });
+  }
+
+  /**
+   * Cancels a workflow run
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param runId - Workflow run ID
+   * @param options - Cancel options
+   * @param options.force - Force cancel, bypassing `always()` conditions of running steps
+   *
+   * @example
+   * ```typescript
+   * await github.cancelWorkflowRun("owner", "repo", 12345);
+   * ```
+   */
+  async cancelWorkflowRun(
+    owner: string,
+    repo: string,
+    runId: number,
+    options?: { force?: boolean },
+  ): Promise<void> {
+    const params = { owner, repo, run_id: runId };
+    if (options?.force) {
+      await this.octokitClient.actions.forceCancelWorkflowRun(params);
+    } else {
+      await this.octokitClient.actions.cancelWorkflowRun(params);
+    }
   }
 
   /**
@@ -663,18 +1616,252 @@ export class Github {
     return results;
   }
 
+  /**
+   * Fetches many files in a few GraphQL queries
+   *
+   * Each query resolves up to `batchSize` files with
+   * `repository { object(expression: "ref:path") }` aliases, instead of one
+   * REST request per file. Identical requests are fetched once. Results of
+   * commit hash refs are stored in the same content cache as `fetchContent`,
+   * and cached ones are served without any request.
+   *
+   * Files that GraphQL can not return as text (truncated large files or
+   * binaries) are fetched with `fetchContent`. When GraphQL is unsupported,
+   * e.g. on GHES versions without the GraphQL API or the needed fields, the
+   * batch falls back to `fetchContent` and GraphQL is not tried again by this
+   * client.
+   *
+   * @param requests - Files to fetch
+   * @param options - Fetch options
+   * @param options.batchSize - Number of files per GraphQL query (default: 50)
+   * @returns File contents in the order of requests (undefined if file not found)
+   * @throws {NotFoundError} If a file is not found when the `strict` option is enabled
+   * @throws {GithubApiError} If a GraphQL query fails transiently, e.g. a network error or a rate limit
+   *
+   * @example
+   * ```typescript
+   * const runs = await github.fetchWorkflowRuns("owner", "repo");
+   * const files = await github.fetchContents(runs.map((run) => ({
+   *   owner: run.repository.owner.login,
+   *   repo: run.repository.name,
+   *   path: run.path,
+   *   ref: run.head_sha,
+   * })));
+   * ```
+   */
+  async fetchContents(
+    requests: { owner: string; repo: string; path: string; ref: string }[],
+    options?: { batchSize?: number },
+  ): Promise<(FileContent | undefined)[]> {
+    // Same key as fetchContent regardless of the property order of requests
+    const keyOf = (req: typeof requests[number]) =>
+      JSON.stringify({
+        owner: req.owner,
+        repo: req.repo,
+        path: req.path,
+        ref: req.ref,
+      });
+    const results = new Map<string, FileContent | undefined>();
+    const pending = new Map<string, typeof requests[number]>();
+    for (const req of requests) {
+      const key = keyOf(req);
+      if (results.has(key) || pending.has(key)) continue;
+      const cache = await this.contentCache.get(key);
+      if (cache && Github.isCommitSha(req.ref)) {
+        this.ledger.recordCacheHit(`GET ${Github.CONTENT_ROUTE}`);
+        this.traceResponse({
+          method: "GET",
+          route: Github.CONTENT_ROUTE,
+          durationMs: 0,
+          cacheHit: true,
+        });
+        results.set(key, new FileContent(cache.response));
+      } else {
+        pending.set(key, req);
+      }
+    }
+
+    for (const batch of chunk([...pending], options?.batchSize ?? 50)) {
+      const blobs = this.graphqlUnavailable
+        ? undefined
+        : await this.fetchGraphqlBlobs(batch.map(([, req]) => req));
+      for (const [index, [key, req]] of batch.entries()) {
+        const repository = blobs?.[`f${index}`];
+        const blob = repository?.object;
+        // GraphQL is unavailable, or the file is truncated or binary
+        if (
+          blobs === undefined ||
+          (blob?.__typename === "Blob" && blob.text === null)
+        ) {
+          results.set(key, await this.fetchContent(req));
+          continue;
+        }
+        // Missing repository or path, or the path is a directory
+        if (!repository || blob?.__typename !== "Blob") {
+          if (this.strict) throw new NotFoundError("File not found", req);
+          results.set(key, undefined);
+          continue;
+        }
+        const response: FileContentResponse = {
+          type: "file",
+          size: blob.byteSize,
+          name: req.path.split("/").at(-1)!,
+          path: req.path,
+          content: encodeBase64(new TextEncoder().encode(blob.text!)),
+          encoding: "base64",
+          sha: blob.oid,
+          url: `${this.baseUrl}/repos/${req.owner}/${req.repo}/contents/${
+            encodeURI(req.path)
+          }?ref=${encodeURIComponent(req.ref)}`,
+          git_url:
+            `${this.baseUrl}/repos/${req.owner}/${req.repo}/git/blobs/${blob.oid}`,
+          html_url: `${repository.url}/blob/${req.ref}/${encodeURI(req.path)}`,
+          download_url: null,
+        };
+        // GraphQL has no ETag, so an entry of a branch or tag could not be
+        // revalidated and would replace the one fetchContent stored
+        if (Github.isCommitSha(req.ref)) {
+          await this.contentCache.set(key, { response });
+        }
+        results.set(key, new FileContent(response));
+      }
+    }
+    return requests.map((req) => results.get(keyOf(req)));
+  }
+
+  /**
+   * Fetches paths of the workflow files in `.github/workflows`
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param ref - Git reference (defaults to the default branch)
+   * @returns Array of `.yml`/`.yaml` file paths, or empty array if the directory does not exist
+   *
+   * @example
+   * ```typescript
+   * const paths = await github.fetchWorkflowFilePaths("owner", "repo");
+   * console.log(paths); // [".github/workflows/ci.yml"]
+   * ```
+   */
+  async fetchWorkflowFilePaths(
+    owner: string,
+    repo: string,
+    ref?: string,
+  ): Promise<string[]> {
+    const res = await this.octokitClient.repos.getContent({
+      owner,
+      repo,
+      path: ".github/workflows",
+      ref,
+    }).catch((error) => {
+      // Repository without workflows
+      if ((error as { status?: number }).status === 404) return undefined;
+      throw error;
+    });
+    if (res === undefined || !Array.isArray(res.data)) return [];
+
+    return res.data
+      .filter((entry) => entry.type === "file" && /\.ya?ml$/.test(entry.name))
+      .map((entry) => entry.path);
+  }
+
+  /**
+   * Fetches the workflows of a repository with their parsed files
+   *
+   * Joins the Actions workflows API, which also lists workflows that have
+   * never run, with the files in `.github/workflows` at the ref. Files are
+   * fetched with `fetchContents`. Workflows whose file fails to be fetched or
+   * parsed are returned with the error instead of being dropped. Dynamic
+   * workflows like CodeQL are excluded because they have no workflow file.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param ref - Git reference of the files (defaults to the default branch)
+   * @returns Workflow definitions sorted by path
+   *
+   * @example
+   * ```typescript
+   * const definitions = await github.fetchWorkflowDefinitions("owner", "repo");
+   * for (const { path, workflow, model, error } of definitions) {
+   *   console.log(path, workflow?.state, model?.name ?? error);
+   * }
+   * ```
+   */
+  async fetchWorkflowDefinitions(
+    owner: string,
+    repo: string,
+    ref?: string,
+  ): Promise<WorkflowDefinition[]> {
+    const workflows = (await this.octokitClient.paginate(
+      this.octokitClient.actions.listRepoWorkflows,
+      { owner, repo, per_page: 100 }, // MAX per_page num
+    )).map((workflow, index) =>
+      this.validate<RepositoryWorkflow>(
+        "RepositoryWorkflow",
+        workflow,
+        `[${index}]`,
+      )
+    ).filter((workflow) => !workflow.path.startsWith("dynamic/"));
+    const filePaths = await this.fetchWorkflowFilePaths(owner, repo, ref);
+
+    const workflowsByPath = new Map(
+      workflows.map((workflow) => [workflow.path, workflow]),
+    );
+    const paths = [...new Set([...workflowsByPath.keys(), ...filePaths])]
+      .toSorted();
+    const fileRef = ref ?? "HEAD";
+    const contents = await this.fetchContents(
+      paths.map((path) => ({ owner, repo, path, ref: fileRef })),
+    );
+    return paths.map((path, index) => {
+      const workflow = workflowsByPath.get(path);
+      const fileContent = contents[index];
+      if (fileContent === undefined) {
+        const error = new NotFoundError("Workflow file not found", {
+          owner,
+          repo,
+          path,
+          ref: fileRef,
+        });
+        return { path, workflow, error };
+      }
+      try {
+        const model = new WorkflowModel(fileContent);
+        // Valid YAML is not a workflow without jobs, e.g. an empty file
+        if (typeof model.raw?.jobs !== "object" || model.raw.jobs === null) {
+          throw new Error(`Workflow has no jobs: ${path}`);
+        }
+        return { path, workflow, model };
+      } catch (error) {
+        return { path, workflow, error };
+      }
+    });
+  }
+
   /**
    * Fetches file content from GitHub repository
    *
-   * This method is cacheable - responses are cached if ref is a commit hash
-   * or for short-lived branch references
+   * This method is cacheable. Responses for a commit hash ref are immutable and
+   * served from the cache without any request. Responses for branch or tag refs
+   * are revalidated with a conditional `If-None-Match` request, and a
+   * `304 Not Modified` response does not consume the rate limit.
+   *
+   * Failures are logged and return undefined. With the `strict` option, they
+   * are thrown as GithubApiError subclasses instead, so that callers can tell
+   * a missing file (NotFoundError) from a missing permission (ForbiddenError),
+   * an exhausted rate limit (RateLimitedError), a file over 100 MB (TooLargeError)
+   * or a network failure (TransportError).
+   *
+   * Files over 1 MB, whose content the contents API omits, are fetched from
+   * the Git blobs API by their `sha`.
    *
    * @param params - Parameters for fetching content
    * @param params.owner - Repository owner
    * @param params.repo - Repository name
    * @param params.path - File path
    * @param params.ref - Git reference (commit hash, branch, or tag)
-   * @returns File content or undefined if not found
+   * @returns File content, or undefined on failure when not strict
+   * @throws {GithubApiError} On failure when the `strict` option is enabled
    *
    * @example
    * ```typescript
@@ -689,36 +1876,182 @@ export class Github {
    * }
    * ```
    */
-  // deno-lint-ignore require-await
   async fetchContent(params: {
     owner: string;
     repo: string;
     path: string;
     ref: string;
   }): Promise<(FileContent | undefined)> {
-    const cache = this.contentCache.get(JSON.stringify(params));
-    if (cache) return cache;
+    const cacheKey = JSON.stringify(params);
+    const cache = await this.contentCache.get(cacheKey);
+    if (cache && Github.isCommitSha(params.ref)) {
+      this.ledger.recordCacheHit(`GET ${Github.CONTENT_ROUTE}`);
+      this.traceResponse({
+        method: "GET",
+        route: Github.CONTENT_ROUTE,
+        durationMs: 0,
+        cacheHit: true,
+      });
+      return new FileContent(cache.response);
+    }
 
-    return this.octokitClient.repos.getContent({
-      owner: params.owner,
-      repo: params.repo,
-      path: params.path,
-      ref: params.ref,
-    })
-      .then((res) => {
-        if (!Array.isArray(res.data) && res.data.type === "file") {
-          const fetchedFileContent = new FileContent(res.data);
+    try {
+      const res = await this.octokitClient.repos.getContent({
+        owner: params.owner,
+        repo: params.repo,
+        path: params.path,
+        ref: params.ref,
+        headers: cache?.etag ? { "if-none-match": cache.etag } : undefined,
+      });
+      if (Array.isArray(res.data) || res.data.type !== "file") {
+        if (!this.strict) return undefined;
+        throw new NotFoundError("Path is not a file", params);
+      }
+      let response = res.data as FileContentResponse;
+      // The contents API omits the content of files over 1 MB
+      if (response.encoding === "none") {
+        response = await this.fetchBlobContent(params, response);
+      }
+      await this.contentCache.set(cacheKey, {
+        response,
+        etag: res.headers.etag,
+      });
+      return new FileContent(response);
+    } catch (error) {
+      // Cached content is still fresh
+      if (cache && Github.isNotModified(error)) {
+        this.ledger.recordCacheHit(`GET ${Github.CONTENT_ROUTE}`);
+        return new FileContent(cache.response);
+      }
+      if (this.strict) throw toGithubApiError(error, params);
+      this.logger.warn("fetchContent failed", { ...params, error });
+      return undefined;
+    }
+  }
 
-          this.contentCache.set(JSON.stringify(params), fetchedFileContent);
-          return fetchedFileContent;
+  /**
+   * Resolves files with one GraphQL query
+   * @param requests - Files to fetch, aliased as `f{index}`
+   * @returns Repositories by alias (null if not found), or undefined if GraphQL is unsupported
+   * @throws {GithubApiError} If the query failed for another reason, e.g. a network error or a rate limit
+   */
+  private async fetchGraphqlBlobs(
+    requests: { owner: string; repo: string; path: string; ref: string }[],
+  ): Promise<Record<string, GraphqlBlobRepository | null> | undefined> {
+    const variables: Record<string, string> = {};
+    const definitions: string[] = [];
+    const fields = requests.map((req, i) => {
+      variables[`owner${i}`] = req.owner;
+      variables[`repo${i}`] = req.repo;
+      variables[`expression${i}`] = `${req.ref}:${req.path}`;
+      definitions.push(
+        `$owner${i}: String!, $repo${i}: String!, $expression${i}: String!`,
+      );
+      return `f${i}: repository(owner: $owner${i}, name: $repo${i}) {
+        url
+        object(expression: $expression${i}) {
+          __typename
+          ... on Blob { oid byteSize isTruncated text }
         }
-      })
-      .catch((error) => {
-        console.warn(
-          `fetchContent failed: ref: ${params.ref}, path: ${params.owner}/${params.repo}/${params.path}`,
-          error,
+      }`;
+    });
+    const query = `query(${definitions.join(", ")}) {\n${fields.join("\n")}\n}`;
+    try {
+      const data = await this.octokitClient.graphql<
+        Record<string, GraphqlBlobRepository | null>
+      >(query, variables);
+      return Github.withoutTruncatedText(data);
+    } catch (error) {
+      // Missing repositories are errors with partial data
+      const { data, errors, status } = error as {
+        data?: Record<string, GraphqlBlobRepository | null>;
+        errors?: unknown[];
+        status?: number;
+      };
+      if (data) return Github.withoutTruncatedText(data);
+      // GraphQL is not served (e.g. disabled on GHES) or lacks the queried fields
+      if (status === 404 || errors !== undefined) {
+        this.logger.warn(
+          "GraphQL query is unsupported, falling back to the contents API",
+          { error },
         );
+        this.graphqlUnavailable = true;
         return undefined;
-      });
+      }
+      // Transient failures such as network errors and rate limits
+      throw toGithubApiError(error);
+    }
+  }
+
+  /**
+   * Marks truncated blob text as unavailable
+   * @param data - GraphQL response data
+   * @returns The data whose truncated blobs have null text
+   */
+  private static withoutTruncatedText(
+    data: Record<string, GraphqlBlobRepository | null>,
+  ): Record<string, GraphqlBlobRepository | null> {
+    for (const repository of Object.values(data)) {
+      if (repository?.object?.isTruncated) repository.object.text = null;
+    }
+    return data;
+  }
+
+  /**
+   * Fills the content of a file over 1 MB from the Git blobs API
+   * @param params - Repository of the file
+   * @param params.owner - Repository owner
+   * @param params.repo - Repository name
+   * @param response - Contents API response without content
+   * @returns The response with base64 content
+   */
+  private async fetchBlobContent(
+    params: { owner: string; repo: string },
+    response: FileContentResponse,
+  ): Promise<FileContentResponse> {
+    const { data } = await this.octokitClient.git.getBlob({
+      owner: params.owner,
+      repo: params.repo,
+      file_sha: response.sha,
+    });
+    const content = data.encoding === "base64"
+      ? data.content
+      : encodeBase64(new TextEncoder().encode(data.content));
+    return { ...response, content, encoding: "base64" };
+  }
+
+  /**
+   * Validates a response against its type when `validateResponses` is enabled
+   * @param typeName - Name of the response type
+   * @param data - Response data
+   * @param field - Path of the data in the response, e.g. "[0]" for list items
+   * @returns The given data typed as the response type
+   */
+  private validate<T>(
+    typeName: ResponseTypeName,
+    data: unknown,
+    field?: string,
+  ): T {
+    return this.validateResponses
+      ? validateResponse<T>(typeName, data, field)
+      : data as T;
+  }
+
+  /**
+   * Checks if a ref is a full commit hash, whose content never changes
+   * @param ref - Git reference
+   * @returns True if ref is a SHA-1 or SHA-256 commit hash
+   */
+  private static isCommitSha(ref: string): boolean {
+    return /^([0-9a-f]{40}|[0-9a-f]{64})$/i.test(ref);
+  }
+
+  /**
+   * Checks if an Octokit error is a `304 Not Modified` response
+   * @param error - Thrown error
+   * @returns True if the response status is 304
+   */
+  private static isNotModified(error: unknown): boolean {
+    return (error as { status?: number } | undefined)?.status === 304;
   }
 }
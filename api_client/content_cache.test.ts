@@ -0,0 +1,83 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import {
+  type ContentCacheEntry,
+  type ContentCacheKv,
+  FsContentCacheStore,
+  KvContentCacheStore,
+  MemoryContentCacheStore,
+} from "./content_cache.ts";
+
+const dummyEntry: ContentCacheEntry = {
+  response: {
+    type: "file",
+    size: 11,
+    name: "ci.yml",
+    path: ".github/workflows/ci.yml",
+    content: "aGVsbG8gd29ybGQ=",
+    sha: "abc123",
+    url: "https://api.github.com/repos/owner/repo/contents/ci.yml",
+    git_url: null,
+    html_url: null,
+    download_url: null,
+  },
+  etag: '"etag"',
+};
+
+describe(MemoryContentCacheStore.name, () => {
+  it("Returns stored entry", async () => {
+    const store = new MemoryContentCacheStore();
+    assertEquals(await store.get("key"), undefined);
+    await store.set("key", dummyEntry);
+    assertEquals(await store.get("key"), dummyEntry);
+  });
+});
+
+describe(FsContentCacheStore.name, () => {
+  it("Persists entry across instances", async () => {
+    const dir = await Deno.makeTempDir();
+    try {
+      const store = new FsContentCacheStore(`${dir}/cache`);
+      assertEquals(await store.get("key"), undefined);
+      await store.set("key", dummyEntry);
+
+      const anotherStore = new FsContentCacheStore(`${dir}/cache`);
+      assertEquals(await anotherStore.get("key"), dummyEntry);
+      assertEquals(await anotherStore.get("other"), undefined);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+});
+
+describe(KvContentCacheStore.name, () => {
+  // Map-backed fake to avoid requiring --unstable-kv
+  const createFakeKv = (): ContentCacheKv => {
+    const map = new Map<string, unknown>();
+    return {
+      get: (key) =>
+        Promise.resolve({ value: map.get(JSON.stringify(key)) ?? null }),
+      set: (key, value) => {
+        map.set(JSON.stringify(key), value);
+        return Promise.resolve({ ok: true });
+      },
+    };
+  };
+
+  it("Returns stored entry", async () => {
+    const store = new KvContentCacheStore(createFakeKv());
+    assertEquals(await store.get("key"), undefined);
+    await store.set("key", dummyEntry);
+    assertEquals(await store.get("key"), dummyEntry);
+  });
+
+  it("Skips entry over the value size limit", async () => {
+    const store = new KvContentCacheStore(createFakeKv());
+    const largeEntry = {
+      ...dummyEntry,
+      response: { ...dummyEntry.response, content: "a".repeat(64 * 1024) },
+    };
+    await store.set("key", largeEntry);
+    assertEquals(await store.get("key"), undefined);
+  });
+});
@@ -0,0 +1,189 @@
+import { encodeHex } from "@std/encoding";
+import { join } from "@std/path";
+import type { FileContentResponse } from "./api_client.ts";
+
+/** Cached getContent response with its ETag for conditional requests */
+export type ContentCacheEntry = {
+  /** Raw file content response from GitHub API */
+  response: FileContentResponse;
+  /** ETag header of the response, used for `If-None-Match` revalidation */
+  etag?: string;
+};
+
+/**
+ * Storage backend for `Github.fetchContent` responses
+ *
+ * Implementations only need to persist entries; whether an entry can be
+ * reused as-is or has to be revalidated is decided by the `Github` client.
+ *
+ * @example
+ * ```typescript
+ * const github = new Github({
+ *   contentCacheStore: new FsContentCacheStore("./.cache/gha-utils"),
+ * });
+ * ```
+ */
+export type ContentCacheStore = {
+  /** Gets a cached entry, or undefined if the key is not cached */
+  get(key: string): Promise<ContentCacheEntry | undefined>;
+  /** Stores an entry, overwriting any existing one */
+  set(key: string, entry: ContentCacheEntry): Promise<void>;
+};
+
+/**
+ * In-memory content cache store that lives as long as the process
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryContentCacheStore();
+ * ```
+ */
+export class MemoryContentCacheStore implements ContentCacheStore {
+  /** Cached entries by key */
+  private readonly entries: Map<string, ContentCacheEntry> = new Map();
+
+  /**
+   * Gets a cached entry
+   * @param key - Cache key
+   * @returns Cached entry or undefined
+   */
+  get(key: string): Promise<ContentCacheEntry | undefined> {
+    return Promise.resolve(this.entries.get(key));
+  }
+
+  /**
+   * Stores an entry
+   * @param key - Cache key
+   * @param entry - Entry to cache
+   */
+  set(key: string, entry: ContentCacheEntry): Promise<void> {
+    this.entries.set(key, entry);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Content cache store that persists each entry as a JSON file in a directory
+ *
+ * File names are SHA-256 hashes of the cache key, so any key is safe to use.
+ * Requires `--allow-read` and `--allow-write` for the directory.
+ *
+ * @example
+ * ```typescript
+ * const store = new FsContentCacheStore("./.cache/gha-utils");
+ * ```
+ */
+export class FsContentCacheStore implements ContentCacheStore {
+  /** Directory to store cache files */
+  readonly dir: string;
+
+  /**
+   * Creates a new FsContentCacheStore instance
+   * @param dir - Directory to store cache files. Created on the first write
+   */
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Gets a cached entry
+   * @param key - Cache key
+   * @returns Cached entry or undefined if the file does not exist
+   */
+  async get(key: string): Promise<ContentCacheEntry | undefined> {
+    try {
+      const text = await Deno.readTextFile(await this.filePath(key));
+      return JSON.parse(text) as ContentCacheEntry;
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Stores an entry
+   * @param key - Cache key
+   * @param entry - Entry to cache
+   */
+  async set(key: string, entry: ContentCacheEntry): Promise<void> {
+    await Deno.mkdir(this.dir, { recursive: true });
+    await Deno.writeTextFile(await this.filePath(key), JSON.stringify(entry));
+  }
+
+  /**
+   * Gets the file path for a cache key
+   * @param key - Cache key
+   * @returns Path of the cache file
+   */
+  private async filePath(key: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(key),
+    );
+    return join(this.dir, `${encodeHex(digest)}.json`);
+  }
+}
+
+/**
+ * Subset of `Deno.Kv` used by KvContentCacheStore
+ *
+ * Declared structurally so that this module does not require `--unstable-kv`
+ * type definitions.
+ */
+export type ContentCacheKv = {
+  /** Gets a value by key */
+  get(key: string[]): Promise<{ value: unknown }>;
+  /** Sets a value by key */
+  set(key: string[], value: unknown): Promise<unknown>;
+};
+
+/**
+ * Content cache store backed by Deno KV
+ *
+ * Deno KV limits a value to 64 KiB, so larger entries are silently not cached.
+ *
+ * @example
+ * ```typescript
+ * const kv = await Deno.openKv();
+ * const store = new KvContentCacheStore(kv);
+ * ```
+ */
+export class KvContentCacheStore implements ContentCacheStore {
+  /** Max serialized value size accepted by Deno KV */
+  private static readonly MAX_VALUE_BYTES = 64 * 1024;
+  /** Deno KV instance */
+  private readonly kv: ContentCacheKv;
+  /** Key prefix for cache entries */
+  readonly prefix: string[];
+
+  /**
+   * Creates a new KvContentCacheStore instance
+   * @param kv - Deno KV instance (e.g. `await Deno.openKv()`)
+   * @param prefix - Key prefix for cache entries (default: ["gha-utils", "content"])
+   */
+  constructor(kv: ContentCacheKv, prefix: string[] = ["gha-utils", "content"]) {
+    this.kv = kv;
+    this.prefix = prefix;
+  }
+
+  /**
+   * Gets a cached entry
+   * @param key - Cache key
+   * @returns Cached entry or undefined
+   */
+  async get(key: string): Promise<ContentCacheEntry | undefined> {
+    const res = await this.kv.get([...this.prefix, key]);
+    return (res.value ?? undefined) as ContentCacheEntry | undefined;
+  }
+
+  /**
+   * Stores an entry unless it exceeds the Deno KV value size limit
+   * @param key - Cache key
+   * @param entry - Entry to cache
+   */
+  async set(key: string, entry: ContentCacheEntry): Promise<void> {
+    const size = new TextEncoder().encode(JSON.stringify(entry)).byteLength;
+    if (size > KvContentCacheStore.MAX_VALUE_BYTES) return;
+    await this.kv.set([...this.prefix, key], entry);
+  }
+}
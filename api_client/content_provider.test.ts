@@ -0,0 +1,224 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { afterAll, beforeAll, describe, it } from "@std/testing/bdd";
+import { join } from "@std/path";
+import { Github } from "./api_client.ts";
+import {
+  type ContentProvider,
+  LocalContentProvider,
+} from "./content_provider.ts";
+import { WorkflowModel } from "../workflow_model/src/workflow_file.ts";
+
+const committedYaml = `name: CI
+on: push
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo committed
+`;
+const changedYaml = `name: CI
+on: push
+jobs:
+  lint:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo lint
+  test:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo changed
+`;
+
+async function git(root: string, ...args: string[]): Promise<void> {
+  const { success } = await new Deno.Command("git", {
+    args: [
+      "-C",
+      root,
+      "-c",
+      "user.name=test",
+      "-c",
+      "user.email=test@example.com",
+      ...args,
+    ],
+    stdout: "null",
+    stderr: "null",
+  }).output();
+  if (!success) throw new Error(`git ${args.join(" ")} failed`);
+}
+
+describe(LocalContentProvider.name, () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await Deno.makeTempDir();
+    await Deno.mkdir(join(root, ".github", "workflows"), { recursive: true });
+    await Deno.writeTextFile(
+      join(root, ".github", "workflows", "ci.yml"),
+      committedYaml,
+    );
+    await Deno.writeTextFile(
+      join(root, ".github", "workflows", "デプロイ.yml"),
+      "name: Deploy\non: push\njobs: {}\n",
+    );
+    // Directories are not workflow files even if their names end with .yml
+    await Deno.mkdir(join(root, ".github", "workflows", "shared.yml"));
+    await Deno.writeTextFile(
+      join(root, ".github", "workflows", "shared.yml", "README.md"),
+      "not a workflow",
+    );
+    await git(root, "init", "--quiet", "--initial-branch=main");
+    await git(root, "remote", "add", "origin", "git@github.com:owner/repo.git");
+    await git(root, "add", ".");
+    await git(root, "commit", "--quiet", "-m", "init");
+
+    // Uncommitted changes
+    await Deno.writeTextFile(
+      join(root, ".github", "workflows", "ci.yml"),
+      changedYaml,
+    );
+    await Deno.writeTextFile(
+      join(root, ".github", "workflows", "release.yaml"),
+      "name: Release\non: push\njobs: {}\n",
+    );
+    await Deno.writeTextFile(
+      join(root, ".github", "workflows", "README.md"),
+      "not a workflow",
+    );
+  });
+
+  afterAll(async () => {
+    await Deno.remove(root, { recursive: true });
+  });
+
+  it("Reads uncommitted workflow files from the working tree", async () => {
+    const provider = new LocalContentProvider({ root });
+    assertEquals(await provider.fetchWorkflowFilePaths(), [
+      ".github/workflows/ci.yml",
+      ".github/workflows/release.yaml",
+      ".github/workflows/デプロイ.yml",
+    ]);
+
+    const content = await provider.fetchContent({
+      path: "./.github/workflows/ci.yml",
+    });
+    assertEquals(content?.content, changedYaml);
+    assertEquals(content?.raw.path, ".github/workflows/ci.yml");
+    assertEquals(content?.raw.name, "ci.yml");
+    assertEquals(
+      content?.raw.html_url,
+      "https://github.com/owner/repo/blob/HEAD/.github/workflows/ci.yml",
+    );
+
+    const workflow = new WorkflowModel(content!);
+    assertEquals(workflow.jobs.map((job) => job.id), ["lint", "test"]);
+    assertEquals(
+      workflow.jobs[1].htmlUrlWithLine,
+      "https://github.com/owner/repo/blob/HEAD/.github/workflows/ci.yml#L8",
+    );
+  });
+
+  it("Reads workflow files at a ref from the local git objects", async () => {
+    const provider = new LocalContentProvider({ root, ref: "main" });
+    assertEquals(await provider.fetchWorkflowFilePaths(), [
+      ".github/workflows/ci.yml",
+      ".github/workflows/デプロイ.yml",
+    ]);
+
+    const content = await provider.fetchContent({
+      path: ".github/workflows/ci.yml",
+    });
+    assertEquals(content?.content, committedYaml);
+    assertEquals(
+      content?.raw.html_url,
+      "https://github.com/owner/repo/blob/main/.github/workflows/ci.yml",
+    );
+    // Same as GitHub: `git hash-object` of the file
+    assertEquals(content?.raw.sha.length, 40);
+  });
+
+  it("Prefers the ref of the request", async () => {
+    const provider = new LocalContentProvider({ root });
+    const content = await provider.fetchContent({
+      owner: "ignored",
+      repo: "ignored",
+      path: ".github/workflows/ci.yml",
+      ref: "main",
+    });
+    assertEquals(content?.content, committedYaml);
+  });
+
+  it("Uses the repository given by the options for html_url", async () => {
+    const provider = new LocalContentProvider({
+      root,
+      owner: "org",
+      repo: "fork",
+      host: "github.example.com",
+    });
+    const content = await provider.fetchContent({
+      path: ".github/workflows/release.yaml",
+    });
+    assertEquals(
+      content?.raw.html_url,
+      "https://github.example.com/org/fork/blob/HEAD/.github/workflows/release.yaml",
+    );
+  });
+
+  it("Leaves html_url null outside of a git checkout", async () => {
+    const dir = await Deno.makeTempDir();
+    const path = Deno.env.get("PATH");
+    try {
+      await Deno.writeTextFile(join(dir, "ci.yml"), committedYaml);
+      const provider = new LocalContentProvider({ root: dir });
+      const content = await provider.fetchContent({ path: "ci.yml" });
+      assertEquals(content?.raw.html_url, null);
+
+      // Without git on PATH
+      Deno.env.set("PATH", dir);
+      const withoutGit = new LocalContentProvider({ root: dir });
+      assertEquals(
+        (await withoutGit.fetchContent({ path: "ci.yml" }))?.raw.html_url,
+        null,
+      );
+      assertEquals(
+        (await withoutGit.fetchContent({ path: "ci.yml" }))?.content,
+        committedYaml,
+      );
+    } finally {
+      if (path !== undefined) Deno.env.set("PATH", path);
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+
+  it("Returns undefined for missing files and directories", async () => {
+    const provider = new LocalContentProvider({ root });
+    assertEquals(
+      await provider.fetchContent({ path: ".github/workflows/none.yml" }),
+      undefined,
+    );
+    assertEquals(
+      await provider.fetchContent({ path: ".github/workflows" }),
+      undefined,
+    );
+    assertEquals(
+      await provider.fetchContent({ path: "README.md", ref: "main" }),
+      undefined,
+    );
+  });
+
+  it("Refuses paths outside of the repository", async () => {
+    const provider = new LocalContentProvider({ root });
+    await assertRejects(
+      () => provider.fetchContent({ path: "../outside.yml" }),
+      Error,
+      "Path escapes the repository root",
+    );
+  });
+
+  it("Is interchangeable with Github", () => {
+    const providers: ContentProvider[] = [
+      new LocalContentProvider({ root }),
+      new Github({ token: "token", _workaroundDenoTest: true }),
+    ];
+    assertEquals(providers.length, 2);
+  });
+});
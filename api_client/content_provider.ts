@@ -0,0 +1,318 @@
+import { encodeBase64, encodeHex } from "@std/encoding";
+import { join, normalize } from "@std/path";
+import { FileContent, type FileContentResponse } from "./api_client.ts";
+
+/** File requested from a ContentProvider */
+export type ContentRequest = {
+  /** Repository owner */
+  owner: string;
+  /** Repository name */
+  repo: string;
+  /** File path in the repository */
+  path: string;
+  /** Git reference. What an omitted ref means is up to the provider */
+  ref?: string;
+};
+
+/**
+ * Source of workflow files
+ *
+ * `Github` reads files through the GitHub API and `LocalContentProvider`
+ * reads them from a local checkout, so code that builds `WorkflowModel`s
+ * can accept either.
+ *
+ * @example
+ * ```typescript
+ * async function loadWorkflows(provider: ContentProvider, owner: string, repo: string) {
+ *   const paths = await provider.fetchWorkflowFilePaths(owner, repo);
+ *   const contents = await Promise.all(
+ *     paths.map((path) => provider.fetchContent({ owner, repo, path })),
+ *   );
+ *   return contents.filter((it) => it !== undefined)
+ *     .map((it) => new WorkflowModel(it));
+ * }
+ * await loadWorkflows(new Github(), "owner", "repo");
+ * await loadWorkflows(new LocalContentProvider({ root: "." }), "owner", "repo");
+ * ```
+ */
+export type ContentProvider = {
+  /**
+   * Fetches a file
+   * @param params - Requested file
+   * @returns File content, or undefined if the file does not exist
+   */
+  fetchContent(params: ContentRequest): Promise<FileContent | undefined>;
+  /**
+   * Fetches paths of the workflow files in `.github/workflows`
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param ref - Git reference
+   * @returns Array of `.yml`/`.yaml` file paths
+   */
+  fetchWorkflowFilePaths(
+    owner: string,
+    repo: string,
+    ref?: string,
+  ): Promise<string[]>;
+};
+
+/** Options of LocalContentProvider */
+export type LocalContentProviderOptions = {
+  /** Root directory of the repository checkout */
+  root: string;
+  /** Git reference to read from the local git objects. Reads the working tree if omitted */
+  ref?: string;
+  /** Repository owner for `html_url` (defaults to the owner of the "origin" remote) */
+  owner?: string;
+  /** Repository name for `html_url` (defaults to the name of the "origin" remote) */
+  repo?: string;
+  /** GitHub host for `html_url` (defaults to the host of the "origin" remote, or github.com) */
+  host?: string;
+};
+
+/**
+ * ContentProvider that reads a repository checkout from disk
+ *
+ * Files are read from the working tree, including uncommitted changes, or
+ * from the local git objects at a ref without checking it out. No network
+ * access is made. The returned `FileContent`s have the same shape as GitHub
+ * API responses, with `html_url` pointing to the file on GitHub when the
+ * repository is known. The `owner` and `repo` of requests are ignored.
+ *
+ * Requires `--allow-read`, and `--allow-run=git` to read a ref or to detect
+ * the repository from the "origin" remote.
+ *
+ * @example
+ * ```typescript
+ * // Uncommitted workflow changes
+ * const provider = new LocalContentProvider({ root: "." });
+ * for (const path of await provider.fetchWorkflowFilePaths()) {
+ *   const workflow = new WorkflowModel((await provider.fetchContent({ path }))!);
+ *   console.log(workflow.jobs.map((job) => job.htmlUrlWithLine));
+ * }
+ *
+ * // Workflows on the main branch of the same checkout
+ * const main = new LocalContentProvider({ root: ".", ref: "main" });
+ * ```
+ */
+export class LocalContentProvider implements ContentProvider {
+  /** Root directory of the repository checkout */
+  readonly root: string;
+  /** Default git reference, or undefined for the working tree */
+  readonly ref?: string;
+  /** Base of `html_url` ("https://{host}/{owner}/{repo}"), resolved lazily */
+  private htmlBaseUrl?: Promise<string | undefined>;
+  /** Options for resolving `html_url` */
+  private readonly options: LocalContentProviderOptions;
+
+  /**
+   * Creates a new LocalContentProvider instance
+   * @param options - Provider options
+   */
+  constructor(options: LocalContentProviderOptions) {
+    this.root = options.root;
+    this.ref = options.ref;
+    this.options = options;
+  }
+
+  /**
+   * Reads a file of the checkout
+   *
+   * @param params - Requested file. `owner` and `repo` are optional and ignored
+   * @param params.path - File path relative to the repository root
+   * @param params.ref - Git reference to read instead of the default of the provider
+   * @returns File content, or undefined if the file does not exist or is not a file
+   * @throws {Error} If the path escapes the repository root
+   *
+   * @example
+   * ```typescript
+   * const content = await provider.fetchContent({ path: ".github/workflows/ci.yml" });
+   * console.log(content?.raw.html_url); // "https://github.com/owner/repo/blob/HEAD/.github/workflows/ci.yml"
+   * ```
+   */
+  async fetchContent(
+    params: Partial<ContentRequest> & { path: string },
+  ): Promise<FileContent | undefined> {
+    const path = LocalContentProvider.normalizePath(params.path);
+    const ref = params.ref ?? this.ref;
+    const bytes = ref === undefined
+      ? await this.readWorkingTreeFile(path)
+      : await this.git(["cat-file", "blob", `${ref}:${path}`]);
+    if (bytes === undefined) return undefined;
+
+    const baseUrl = await this.resolveHtmlBaseUrl();
+    const response: FileContentResponse = {
+      type: "file",
+      size: bytes.byteLength,
+      name: path.split("/").at(-1)!,
+      path,
+      content: encodeBase64(bytes),
+      sha: await gitBlobSha(bytes),
+      url: `file://${join(this.root, path)}`,
+      git_url: null,
+      html_url: baseUrl !== undefined
+        ? `${baseUrl}/blob/${ref ?? "HEAD"}/${path}`
+        : null,
+      download_url: null,
+      encoding: "base64",
+    };
+    return new FileContent(response);
+  }
+
+  /**
+   * Lists the workflow files of the checkout
+   *
+   * @param _owner - Ignored
+   * @param _repo - Ignored
+   * @param ref - Git reference to read instead of the default of the provider
+   * @returns Sorted array of `.yml`/`.yaml` file paths, or empty array if the directory does not exist
+   *
+   * @example
+   * ```typescript
+   * const paths = await provider.fetchWorkflowFilePaths();
+   * console.log(paths); // [".github/workflows/ci.yml"]
+   * ```
+   */
+  async fetchWorkflowFilePaths(
+    _owner?: string,
+    _repo?: string,
+    ref?: string,
+  ): Promise<string[]> {
+    const dir = ".github/workflows";
+    const gitRef = ref ?? this.ref;
+    let names: string[] = [];
+    if (gitRef === undefined) {
+      try {
+        for await (const entry of Deno.readDir(join(this.root, dir))) {
+          if (entry.isFile) names.push(entry.name);
+        }
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) throw error;
+      }
+    } else {
+      // Entries are "<mode> <type> <object>\t<path>", NUL-terminated to keep non-ASCII paths unquoted
+      const output = await this.git(["ls-tree", "-z", gitRef, `${dir}/`]);
+      names = output === undefined ? [] : new TextDecoder().decode(output)
+        .split("\0")
+        .filter((entry) => entry.split(" ")[1] === "blob")
+        .map((entry) => entry.slice(entry.indexOf("\t") + dir.length + 2));
+    }
+    return names.filter((name) => /\.ya?ml$/.test(name))
+      .map((name) => `${dir}/${name}`)
+      .toSorted();
+  }
+
+  /**
+   * Reads a file from the working tree
+   * @param path - Normalized file path
+   * @returns File bytes, or undefined if the path does not exist or is not a file
+   */
+  private async readWorkingTreeFile(
+    path: string,
+  ): Promise<Uint8Array | undefined> {
+    try {
+      return await Deno.readFile(join(this.root, path));
+    } catch (error) {
+      // Directories can not be read as a file
+      if (
+        error instanceof Deno.errors.NotFound ||
+        error instanceof Deno.errors.IsADirectory
+      ) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves the base of `html_url` from the options or the "origin" remote
+   * @returns "https://{host}/{owner}/{repo}", or undefined if the repository is unknown
+   */
+  private resolveHtmlBaseUrl(): Promise<string | undefined> {
+    this.htmlBaseUrl ??= (async () => {
+      let { owner, repo, host } = this.options;
+      if (owner === undefined || repo === undefined) {
+        const output = await this.git(["remote", "get-url", "origin"]);
+        const remote = output !== undefined
+          ? parseRemoteUrl(new TextDecoder().decode(output).trim())
+          : undefined;
+        if (remote === undefined) return undefined;
+        owner ??= remote.owner;
+        repo ??= remote.repo;
+        host ??= remote.host;
+      }
+      const origin = (host ?? "github.com").replace(/^https:\/\//, "");
+      return `https://${origin}/${owner}/${repo}`;
+    })();
+    return this.htmlBaseUrl;
+  }
+
+  /**
+   * Runs git in the repository root
+   * @param args - git arguments
+   * @returns Standard output, or undefined if git failed or could not be run
+   */
+  private async git(args: string[]): Promise<Uint8Array | undefined> {
+    try {
+      const { success, stdout } = await new Deno.Command("git", {
+        args: ["-C", this.root, ...args],
+        stdout: "piped",
+        stderr: "null",
+      }).output();
+      return success ? stdout : undefined;
+    } catch (error) {
+      // git is not installed, or --allow-run=git is not granted
+      if (
+        error instanceof Deno.errors.NotFound ||
+        error instanceof Deno.errors.NotCapable
+      ) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Normalizes a repository-relative path to the form GitHub uses
+   * @param path - File path
+   * @returns Path with "/" separators and without "./" or leading "/"
+   * @throws {Error} If the path escapes the repository root
+   */
+  private static normalizePath(path: string): string {
+    const normalized = normalize(path.replace(/^\/+/, ""))
+      .replaceAll("\\", "/");
+    if (normalized.startsWith("..")) {
+      throw new Error(`Path escapes the repository root: ${path}`);
+    }
+    return normalized;
+  }
+}
+
+/**
+ * Parses an HTTPS or SSH remote URL of a GitHub repository
+ * @param url - Remote URL, e.g. "git@github.com:owner/repo.git"
+ * @returns Host, owner and repo, or undefined if the URL is not recognized
+ */
+function parseRemoteUrl(
+  url: string,
+): { host: string; owner: string; repo: string } | undefined {
+  const match = url.match(
+    /^(?:https:\/\/(?:[^@/]+@)?|ssh:\/\/git@|git@)([^/:]+)[/:]([^/]+)\/([^/]+?)(?:\.git)?\/?$/,
+  );
+  if (match === null) return undefined;
+  return { host: match[1], owner: match[2], repo: match[3] };
+}
+
+/**
+ * Computes the git blob hash, which GitHub returns as `sha`
+ * @param bytes - File bytes
+ * @returns SHA-1 hex of the git blob object
+ */
+async function gitBlobSha(bytes: Uint8Array): Promise<string> {
+  const header = new TextEncoder().encode(`blob ${bytes.byteLength}\0`);
+  const digest = await crypto.subtle.digest(
+    "SHA-1",
+    new Uint8Array([...header, ...bytes]),
+  );
+  return encodeHex(digest);
+}
@@ -0,0 +1,97 @@
+import { assertEquals, assertInstanceOf } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import {
+  ForbiddenError,
+  GithubApiError,
+  NotFoundError,
+  RateLimitedError,
+  toGithubApiError,
+  TooLargeError,
+  TransportError,
+} from "./errors.ts";
+
+const context = {
+  owner: "owner",
+  repo: "repo",
+  path: ".github/workflows/ci.yml",
+  ref: "main",
+};
+const requestError = (
+  status: number,
+  message = "Request failed",
+  headers: Record<string, string> = {},
+  data: unknown = {},
+) => Object.assign(new Error(message), { status, response: { headers, data } });
+
+describe(toGithubApiError.name, () => {
+  it("Classifies errors by status and response", () => {
+    assertInstanceOf(
+      toGithubApiError(requestError(404), context),
+      NotFoundError,
+    );
+    assertInstanceOf(
+      toGithubApiError(requestError(403, "Resource not accessible"), context),
+      ForbiddenError,
+    );
+    assertInstanceOf(
+      toGithubApiError(requestError(401, "Bad credentials"), context),
+      ForbiddenError,
+    );
+    assertInstanceOf(
+      toGithubApiError(
+        requestError(403, "too large", {}, { errors: [{ code: "too_large" }] }),
+        context,
+      ),
+      TooLargeError,
+    );
+    assertInstanceOf(
+      toGithubApiError(requestError(500, "Server Error"), context),
+      GithubApiError,
+    );
+  });
+
+  it("Classifies rate limit errors with retryAfter", () => {
+    const primary = toGithubApiError(
+      requestError(403, "API rate limit exceeded", {
+        "x-ratelimit-remaining": "0",
+        "x-ratelimit-reset": String(Math.floor(Date.now() / 1000) + 60),
+      }),
+      context,
+    );
+    assertInstanceOf(primary, RateLimitedError);
+    assertEquals(primary.retryAfter! > 55, true);
+
+    const secondary = toGithubApiError(
+      requestError(403, "You have exceeded a secondary rate limit", {
+        "retry-after": "30",
+      }),
+      context,
+    );
+    assertInstanceOf(secondary, RateLimitedError);
+    assertEquals(secondary.retryAfter, 30);
+  });
+
+  it("Classifies errors without a response as TransportError", () => {
+    const cause = new TypeError("fetch failed");
+    const error = toGithubApiError(
+      Object.assign(new Error("fetch failed"), { status: 500, cause }),
+      context,
+    );
+    assertInstanceOf(error, TransportError);
+    assertEquals(error.status, undefined);
+  });
+
+  it("Carries the request target", () => {
+    const error = toGithubApiError(requestError(404, "Not Found"), context);
+    assertEquals(
+      error.message,
+      "Not Found (owner/repo/.github/workflows/ci.yml@main)",
+    );
+    assertEquals(
+      [error.owner, error.repo, error.path, error.ref, error.status],
+      ["owner", "repo", ".github/workflows/ci.yml", "main", 404],
+    );
+    // Already classified errors are returned as they are
+    assertEquals(toGithubApiError(error), error);
+  });
+});
@@ -0,0 +1,263 @@
+/** Target of a failed GitHub API request */
+export type GithubErrorContext = {
+  owner?: string;
+  repo?: string;
+  path?: string;
+  ref?: string;
+};
+
+/**
+ * Base error of failed GitHub API requests
+ *
+ * Thrown by `Github` methods when the client is created with `strict: true`.
+ * Subclasses tell apart why the request failed.
+ *
+ * @example
+ * ```typescript
+ * const github = new Github({ strict: true });
+ * try {
+ *   await github.fetchContent({ owner, repo, path, ref });
+ * } catch (error) {
+ *   if (error instanceof NotFoundError) console.log(`${error.path} does not exist`);
+ *   else if (error instanceof RateLimitedError) console.log(`retry after ${error.retryAfter}s`);
+ *   else throw error;
+ * }
+ * ```
+ */
+export class GithubApiError extends Error {
+  /** HTTP status, or undefined if no response was received */
+  status?: number;
+  /** Repository owner */
+  owner?: string;
+  /** Repository name */
+  repo?: string;
+  /** File path */
+  path?: string;
+  /** Git reference */
+  ref?: string;
+
+  /**
+   * Creates a new GithubApiError instance
+   * @param message - Error message
+   * @param context - Target of the request
+   * @param options - Error options
+   * @param options.status - HTTP status
+   * @param options.cause - Original error
+   */
+  constructor(
+    message: string,
+    context?: GithubErrorContext,
+    options?: { status?: number; cause?: unknown },
+  ) {
+    super(
+      `${message}${GithubApiError.describeContext(context)}`,
+      { cause: options?.cause },
+    );
+    this.name = "GithubApiError";
+    this.status = options?.status;
+    this.owner = context?.owner;
+    this.repo = context?.repo;
+    this.path = context?.path;
+    this.ref = context?.ref;
+  }
+
+  /**
+   * Formats the request target for error messages
+   * @param context - Target of the request
+   * @returns e.g. " (owner/repo/path@ref)", or empty string without owner/repo
+   */
+  private static describeContext(context?: GithubErrorContext): string {
+    if (context?.owner === undefined || context.repo === undefined) return "";
+    const path = context.path ? `/${context.path}` : "";
+    const ref = context.ref ? `@${context.ref}` : "";
+    return ` (${context.owner}/${context.repo}${path}${ref})`;
+  }
+}
+
+/** The repository, file or ref does not exist, or is not visible to the token */
+export class NotFoundError extends GithubApiError {
+  /**
+   * Creates a new NotFoundError instance
+   * @param message - Error message
+   * @param context - Target of the request
+   * @param options - Error options
+   * @param options.status - HTTP status
+   * @param options.cause - Original error
+   */
+  constructor(
+    message: string,
+    context?: GithubErrorContext,
+    options?: { status?: number; cause?: unknown },
+  ) {
+    super(message, context, options);
+    this.name = "NotFoundError";
+  }
+}
+
+/** The token is invalid or lacks the permission */
+export class ForbiddenError extends GithubApiError {
+  /**
+   * Creates a new ForbiddenError instance
+   * @param message - Error message
+   * @param context - Target of the request
+   * @param options - Error options
+   * @param options.status - HTTP status
+   * @param options.cause - Original error
+   */
+  constructor(
+    message: string,
+    context?: GithubErrorContext,
+    options?: { status?: number; cause?: unknown },
+  ) {
+    super(message, context, options);
+    this.name = "ForbiddenError";
+  }
+}
+
+/** The primary or secondary rate limit is exceeded */
+export class RateLimitedError extends GithubApiError {
+  /** Seconds to wait before retrying, if known */
+  retryAfter?: number;
+
+  /**
+   * Creates a new RateLimitedError instance
+   * @param message - Error message
+   * @param context - Target of the request
+   * @param options - Error options
+   * @param options.status - HTTP status
+   * @param options.cause - Original error
+   * @param options.retryAfter - Seconds to wait before retrying
+   */
+  constructor(
+    message: string,
+    context?: GithubErrorContext,
+    options?: { status?: number; cause?: unknown; retryAfter?: number },
+  ) {
+    super(message, context, options);
+    this.name = "RateLimitedError";
+    this.retryAfter = options?.retryAfter;
+  }
+}
+
+/** The file or response is too large for the API */
+export class TooLargeError extends GithubApiError {
+  /**
+   * Creates a new TooLargeError instance
+   * @param message - Error message
+   * @param context - Target of the request
+   * @param options - Error options
+   * @param options.status - HTTP status
+   * @param options.cause - Original error
+   */
+  constructor(
+    message: string,
+    context?: GithubErrorContext,
+    options?: { status?: number; cause?: unknown },
+  ) {
+    super(message, context, options);
+    this.name = "TooLargeError";
+  }
+}
+
+/** No response was received, e.g. network failure or timeout */
+export class TransportError extends GithubApiError {
+  /**
+   * Creates a new TransportError instance
+   * @param message - Error message
+   * @param context - Target of the request
+   * @param options - Error options
+   * @param options.cause - Original error
+   */
+  constructor(
+    message: string,
+    context?: GithubErrorContext,
+    options?: { cause?: unknown },
+  ) {
+    super(message, context, options);
+    this.name = "TransportError";
+  }
+}
+
+/** Shape of Octokit's RequestError used for classification */
+type OctokitRequestError = {
+  message?: string;
+  status?: number;
+  response?: {
+    headers?: Record<string, string | number | undefined>;
+    data?: unknown;
+  };
+};
+
+/**
+ * Converts an error thrown by Octokit into a GithubApiError subclass
+ *
+ * @param error - Error thrown by Octokit
+ * @param context - Target of the request
+ * @returns Classified error. GithubApiError instances are returned as they are
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await github.octokit.repos.getContent({ owner, repo, path, ref });
+ * } catch (error) {
+ *   throw toGithubApiError(error, { owner, repo, path, ref });
+ * }
+ * ```
+ */
+export function toGithubApiError(
+  error: unknown,
+  context?: GithubErrorContext,
+): GithubApiError {
+  if (error instanceof GithubApiError) return error;
+
+  const { message = String(error), status, response } =
+    (error ?? {}) as OctokitRequestError;
+  // Octokit reports network failures as status 500 without a response
+  if (response === undefined || status === undefined) {
+    return new TransportError(message, context, { cause: error });
+  }
+
+  const options = { status, cause: error };
+  const headers = response.headers ?? {};
+  const code = (response.data as { errors?: Array<{ code?: string }> })
+    ?.errors?.[0]?.code;
+  if (status === 404) return new NotFoundError(message, context, options);
+  if (status === 413 || code === "too_large") {
+    return new TooLargeError(message, context, options);
+  }
+  if (
+    status === 429 ||
+    (status === 403 &&
+      (String(headers["x-ratelimit-remaining"]) === "0" ||
+        /rate limit/i.test(message)))
+  ) {
+    return new RateLimitedError(message, context, {
+      ...options,
+      retryAfter: retryAfterOf(headers),
+    });
+  }
+  if (status === 401 || status === 403) {
+    return new ForbiddenError(message, context, options);
+  }
+  return new GithubApiError(message, context, options);
+}
+
+/**
+ * Gets seconds to wait from rate limit response headers
+ * @param headers - Response headers
+ * @returns Seconds from `retry-after` or `x-ratelimit-reset`, or undefined
+ */
+function retryAfterOf(
+  headers: Record<string, string | number | undefined>,
+): number | undefined {
+  if (headers["retry-after"] !== undefined) {
+    return Number(headers["retry-after"]);
+  }
+  if (headers["x-ratelimit-reset"] !== undefined) {
+    return Math.max(
+      0,
+      Number(headers["x-ratelimit-reset"]) - Math.floor(Date.now() / 1000),
+    );
+  }
+  return undefined;
+}
@@ -0,0 +1,112 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import {
+  FakeGithubServer,
+  fakeWorkflowJob,
+  fakeWorkflowRun,
+} from "./fake_github_server.ts";
+import { Github, type WorkflowJob, type WorkflowRun } from "./api_client.ts";
+
+const run = (id: number, extra?: Partial<WorkflowRun>): WorkflowRun =>
+  fakeWorkflowRun({ id, head_sha: `sha${id}`, ...extra });
+const job = (id: number, runId: number, runAttempt = 1): WorkflowJob =>
+  fakeWorkflowJob({
+    id,
+    name: `job${id}`,
+    run_id: runId,
+    run_attempt: runAttempt,
+  });
+
+describe(FakeGithubServer.name, () => {
+  const server = new FakeGithubServer({
+    runs: [
+      ...Array.from({ length: 150 }, (_, i) => run(i + 1)),
+      run(1000, { head_branch: "feature", run_attempt: 2 }),
+    ],
+    jobs: [job(1, 1000, 1), job(2, 1000, 2), job(3, 1000, 2)],
+    files: [{
+      owner: "owner",
+      repo: "repo",
+      path: ".github/workflows/ci.yml",
+      content: "name: CI\n",
+    }],
+    jobLogs: { 2: "2024-01-01T00:00:00.0000000Z hello\n" },
+  });
+  const github = new Github({
+    token: "token",
+    host: "github.example.com",
+    fetch: server.fetch,
+    _workaroundDenoTest: true,
+  });
+
+  it("serves paginated runs with filters", async () => {
+    const ids = [];
+    for await (const run of github.iterateWorkflowRuns("owner", "repo")) {
+      ids.push(run.id);
+    }
+    assertEquals(ids.length, 151);
+
+    const featureRuns = await github.fetchWorkflowRuns(
+      "owner",
+      "repo",
+      "feature",
+    );
+    assertEquals(featureRuns.map((run) => run.id), [1000]);
+  });
+
+  it("serves repositories that pass response validation", async () => {
+    const validating = new Github({
+      token: "token",
+      fetch: server.fetch,
+      validateResponses: true,
+      _workaroundDenoTest: true,
+    });
+    const repository = await validating.fetchRepository("owner", "repo");
+    assertEquals(repository.full_name, "owner/repo");
+    assertEquals(repository.default_branch, "main");
+
+    // Repositories without seeded runs
+    const other = await validating.fetchRepository("other", "repo");
+    assertEquals(other.full_name, "other/repo");
+  });
+
+  it("serves runs and jobs of every attempt", async () => {
+    const run = await github.fetchWorkflowRun("owner", "repo", 1000);
+    const jobs = await github.fetchWorkflowRunJobs(run, { allAttempts: true });
+    assertEquals(jobs.map((job) => job.id), [1, 2, 3]);
+  });
+
+  it("serves contents with ETag", async () => {
+    const content = await github.fetchContent({
+      owner: "owner",
+      repo: "repo",
+      path: ".github/workflows/ci.yml",
+      ref: "main",
+    });
+    assertEquals(content?.content, "name: CI\n");
+    // git hash-object of "name: CI\n"
+    assertEquals(content?.raw.sha, "58439813fe88d3d045a3093999f382522a7a7327");
+
+    const paths = await github.fetchWorkflowFilePaths("owner", "repo");
+    assertEquals(paths, [".github/workflows/ci.yml"]);
+  });
+
+  it("serves job logs", async () => {
+    const res = await github.octokit.actions.downloadJobLogsForWorkflowRun({
+      owner: "owner",
+      repo: "repo",
+      job_id: 2,
+    });
+    assertEquals(res.data, "2024-01-01T00:00:00.0000000Z hello\n");
+  });
+
+  it("responds 404 for unknown resources", async () => {
+    const content = await github.fetchContent({
+      owner: "owner",
+      repo: "repo",
+      path: "unknown.yml",
+      ref: "main",
+    });
+    assertEquals(content, undefined);
+  });
+});
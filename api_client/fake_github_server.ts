@@ -0,0 +1,563 @@
+import { encodeBase64, encodeHex } from "@std/encoding";
+import type {
+  FileContentResponse,
+  RepositoryResponse,
+  WorkflowJob,
+  WorkflowRun,
+} from "./api_client.ts";
+
+/** A file served by FakeGithubServer through the contents API */
+export type FakeGithubFile = {
+  /** Repository owner */
+  owner: string;
+  /** Repository name */
+  repo: string;
+  /** File path in the repository */
+  path: string;
+  /** File text */
+  content: string;
+  /** Git reference the file exists at. Matches any ref if omitted */
+  ref?: string;
+};
+
+/** Seed data of FakeGithubServer */
+export type FakeGithubSeed = {
+  /** Workflow runs. Their `repository` decides which repository they belong to */
+  runs?: WorkflowRun[];
+  /** Workflow jobs. `run_id` and `run_attempt` (default: 1) link them to runs */
+  jobs?: WorkflowJob[];
+  /** Files for the contents API */
+  files?: FakeGithubFile[];
+  /** Job logs by job ID */
+  jobLogs?: Record<number, string>;
+};
+
+/**
+ * Creates a repository with every field GitHub always returns, for seeding FakeGithubServer
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param overrides - Fields to override
+ * @returns Repository
+ *
+ * @example
+ * ```typescript
+ * const repository = fakeRepository("owner", "repo", { topics: ["ci"] });
+ * ```
+ */
+export function fakeRepository(
+  owner: string,
+  repo: string,
+  overrides?: Partial<RepositoryResponse>,
+): RepositoryResponse {
+  return {
+    id: 1,
+    node_id: "R_1",
+    name: repo,
+    full_name: `${owner}/${repo}`,
+    private: false,
+    owner: { login: owner, id: 1, type: "User" },
+    html_url: `https://github.com/${owner}/${repo}`,
+    description: null,
+    fork: false,
+    url: `https://api.github.com/repos/${owner}/${repo}`,
+    default_branch: "main",
+    archived: false,
+    topics: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a completed workflow run with every field GitHub always returns, for seeding FakeGithubServer
+ *
+ * URLs are derived from the `id` and the `repository` (default: owner/repo).
+ *
+ * @param overrides - Fields to override
+ * @returns Workflow run
+ *
+ * @example
+ * ```typescript
+ * const run = fakeWorkflowRun({ id: 100, head_branch: "feature" });
+ * ```
+ */
+export function fakeWorkflowRun(overrides?: Partial<WorkflowRun>): WorkflowRun {
+  const id = overrides?.id ?? 1;
+  const repository = overrides?.repository ?? fakeRepository("owner", "repo");
+  const url = `${repository.url}/actions/runs/${id}`;
+  return {
+    id,
+    name: "CI",
+    node_id: `WFR_${id}`,
+    head_branch: "main",
+    head_sha: "0000000000000000000000000000000000000000",
+    path: ".github/workflows/ci.yml",
+    display_title: "CI",
+    run_number: id,
+    run_attempt: 1,
+    event: "push",
+    status: "completed",
+    conclusion: "success",
+    workflow_id: 1,
+    url,
+    html_url: `${repository.html_url}/actions/runs/${id}`,
+    pull_requests: [],
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    run_started_at: "2024-01-01T00:00:00Z",
+    jobs_url: `${url}/jobs`,
+    logs_url: `${url}/logs`,
+    artifacts_url: `${url}/artifacts`,
+    cancel_url: `${url}/cancel`,
+    rerun_url: `${url}/rerun`,
+    workflow_url: `${repository.url}/actions/workflows/1`,
+    head_commit: null,
+    repository,
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a completed workflow job with every field GitHub always returns, for seeding FakeGithubServer
+ *
+ * @param overrides - Fields to override
+ * @returns Workflow job of the run `run_id` (default: 1) in owner/repo
+ *
+ * @example
+ * ```typescript
+ * const job = fakeWorkflowJob({ id: 10, run_id: 100, name: "test" });
+ * ```
+ */
+export function fakeWorkflowJob(overrides?: Partial<WorkflowJob>): WorkflowJob {
+  const id = overrides?.id ?? 1;
+  const runId = overrides?.run_id ?? 1;
+  const apiUrl = "https://api.github.com/repos/owner/repo";
+  return {
+    id,
+    run_id: runId,
+    run_url: `${apiUrl}/actions/runs/${runId}`,
+    run_attempt: 1,
+    node_id: `CR_${id}`,
+    head_sha: "0000000000000000000000000000000000000000",
+    head_branch: "main",
+    url: `${apiUrl}/actions/jobs/${id}`,
+    html_url: `https://github.com/owner/repo/actions/runs/${runId}/job/${id}`,
+    status: "completed",
+    conclusion: "success",
+    created_at: "2024-01-01T00:00:00Z",
+    started_at: "2024-01-01T00:00:00Z",
+    completed_at: "2024-01-01T00:01:00Z",
+    name: "test",
+    steps: [],
+    check_run_url: `${apiUrl}/check-runs/${id}`,
+    labels: ["ubuntu-latest"],
+    runner_id: null,
+    runner_name: null,
+    runner_group_id: null,
+    runner_group_name: null,
+    workflow_name: "CI",
+    ...overrides,
+  };
+}
+
+/** Route handler of FakeGithubServer */
+type Handler = (
+  match: string[],
+  url: URL,
+  request: Request,
+) => Response | Promise<Response>;
+
+/**
+ * In-process fake GitHub REST API server for offline tests
+ *
+ * Serves seeded workflow runs, jobs, job logs, file contents and blobs for
+ * the endpoints used by `Github`, with pagination and ETag support. Use `fetch`
+ * with the `Github` constructor, or pass `handle` to `Deno.serve`.
+ *
+ * Supported run filters are `branch`, `event`, `status`, `actor` and `head_sha`.
+ *
+ * @example
+ * ```typescript
+ * const server = new FakeGithubServer({ runs, jobs, files });
+ * const github = new Github({ token: "dummy", fetch: server.fetch });
+ * const fetchedRuns = await github.fetchWorkflowRuns("owner", "repo");
+ * ```
+ */
+export class FakeGithubServer {
+  /** Seeded workflow runs */
+  readonly runs: WorkflowRun[];
+  /** Seeded workflow jobs */
+  readonly jobs: WorkflowJob[];
+  /** Seeded files */
+  readonly files: FakeGithubFile[];
+  /** Seeded job logs by job ID */
+  readonly jobLogs: Record<number, string>;
+  /** Requests received by the server, for assertions */
+  readonly requests: { method: string; url: string }[] = [];
+  /** Files larger than this (bytes) are served without content, like the contents API */
+  private static readonly MAX_CONTENT_SIZE = 1024 * 1024;
+  /** Routes matched against the path without the GHES `/api/v3` prefix */
+  private readonly routes: [string, RegExp, Handler][] = [
+    [
+      "GET",
+      /^\/repos\/([^/]+)\/([^/]+)$/,
+      (m, url) => this.getRepository(m, url),
+    ],
+    [
+      "GET",
+      /^\/repos\/([^/]+)\/([^/]+)\/actions\/runs$/,
+      (m, url) => this.listRuns(m, url),
+    ],
+    [
+      "GET",
+      /^\/repos\/([^/]+)\/([^/]+)\/actions\/workflows\/([^/]+)\/runs$/,
+      (m, url) => this.listRuns(m, url, m[3]),
+    ],
+    [
+      "GET",
+      /^\/repos\/([^/]+)\/([^/]+)\/actions\/runs\/(\d+)$/,
+      (m) => this.getRun(m),
+    ],
+    [
+      "GET",
+      /^\/repos\/([^/]+)\/([^/]+)\/actions\/runs\/(\d+)\/attempts\/(\d+)$/,
+      (m) => this.getRun(m, Number(m[4])),
+    ],
+    [
+      "GET",
+      /^\/repos\/([^/]+)\/([^/]+)\/actions\/runs\/(\d+)\/attempts\/(\d+)\/jobs$/,
+      (m, url) => this.listJobs(m, url),
+    ],
+    [
+      "GET",
+      /^\/repos\/([^/]+)\/([^/]+)\/actions\/jobs\/(\d+)\/logs$/,
+      (m) => this.getJobLog(m),
+    ],
+    [
+      "GET",
+      /^\/repos\/([^/]+)\/([^/]+)\/contents\/(.+)$/,
+      (m, url, request) => this.getContent(m, url, request),
+    ],
+    [
+      "GET",
+      /^\/repos\/([^/]+)\/([^/]+)\/git\/blobs\/([0-9a-f]+)$/,
+      (m) => this.getBlob(m),
+    ],
+  ];
+
+  /**
+   * Creates a new FakeGithubServer instance
+   * @param seed - Seed data
+   */
+  constructor(seed?: FakeGithubSeed) {
+    this.runs = seed?.runs ?? [];
+    this.jobs = seed?.jobs ?? [];
+    this.files = seed?.files ?? [];
+    this.jobLogs = seed?.jobLogs ?? {};
+  }
+
+  /**
+   * Fetch-compatible function that serves requests in-process
+   * @param input - Request URL or Request
+   * @param init - Request options
+   * @returns Response
+   */
+  fetch: typeof fetch = (input, init) => this.handle(new Request(input, init));
+
+  /**
+   * Handles a request, compatible with `Deno.serve`
+   * @param request - Request
+   * @returns Response
+   */
+  handle = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    this.requests.push({ method: request.method, url: request.url });
+    const path = decodeURIComponent(url.pathname).replace(/^\/api\/v3/, "");
+    for (const [method, pattern, handler] of this.routes) {
+      const match = path.match(pattern);
+      if (request.method === method && match) {
+        return FakeGithubServer.withUrl(
+          await handler(match, url, request),
+          request.url,
+        );
+      }
+    }
+    return FakeGithubServer.withUrl(FakeGithubServer.notFound(), request.url);
+  };
+
+  /**
+   * GET /repos/{owner}/{repo}
+   * @param match - Route match
+   * @param url - Request URL
+   * @returns Repository, overridden by the `repository` of a seeded run
+   */
+  private getRepository([, owner, repo]: string[], url: URL): Response {
+    const seeded = this.runsOf(owner, repo)[0]?.repository;
+    return FakeGithubServer.json({
+      ...fakeRepository(owner, repo, { url: url.toString() }),
+      ...seeded,
+    });
+  }
+
+  /**
+   * GET /repos/{owner}/{repo}/actions/runs and the per-workflow variant
+   * @param match - Route match
+   * @param url - Request URL
+   * @param workflowId - Workflow ID or file name
+   * @returns Paginated workflow runs
+   */
+  private listRuns(
+    [, owner, repo]: string[],
+    url: URL,
+    workflowId?: string,
+  ): Response {
+    const params = url.searchParams;
+    const runs = this.runsOf(owner, repo).filter((run) => {
+      if (
+        workflowId !== undefined &&
+        String(run.workflow_id) !== workflowId &&
+        run.path.split("/").at(-1) !== workflowId
+      ) return false;
+      if (params.has("branch") && run.head_branch !== params.get("branch")) {
+        return false;
+      }
+      if (params.has("event") && run.event !== params.get("event")) {
+        return false;
+      }
+      if (
+        params.has("status") && run.status !== params.get("status") &&
+        run.conclusion !== params.get("status")
+      ) return false;
+      if (
+        params.has("actor") && run.actor?.login !== params.get("actor")
+      ) return false;
+      if (params.has("head_sha") && run.head_sha !== params.get("head_sha")) {
+        return false;
+      }
+      return true;
+    });
+    return FakeGithubServer.paginate(url, runs, "workflow_runs");
+  }
+
+  /**
+   * GET /repos/{owner}/{repo}/actions/runs/{run_id}[/attempts/{attempt_number}]
+   * @param match - Route match
+   * @param attempt - Run attempt number
+   * @returns Workflow run
+   */
+  private getRun(
+    [, owner, repo, runId]: string[],
+    attempt?: number,
+  ): Response {
+    const run = this.runsOf(owner, repo).find((run) =>
+      run.id === Number(runId)
+    );
+    if (run === undefined) return FakeGithubServer.notFound();
+    if (attempt === undefined) return FakeGithubServer.json(run);
+    if (attempt > (run.run_attempt ?? 1)) return FakeGithubServer.notFound();
+    return FakeGithubServer.json({ ...run, run_attempt: attempt });
+  }
+
+  /**
+   * GET /repos/{owner}/{repo}/actions/runs/{run_id}/attempts/{attempt_number}/jobs
+   * @param match - Route match
+   * @param url - Request URL
+   * @returns Paginated workflow jobs
+   */
+  private listJobs(
+    [, owner, repo, runId, attempt]: string[],
+    url: URL,
+  ): Response {
+    const run = this.runsOf(owner, repo).find((run) =>
+      run.id === Number(runId)
+    );
+    if (run === undefined) return FakeGithubServer.notFound();
+    const jobs = this.jobs.filter((job) =>
+      job.run_id === run.id && (job.run_attempt ?? 1) === Number(attempt)
+    );
+    return FakeGithubServer.paginate(url, jobs, "jobs");
+  }
+
+  /**
+   * GET /repos/{owner}/{repo}/actions/jobs/{job_id}/logs
+   * @param match - Route match
+   * @returns Job log text
+   */
+  private getJobLog([, , , jobId]: string[]): Response {
+    const log = this.jobLogs[Number(jobId)];
+    if (log === undefined) return FakeGithubServer.notFound();
+    return new Response(log, {
+      headers: { "content-type": "text/plain; charset=utf-8" },
+    });
+  }
+
+  /**
+   * GET /repos/{owner}/{repo}/contents/{path}
+   * @param match - Route match
+   * @param url - Request URL
+   * @param request - Request
+   * @returns File content, directory entries, or 304 when the ETag matches
+   */
+  private async getContent(
+    [, owner, repo, path]: string[],
+    url: URL,
+    request: Request,
+  ): Promise<Response> {
+    const ref = url.searchParams.get("ref");
+    const files = this.files.filter((file) =>
+      file.owner === owner && file.repo === repo &&
+      (file.ref === undefined || ref === null || file.ref === ref)
+    );
+
+    const file = files.find((file) => file.path === path);
+    if (file === undefined) {
+      const dirPrefix = `${path.replace(/\/$/, "")}/`;
+      const names = new Set(
+        files.filter((file) => file.path.startsWith(dirPrefix))
+          .map((file) => file.path.slice(dirPrefix.length).split("/")[0]),
+      );
+      if (names.size === 0) return FakeGithubServer.notFound();
+      return FakeGithubServer.json([...names].map((name) => ({
+        type: files.some((file) => file.path === `${dirPrefix}${name}`)
+          ? "file"
+          : "dir",
+        name,
+        path: `${dirPrefix}${name}`,
+      })));
+    }
+
+    const bytes = new TextEncoder().encode(file.content);
+    const sha = await FakeGithubServer.gitBlobSha(bytes);
+    const etag = `"${sha}"`;
+    if (request.headers.get("if-none-match") === etag) {
+      return new Response(null, { status: 304, headers: { etag } });
+    }
+    const htmlUrl = `https://github.com/${owner}/${repo}/blob/${
+      ref ?? "main"
+    }/${path}`;
+    // Like GitHub, the content of files over 1 MB is only served by the blobs API
+    const tooLarge = bytes.byteLength > FakeGithubServer.MAX_CONTENT_SIZE;
+    const body: FileContentResponse = {
+      type: "file",
+      size: bytes.byteLength,
+      name: path.split("/").at(-1)!,
+      path,
+      content: tooLarge ? "" : encodeBase64(bytes),
+      encoding: tooLarge ? "none" : "base64",
+      sha,
+      url: url.toString(),
+      git_url: null,
+      html_url: htmlUrl,
+      download_url: null,
+    };
+    return FakeGithubServer.json(body, { etag });
+  }
+
+  /**
+   * GET /repos/{owner}/{repo}/git/blobs/{file_sha}
+   * @param match - Route match
+   * @returns Base64 encoded blob of a seeded file
+   */
+  private async getBlob([, owner, repo, sha]: string[]): Promise<Response> {
+    for (const file of this.files) {
+      if (file.owner !== owner || file.repo !== repo) continue;
+      const bytes = new TextEncoder().encode(file.content);
+      if (await FakeGithubServer.gitBlobSha(bytes) !== sha) continue;
+      return FakeGithubServer.json({
+        sha,
+        size: bytes.byteLength,
+        content: encodeBase64(bytes),
+        encoding: "base64",
+      });
+    }
+    return FakeGithubServer.notFound();
+  }
+
+  /**
+   * Gets seeded runs of a repository
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Array of workflow runs
+   */
+  private runsOf(owner: string, repo: string): WorkflowRun[] {
+    return this.runs.filter((run) =>
+      run.repository.owner.login === owner && run.repository.name === repo
+    );
+  }
+
+  /**
+   * Creates a paginated list response with a Link header like the GitHub API
+   * @param url - Request URL with `page` and `per_page`
+   * @param items - All items
+   * @param key - Property name of the items
+   * @returns List response
+   */
+  private static paginate(url: URL, items: unknown[], key: string): Response {
+    const perPage = Number(url.searchParams.get("per_page") ?? 30);
+    const page = Number(url.searchParams.get("page") ?? 1);
+    const headers: Record<string, string> = {};
+    if (page * perPage < items.length) {
+      const next = new URL(url);
+      next.searchParams.set("page", String(page + 1));
+      headers.link = `<${next}>; rel="next"`;
+    }
+    return FakeGithubServer.json({
+      total_count: items.length,
+      [key]: items.slice((page - 1) * perPage, page * perPage),
+    }, headers);
+  }
+
+  /**
+   * Sets `response.url`, which Octokit reads and a constructed Response lacks
+   * @param response - Response
+   * @param url - Request URL
+   * @returns The same response
+   */
+  private static withUrl(response: Response, url: string): Response {
+    Object.defineProperty(response, "url", { value: url });
+    return response;
+  }
+
+  /**
+   * Creates a JSON response
+   * @param body - Response body
+   * @param headers - Additional headers
+   * @param status - Response status (default: 200)
+   * @returns JSON response
+   */
+  private static json(
+    body: unknown,
+    headers?: Record<string, string>,
+    status = 200,
+  ): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: {
+        "content-type": "application/json; charset=utf-8",
+        ...headers,
+      },
+    });
+  }
+
+  /**
+   * Creates a 404 response like the GitHub API
+   * @returns 404 response
+   */
+  private static notFound(): Response {
+    return FakeGithubServer.json({ message: "Not Found" }, undefined, 404);
+  }
+
+  /**
+   * Computes the git blob SHA-1 of a file, which GitHub uses as its `sha`
+   * @param bytes - File data
+   * @returns Hex encoded SHA-1
+   */
+  private static async gitBlobSha(bytes: Uint8Array): Promise<string> {
+    const header = new TextEncoder().encode(`blob ${bytes.byteLength}\0`);
+    const digest = await crypto.subtle.digest(
+      "SHA-1",
+      new Uint8Array([...header, ...bytes]),
+    );
+    return encodeHex(digest);
+  }
+}
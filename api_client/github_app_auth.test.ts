@@ -0,0 +1,189 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { beforeAll, describe, it } from "@std/testing/bdd";
+import { stub } from "@std/testing/mock";
+import { decodeBase64, encodeBase64 } from "@std/encoding";
+import { GithubAppAuth, type GithubAppAuthRequest } from "./github_app_auth.ts";
+import { Github } from "./api_client.ts";
+
+const toPem = (label: string, der: Uint8Array) =>
+  `-----BEGIN ${label}-----\n${
+    encodeBase64(der).match(/.{1,64}/g)!.join("\n")
+  }\n-----END ${label}-----\n`;
+
+const decodeJwtPart = (part: string) =>
+  JSON.parse(
+    new TextDecoder().decode(
+      decodeBase64(part.replace(/-/g, "+").replace(/_/g, "/")),
+    ),
+  );
+
+describe(GithubAppAuth.name, () => {
+  let keyPair: CryptoKeyPair;
+  let pkcs8Pem: string;
+  let pkcs1Pem: string;
+
+  beforeAll(async () => {
+    keyPair = await crypto.subtle.generateKey(
+      {
+        name: "RSASSA-PKCS1-v1_5",
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: "SHA-256",
+      },
+      true,
+      ["sign", "verify"],
+    );
+    const pkcs8 = new Uint8Array(
+      await crypto.subtle.exportKey("pkcs8", keyPair.privateKey),
+    );
+    pkcs8Pem = toPem("PRIVATE KEY", pkcs8);
+    // For a 2048-bit key, the PKCS#1 key follows a 26-byte PKCS#8 header
+    pkcs1Pem = toPem("RSA PRIVATE KEY", pkcs8.slice(26));
+  });
+
+  const verifyJwt = async (jwt: string) => {
+    const [header, payload, signature] = jwt.split(".");
+    return await crypto.subtle.verify(
+      "RSASSA-PKCS1-v1_5",
+      keyPair.publicKey,
+      decodeBase64(signature.replace(/-/g, "+").replace(/_/g, "/")),
+      new TextEncoder().encode(`${header}.${payload}`),
+    );
+  };
+
+  const noRequest: GithubAppAuthRequest = () =>
+    Promise.reject(new Error("unexpected request"));
+
+  describe("createJwt", () => {
+    it("signs with PKCS#8 key", async () => {
+      const auth = new GithubAppAuth(
+        { appId: 123, privateKey: pkcs8Pem, installationId: 1 },
+        noRequest,
+      );
+      const jwt = await auth.createJwt();
+      assert(await verifyJwt(jwt));
+      const [header, payload] = jwt.split(".").slice(0, 2).map(
+        decodeJwtPart,
+      );
+      assertEquals(header, { alg: "RS256", typ: "JWT" });
+      assertEquals(payload.iss, "123");
+      assertEquals(payload.exp - payload.iat, 600);
+    });
+
+    it("signs with PKCS#1 key", async () => {
+      const auth = new GithubAppAuth(
+        { appId: 123, privateKey: pkcs1Pem, installationId: 1 },
+        noRequest,
+      );
+      assert(await verifyJwt(await auth.createJwt()));
+    });
+  });
+
+  describe("getInstallationToken", () => {
+    const createFakeRequest = (expiresInMsec: number) => {
+      const routes: string[] = [];
+      const request: GithubAppAuthRequest = (route) => {
+        routes.push(route);
+        if (route === "GET /repos/{owner}/{repo}/installation") {
+          return Promise.resolve({ data: { id: 42 } });
+        }
+        return Promise.resolve({
+          data: {
+            token: `token${routes.length}`,
+            expires_at: new Date(Date.now() + expiresInMsec).toISOString(),
+          },
+        });
+      };
+      return { routes, request };
+    };
+
+    it("discovers installation by repo and caches the token", async () => {
+      const { routes, request } = createFakeRequest(60 * 60 * 1000);
+      const auth = new GithubAppAuth(
+        { appId: 123, privateKey: pkcs8Pem, owner: "owner", repo: "repo" },
+        request,
+      );
+      const tokens = await Promise.all([
+        auth.getInstallationToken(),
+        auth.getInstallationToken(),
+      ]);
+      assertEquals(tokens, ["token2", "token2"]);
+      assertEquals(await auth.getInstallationToken(), "token2");
+      assertEquals(routes, [
+        "GET /repos/{owner}/{repo}/installation",
+        "POST /app/installations/{installation_id}/access_tokens",
+      ]);
+    });
+
+    it("refreshes the token before it expires", async () => {
+      const { routes, request } = createFakeRequest(60 * 60 * 1000);
+      const auth = new GithubAppAuth(
+        { appId: 123, privateKey: pkcs8Pem, installationId: 1 },
+        request,
+      );
+      assertEquals(await auth.getInstallationToken(), "token1");
+
+      // 4 minutes before expiration
+      const now = Date.now();
+      using _dateStub = stub(Date, "now", () => now + 56 * 60 * 1000);
+      assertEquals(await auth.getInstallationToken(), "token2");
+      assertEquals(routes.length, 2);
+    });
+
+    it("retries after a failure", async () => {
+      let count = 0;
+      const auth = new GithubAppAuth(
+        { appId: 123, privateKey: pkcs8Pem, installationId: 1 },
+        () => {
+          count++;
+          return count === 1
+            ? Promise.reject(new Error("network down"))
+            : Promise.resolve({
+              data: { token: "token", expires_at: "2999-01-01T00:00:00Z" },
+            });
+        },
+      );
+      await assertRejects(() => auth.getInstallationToken(), Error);
+      assertEquals(await auth.getInstallationToken(), "token");
+    });
+  });
+
+  it("Github sends requests with the installation token", async () => {
+    using fetchStub = stub(
+      globalThis,
+      "fetch",
+      (input: string | URL | Request) => {
+        const url = new URL(input instanceof Request ? input.url : input);
+        const body = url.pathname.endsWith("/access_tokens")
+          ? { token: "ghs_xxx", expires_at: "2999-01-01T00:00:00Z" }
+          : { name: "repo", owner: { login: "owner" } };
+        return Promise.resolve(
+          new Response(JSON.stringify(body), {
+            status: 200,
+            headers: { "content-type": "application/json" },
+          }),
+        );
+      },
+    );
+    const github = new Github({
+      host: "github.example.com",
+      app: { appId: 123, privateKey: pkcs8Pem, installationId: 1 },
+      _workaroundDenoTest: true,
+    });
+    await github.fetchRepository("owner", "repo");
+
+    const requests = fetchStub.calls.map((call) => ({
+      url: String(call.args[0]),
+      authorization: new Headers(call.args[1]?.headers).get("authorization"),
+    }));
+    assertEquals(
+      requests[0].url,
+      "https://github.example.com/api/v3/app/installations/1/access_tokens",
+    );
+    assert(requests[0].authorization?.startsWith("bearer "));
+    assertEquals(requests[1], {
+      url: "https://github.example.com/api/v3/repos/owner/repo",
+      authorization: "token ghs_xxx",
+    });
+  });
+});
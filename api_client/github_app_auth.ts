@@ -0,0 +1,260 @@
+import { decodeBase64, encodeBase64Url } from "@std/encoding";
+
+/** Options to authenticate as a GitHub App installation */
+export type GithubAppAuthOptions = {
+  /** GitHub App ID */
+  appId: number | string;
+  /** PEM encoded private key of the App (PKCS#1 or PKCS#8) */
+  privateKey: string;
+  /** Installation ID. Discovered from `owner`/`repo` if omitted */
+  installationId?: number;
+  /** Owner (organization or user) of the installation, used for discovery */
+  owner?: string;
+  /** Repository of the installation, used for discovery */
+  repo?: string;
+};
+
+/**
+ * Function that sends a GitHub REST API request, e.g. `octokit.request`
+ *
+ * The `headers.authorization` given by GithubAppAuth must be sent as-is.
+ */
+export type GithubAppAuthRequest = (
+  route: string,
+  params: Record<string, unknown>,
+) => Promise<{ data: unknown }>;
+
+/** Installation access token with its expiration time */
+type InstallationToken = {
+  token: string;
+  /** Epoch milliseconds */
+  expiresAt: number;
+};
+
+/**
+ * Authenticates as a GitHub App installation
+ *
+ * Signs a JWT with the App private key, exchanges it for an installation
+ * access token and refreshes the token before it expires. Requests are sent
+ * through the given request function, so GHES base URLs work as they are.
+ *
+ * @example
+ * ```typescript
+ * const auth = new GithubAppAuth(
+ *   { appId: 12345, privateKey, owner: "owner", repo: "repo" },
+ *   octokit.request,
+ * );
+ * const token = await auth.getInstallationToken();
+ * ```
+ */
+export class GithubAppAuth {
+  /** Refresh the token when it expires within this period (msec) */
+  private static readonly REFRESH_MARGIN = 5 * 60 * 1000;
+  /** Auth options */
+  private readonly options: GithubAppAuthOptions;
+  /** Function to send requests */
+  private readonly request: GithubAppAuthRequest;
+  /** Resolved installation ID */
+  private installationId?: number;
+  /** Imported signing key */
+  private signingKey?: Promise<CryptoKey>;
+  /** Current or pending installation token */
+  private installationToken?: Promise<InstallationToken>;
+
+  /**
+   * Creates a new GithubAppAuth instance
+   * @param options - GitHub App auth options
+   * @param request - Function to send requests, e.g. `octokit.request`
+   */
+  constructor(options: GithubAppAuthOptions, request: GithubAppAuthRequest) {
+    if (options.installationId === undefined && options.owner === undefined) {
+      throw new Error(
+        "GitHub App auth requires either installationId or owner to discover the installation",
+      );
+    }
+    this.options = options;
+    this.request = request;
+    this.installationId = options.installationId;
+  }
+
+  /**
+   * Gets a valid installation access token
+   *
+   * The token is cached and refreshed 5 minutes before it expires.
+   * Concurrent calls share the same refresh request.
+   *
+   * @returns Installation access token
+   */
+  async getInstallationToken(): Promise<string> {
+    const current = this.installationToken ??= this.createInstallationToken();
+    const token = await this.settleInstallationToken(current);
+    if (token.expiresAt - Date.now() >= GithubAppAuth.REFRESH_MARGIN) {
+      return token.token;
+    }
+
+    // Concurrent callers share the same refresh request
+    if (this.installationToken === current) {
+      this.installationToken = this.createInstallationToken();
+    }
+    return (await this.settleInstallationToken(this.installationToken!)).token;
+  }
+
+  /**
+   * Awaits an installation token, forgetting it on failure so that the next call retries
+   * @param pending - Pending installation token
+   * @returns Installation token
+   */
+  private async settleInstallationToken(
+    pending: Promise<InstallationToken>,
+  ): Promise<InstallationToken> {
+    try {
+      return await pending;
+    } catch (error) {
+      if (this.installationToken === pending) {
+        this.installationToken = undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a JWT to authenticate as the App itself
+   *
+   * @returns Signed JWT valid for 9 minutes
+   * @see https://docs.github.com/en/apps/creating-github-apps/authenticating-with-a-github-app/generating-a-json-web-token-jwt-for-a-github-app
+   */
+  async createJwt(): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    const encoder = new TextEncoder();
+    const header = encodeBase64Url(
+      encoder.encode(JSON.stringify({ alg: "RS256", typ: "JWT" })),
+    );
+    const payload = encodeBase64Url(encoder.encode(JSON.stringify({
+      // Issued 60 seconds in the past to allow for clock drift
+      iat: now - 60,
+      exp: now + 9 * 60,
+      iss: String(this.options.appId),
+    })));
+
+    this.signingKey ??= GithubAppAuth.importPrivateKey(this.options.privateKey);
+    const signature = await crypto.subtle.sign(
+      "RSASSA-PKCS1-v1_5",
+      await this.signingKey,
+      encoder.encode(`${header}.${payload}`),
+    );
+    return `${header}.${payload}.${encodeBase64Url(signature)}`;
+  }
+
+  /**
+   * Exchanges a JWT for a new installation access token
+   * @returns Installation access token
+   */
+  private async createInstallationToken(): Promise<InstallationToken> {
+    const installationId = await this.resolveInstallationId();
+    const res = await this.request(
+      "POST /app/installations/{installation_id}/access_tokens",
+      {
+        installation_id: installationId,
+        headers: { authorization: `bearer ${await this.createJwt()}` },
+      },
+    );
+    const data = res.data as { token: string; expires_at: string };
+    return { token: data.token, expiresAt: Date.parse(data.expires_at) };
+  }
+
+  /**
+   * Resolves the installation ID, discovering it from owner/repo if needed
+   * @returns Installation ID
+   */
+  private async resolveInstallationId(): Promise<number> {
+    if (this.installationId !== undefined) return this.installationId;
+
+    const { owner, repo } = this.options;
+    const headers = { authorization: `bearer ${await this.createJwt()}` };
+    let res: { data: unknown };
+    if (repo !== undefined) {
+      res = await this.request("GET /repos/{owner}/{repo}/installation", {
+        owner,
+        repo,
+        headers,
+      });
+    } else {
+      res = await this.request("GET /orgs/{org}/installation", {
+        org: owner,
+        headers,
+      }).catch((error) => {
+        // owner is not an organization, try as a user
+        if ((error as { status?: number }).status !== 404) throw error;
+        return this.request("GET /users/{username}/installation", {
+          username: owner,
+          headers,
+        });
+      });
+    }
+    this.installationId = (res.data as { id: number }).id;
+    return this.installationId;
+  }
+
+  /**
+   * Imports a PEM encoded RSA private key for RS256 signing
+   * @param pem - PKCS#1 ("BEGIN RSA PRIVATE KEY") or PKCS#8 ("BEGIN PRIVATE KEY") PEM
+   * @returns Signing key
+   */
+  private static importPrivateKey(pem: string): Promise<CryptoKey> {
+    const isPkcs1 = pem.includes("BEGIN RSA PRIVATE KEY");
+    const der = decodeBase64(
+      pem.replace(/-----(BEGIN|END) [A-Z ]+-----/g, "").replace(/\s/g, ""),
+    );
+    return crypto.subtle.importKey(
+      "pkcs8",
+      isPkcs1 ? GithubAppAuth.pkcs1ToPkcs8(der) : der,
+      { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+  }
+
+  /**
+   * Wraps a PKCS#1 RSA private key into PKCS#8, which WebCrypto requires
+   * @param pkcs1 - DER encoded PKCS#1 key
+   * @returns DER encoded PKCS#8 key
+   */
+  private static pkcs1ToPkcs8(pkcs1: Uint8Array): Uint8Array<ArrayBuffer> {
+    const derLength = (length: number): number[] => {
+      if (length < 0x80) return [length];
+      const bytes = [];
+      for (let n = length; n > 0; n >>= 8) bytes.unshift(n & 0xff);
+      return [0x80 | bytes.length, ...bytes];
+    };
+    // version INTEGER 0, AlgorithmIdentifier { rsaEncryption, NULL }
+    const prefix = [
+      0x02,
+      0x01,
+      0x00,
+      0x30,
+      0x0d,
+      0x06,
+      0x09,
+      0x2a,
+      0x86,
+      0x48,
+      0x86,
+      0xf7,
+      0x0d,
+      0x01,
+      0x01,
+      0x01,
+      0x05,
+      0x00,
+    ];
+    const octetString = [0x04, ...derLength(pkcs1.length)];
+    const bodyLength = prefix.length + octetString.length + pkcs1.length;
+    return new Uint8Array([
+      0x30,
+      ...derLength(bodyLength),
+      ...prefix,
+      ...octetString,
+      ...pkcs1,
+    ]);
+  }
+}
@@ -0,0 +1,63 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { join } from "@std/path";
+import { FakeGithubServer, fakeWorkflowRun } from "./fake_github_server.ts";
+import { Github } from "./api_client.ts";
+import type { HttpFixtureEntry } from "./http_fixture.ts";
+
+describe("HttpFixture", () => {
+  const server = new FakeGithubServer({
+    runs: [fakeWorkflowRun({ id: 1, head_sha: "sha" })],
+    files: [{
+      owner: "owner",
+      repo: "repo",
+      path: ".github/workflows/ci.yml",
+      content: "name: CI\n",
+    }],
+  });
+
+  it("replays recorded responses without network", async () => {
+    const dir = await Deno.makeTempDir();
+    const path = join(dir, "fixture.json");
+    try {
+      const recorder = new Github({
+        token: "secret",
+        fetch: server.fetch,
+        httpFixture: { mode: "record", path },
+        _workaroundDenoTest: true,
+      });
+      const recordedRun = await recorder.fetchWorkflowRun("owner", "repo", 1);
+      const [recordedFile] = await recorder.fetchWorkflowFiles([recordedRun]);
+
+      const fixture = JSON.parse(
+        await Deno.readTextFile(path),
+      ) as HttpFixtureEntry[];
+      assertEquals(fixture.map((entry) => [entry.method, entry.url]), [
+        ["GET", "https://api.github.com/repos/owner/repo/actions/runs/1"],
+        [
+          "GET",
+          "https://api.github.com/repos/owner/repo/contents/.github%2Fworkflows%2Fci.yml?ref=sha",
+        ],
+      ]);
+      // Request headers are not recorded
+      assertEquals((await Deno.readTextFile(path)).includes("secret"), false);
+
+      const player = new Github({
+        token: "secret",
+        httpFixture: { mode: "replay", path },
+      });
+      const replayedRun = await player.fetchWorkflowRun("owner", "repo", 1);
+      const [replayedFile] = await player.fetchWorkflowFiles([replayedRun]);
+      assertEquals(replayedRun, recordedRun);
+      assertEquals(replayedFile?.content, recordedFile?.content);
+
+      await assertRejects(
+        () => player.fetchWorkflowRun("owner", "repo", 2),
+        Error,
+        "No recorded response for GET",
+      );
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+});
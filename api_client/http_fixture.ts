@@ -0,0 +1,136 @@
+import { decodeBase64, encodeBase64 } from "@std/encoding";
+
+/** A recorded HTTP request and its response */
+export type HttpFixtureEntry = {
+  /** Request method */
+  method: string;
+  /** Request URL including the query string */
+  url: string;
+  /** Response status */
+  status: number;
+  /** Response headers */
+  headers: Record<string, string>;
+  /** Response body, base64 encoded when `bodyEncoding` is "base64" */
+  body: string;
+  /** Encoding of `body` for binary responses */
+  bodyEncoding?: "base64";
+};
+
+/** Options to record or replay HTTP fixtures */
+export type HttpFixtureOptions = {
+  /** "record" saves every response to the file, "replay" serves responses from it */
+  mode: "record" | "replay";
+  /** Path of the JSON fixture file */
+  path: string;
+};
+
+/**
+ * Creates a fetch that records every request and response to a fixture file
+ *
+ * The file is rewritten after each response, so it is complete even if the
+ * process exits early. Request headers (including authorization) are never saved.
+ *
+ * @param path - Path of the JSON fixture file
+ * @param baseFetch - Fetch to send actual requests (defaults to global fetch)
+ * @returns Recording fetch
+ *
+ * @example
+ * ```typescript
+ * const fetch = createRecordingFetch("./fixtures/github.json");
+ * ```
+ */
+export function createRecordingFetch(
+  path: string,
+  baseFetch: typeof fetch = (input, init) => globalThis.fetch(input, init),
+): typeof fetch {
+  const entries: HttpFixtureEntry[] = [];
+  let writing = Promise.resolve();
+
+  return async (input, init) => {
+    const request = new Request(input, init);
+    const response = await baseFetch(request);
+    const body = new Uint8Array(await response.clone().arrayBuffer());
+    const isText = isTextContentType(response.headers.get("content-type"));
+    entries.push({
+      method: request.method,
+      // Redirects (e.g. log downloads) are replayed for the original URL
+      url: request.url,
+      status: response.status,
+      // The body is saved decoded, so encoding and length no longer apply
+      headers: Object.fromEntries(
+        [...response.headers].filter(([name]) =>
+          name !== "content-encoding" && name !== "content-length"
+        ),
+      ),
+      body: isText ? new TextDecoder().decode(body) : encodeBase64(body),
+      bodyEncoding: isText ? undefined : "base64",
+    });
+    // Serialize writes of concurrent requests
+    writing = writing.then(() =>
+      Deno.writeTextFile(path, JSON.stringify(entries, null, 2))
+    );
+    await writing;
+    return response;
+  };
+}
+
+/**
+ * Creates a fetch that serves responses from a fixture file without network
+ *
+ * Requests are matched by method and URL. Entries with the same key are served
+ * in recorded order, and the last one is repeated once all are consumed.
+ *
+ * @param path - Path of the JSON fixture file
+ * @returns Replaying fetch that throws when no entry matches
+ *
+ * @example
+ * ```typescript
+ * const fetch = createReplayFetch("./fixtures/github.json");
+ * ```
+ */
+export function createReplayFetch(path: string): typeof fetch {
+  let fixture: Promise<Map<string, HttpFixtureEntry[]>> | undefined;
+  const served = new Map<string, number>();
+
+  return async (input, init) => {
+    fixture ??= Deno.readTextFile(path).then((text) => {
+      const map = new Map<string, HttpFixtureEntry[]>();
+      for (const entry of JSON.parse(text) as HttpFixtureEntry[]) {
+        const key = `${entry.method} ${entry.url}`;
+        map.set(key, [...(map.get(key) ?? []), entry]);
+      }
+      return map;
+    });
+
+    const request = new Request(input, init);
+    const key = `${request.method} ${request.url}`;
+    const entries = (await fixture).get(key);
+    if (entries === undefined) {
+      throw new Error(`No recorded response for ${key} in ${path}`);
+    }
+    const count = served.get(key) ?? 0;
+    served.set(key, count + 1);
+    const entry = entries[Math.min(count, entries.length - 1)];
+
+    const body = entry.bodyEncoding === "base64"
+      ? decodeBase64(entry.body)
+      : entry.body;
+    const response = new Response(
+      // Null body statuses can not have a body
+      [101, 204, 205, 304].includes(entry.status) ? null : body,
+      { status: entry.status, headers: entry.headers },
+    );
+    Object.defineProperty(response, "url", { value: entry.url });
+    return response;
+  };
+}
+
+/**
+ * Checks if a response body can be saved as text
+ * @param contentType - Content-Type header
+ * @returns True for JSON and text responses
+ */
+function isTextContentType(contentType: string | null): boolean {
+  if (contentType === null) return true;
+  return /json|^text\/|charset=/.test(contentType);
+}
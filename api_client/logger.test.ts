@@ -0,0 +1,31 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { stub } from "@std/testing/mock";
+import { createConsoleLogger } from "./logger.ts";
+
+describe(createConsoleLogger.name, () => {
+  it("Writes messages at or above the level with fields", () => {
+    using debugStub = stub(console, "debug");
+    using warnStub = stub(console, "warn");
+    using errorStub = stub(console, "error");
+    const logger = createConsoleLogger();
+
+    logger.debug("debug message");
+    logger.warn("warn message", { route: "/repos/{owner}/{repo}" });
+    logger.error("error message");
+    assertEquals(debugStub.calls.length, 0);
+    assertEquals(warnStub.calls[0].args, [
+      "warn message",
+      { route: "/repos/{owner}/{repo}" },
+    ]);
+    assertEquals(errorStub.calls[0].args, ["error message"]);
+  });
+
+  it("Writes debug messages with level debug", () => {
+    using debugStub = stub(console, "debug");
+    const logger = createConsoleLogger({ level: "debug" });
+
+    logger.debug("debug message");
+    assertEquals(debugStub.calls.length, 1);
+  });
+});
@@ -0,0 +1,84 @@
+/** Log levels in ascending order of severity */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Structured fields attached to a log message */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger used by the GitHub API client
+ *
+ * Any object with these methods can be passed as the `logger` option,
+ * e.g. a wrapper of a structured logging library.
+ */
+export type Logger = {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+};
+
+/** Request about to be sent, passed to the `onRequest` hook */
+export type RequestStartEvent = {
+  /** HTTP method */
+  method: string;
+  /** Octokit route, e.g. "/repos/{owner}/{repo}/contents/{path}" */
+  route: string;
+};
+
+/** Completed request, passed to the `onResponse` hook */
+export type RequestTraceEvent = RequestStartEvent & {
+  /** HTTP status, or undefined if no response was received or no request was sent */
+  status?: number;
+  /** Time from sending the request to the final response, including retries (msec) */
+  durationMs: number;
+  /** True when the result was served from the content cache (including 304 revalidations) */
+  cacheHit: boolean;
+  /** Error of a failed request */
+  error?: unknown;
+};
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * Creates a logger that writes to the console
+ *
+ * Structured fields are passed to the console as an object after the message.
+ *
+ * @param options - Logger options
+ * @param options.level - Minimum level to write (default: "warn")
+ * @returns Console logger
+ *
+ * @example
+ * ```typescript
+ * const github = new Github({ logger: createConsoleLogger({ level: "info" }) });
+ * ```
+ */
+export function createConsoleLogger(options?: { level?: LogLevel }): Logger {
+  const minLevel = LOG_LEVELS.indexOf(options?.level ?? "warn");
+  const write = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    if (LOG_LEVELS.indexOf(level) < minLevel) return;
+    if (fields === undefined) console[level](message);
+    else console[level](message, fields);
+  };
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+  };
+}
+
+/**
+ * Logger that discards every message
+ *
+ * @example
+ * ```typescript
+ * const github = new Github({ logger: silentLogger });
+ * ```
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
@@ -0,0 +1,101 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { RequestLedger } from "./request_ledger.ts";
+
+const runsRoute = "GET /repos/{owner}/{repo}/actions/runs";
+const contentRoute = "GET /repos/{owner}/{repo}/contents/{path}";
+const rateLimitHeaders = (used: number, reset = "1700000000") => ({
+  "x-ratelimit-used": String(used),
+  "x-ratelimit-reset": reset,
+  "x-ratelimit-resource": "core",
+});
+
+describe(RequestLedger.name, () => {
+  it("Attributes rate limit consumption to each route", () => {
+    const ledger = new RequestLedger();
+    ledger.recordRequest(runsRoute, {
+      status: 200,
+      headers: rateLimitHeaders(10),
+    });
+    ledger.recordRequest(contentRoute, {
+      status: 200,
+      headers: rateLimitHeaders(11),
+    });
+    ledger.recordRequest(runsRoute, {
+      status: 200,
+      headers: rateLimitHeaders(12),
+    });
+    // 304 does not consume the rate limit
+    ledger.recordRequest(contentRoute, {
+      status: 304,
+      headers: rateLimitHeaders(12),
+    });
+    ledger.recordCacheHit(contentRoute);
+
+    assertEquals(ledger.entries(), [
+      {
+        route: runsRoute,
+        requests: 2,
+        cacheHits: 0,
+        errors: 0,
+        rateLimitConsumed: 2,
+      },
+      {
+        route: contentRoute,
+        requests: 2,
+        cacheHits: 1,
+        errors: 0,
+        rateLimitConsumed: 1,
+      },
+    ]);
+    assertEquals(ledger.totalRateLimitConsumed, 3);
+  });
+
+  it("Counts the first response of a rate limit window as 1", () => {
+    const ledger = new RequestLedger();
+    ledger.recordRequest(runsRoute, {
+      status: 200,
+      headers: rateLimitHeaders(4999),
+    });
+    ledger.recordRequest(runsRoute, {
+      status: 200,
+      headers: rateLimitHeaders(3, "1700003600"),
+    });
+    ledger.recordRequest(runsRoute, {
+      status: 200,
+      headers: rateLimitHeaders(5, "1700003600"),
+    });
+    assertEquals(ledger.totalRateLimitConsumed, 4);
+  });
+
+  it("Counts responses arriving out of order once", () => {
+    const ledger = new RequestLedger();
+    for (const used of [10, 13, 11, 12, 14]) {
+      ledger.recordRequest(runsRoute, {
+        status: 200,
+        headers: rateLimitHeaders(used),
+      });
+    }
+    // A late response of the previous window does not reset the baseline of the current one
+    ledger.recordRequest(runsRoute, {
+      status: 200,
+      headers: rateLimitHeaders(4999, "1699996400"),
+    });
+    ledger.recordRequest(runsRoute, {
+      status: 200,
+      headers: rateLimitHeaders(15),
+    });
+    assertEquals(ledger.totalRateLimitConsumed, 7);
+  });
+
+  it("Counts failed requests as errors", () => {
+    const ledger = new RequestLedger();
+    ledger.recordRequest(runsRoute, { status: 404 });
+    ledger.recordRequest(runsRoute);
+    assertEquals(ledger.entries()[0].errors, 2);
+    assertEquals(ledger.entries()[0].rateLimitConsumed, 0);
+
+    ledger.reset();
+    assertEquals(ledger.entries(), []);
+  });
+});
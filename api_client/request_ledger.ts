@@ -0,0 +1,149 @@
+/** Request statistics of a single API route */
+export type RequestLedgerEntry = {
+  /** Octokit route, e.g. "GET /repos/{owner}/{repo}/contents/{path}" */
+  route: string;
+  /** Number of HTTP requests sent */
+  requests: number;
+  /** Number of calls served from the content cache, including 304 revalidations */
+  cacheHits: number;
+  /** Number of failed requests */
+  errors: number;
+  /** Rate limit consumed, from the `x-ratelimit-used` response header */
+  rateLimitConsumed: number;
+};
+
+/**
+ * Ledger of API requests, cache hits and rate limit consumption per route
+ *
+ * Rate limit consumption is computed from the change of `x-ratelimit-used`
+ * between responses of the same rate limit resource and window. The first
+ * response of a window has no baseline and is counted as 1. Other clients
+ * sharing the token are included in the numbers while requests of this client
+ * interleave with theirs.
+ *
+ * @example
+ * ```typescript
+ * const github = new Github();
+ * await github.fetchWorkflowRuns("owner", "repo");
+ * for (const entry of github.ledger.entries()) {
+ *   console.log(entry.route, entry.requests, entry.rateLimitConsumed);
+ * }
+ * ```
+ */
+export class RequestLedger {
+  /** Statistics by route */
+  private readonly stats: Map<string, RequestLedgerEntry> = new Map();
+  /** Highest seen `x-ratelimit-used` by rate limit resource and reset time */
+  private readonly usages: Map<string, number> = new Map();
+
+  /**
+   * Records a response (or a failed request) of a route
+   *
+   * @param route - Octokit route
+   * @param response - Response status and headers, if any
+   * @param response.status - Response status
+   * @param response.headers - Response headers
+   */
+  recordRequest(
+    route: string,
+    response?: {
+      status?: number;
+      headers?: Record<string, string | number | undefined>;
+    },
+  ): void {
+    const entry = this.entryOf(route);
+    entry.requests++;
+    if (response?.status === undefined || response.status >= 400) {
+      entry.errors++;
+    }
+    entry.rateLimitConsumed += this.consumedBy(response?.headers);
+  }
+
+  /**
+   * Records a call served from the cache
+   *
+   * @param route - Octokit route the call would have requested
+   */
+  recordCacheHit(route: string): void {
+    this.entryOf(route).cacheHits++;
+  }
+
+  /**
+   * Gets statistics of all routes
+   *
+   * @returns Entries sorted by rate limit consumption in descending order
+   */
+  entries(): RequestLedgerEntry[] {
+    return [...this.stats.values()]
+      .map((entry) => ({ ...entry }))
+      .toSorted((a, b) =>
+        b.rateLimitConsumed - a.rateLimitConsumed || b.requests - a.requests
+      );
+  }
+
+  /**
+   * Gets the total rate limit consumed by all routes
+   *
+   * @returns Total rate limit consumption
+   */
+  get totalRateLimitConsumed(): number {
+    return this.entries().reduce(
+      (sum, entry) => sum + entry.rateLimitConsumed,
+      0,
+    );
+  }
+
+  /**
+   * Clears all statistics
+   */
+  reset(): void {
+    this.stats.clear();
+    this.usages.clear();
+  }
+
+  /**
+   * Gets or creates the entry of a route
+   * @param route - Octokit route
+   * @returns Mutable entry
+   */
+  private entryOf(route: string): RequestLedgerEntry {
+    let entry = this.stats.get(route);
+    if (entry === undefined) {
+      entry = {
+        route,
+        requests: 0,
+        cacheHits: 0,
+        errors: 0,
+        rateLimitConsumed: 0,
+      };
+      this.stats.set(route, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Computes the rate limit consumed since the previous response of the same resource and window
+   * @param headers - Response headers
+   * @returns Consumed rate limit, or 0 if the headers are missing
+   */
+  private consumedBy(
+    headers?: Record<string, string | number | undefined>,
+  ): number {
+    const used = Number(headers?.["x-ratelimit-used"]);
+    const reset = String(headers?.["x-ratelimit-reset"]);
+    if (Number.isNaN(used)) return 0;
+
+    const resource = String(headers?.["x-ratelimit-resource"] ?? "core");
+    const key = `${resource}:${reset}`;
+    const highest = this.usages.get(key);
+    // No baseline in this window: count the request itself
+    if (highest === undefined) {
+      this.usages.set(key, used);
+      return 1;
+    }
+    // Responses may arrive out of order, so only count usage above the highest seen
+    if (used <= highest) return 0;
+    this.usages.set(key, used);
+    return used - highest;
+  }
+}
@@ -0,0 +1,74 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import {
+  ResponseValidationError,
+  validateResponse,
+} from "./response_validation.ts";
+
+const step = {
+  name: "Set up job",
+  number: 1,
+  status: "completed",
+  conclusion: "success",
+  started_at: "2024-01-01T00:00:00Z",
+  completed_at: "2024-01-01T00:00:01Z",
+};
+const job = {
+  id: 1,
+  run_id: 100,
+  run_url: "https://api.github.com/repos/owner/repo/actions/runs/100",
+  node_id: "node",
+  head_sha: "sha",
+  url: "https://api.github.com/repos/owner/repo/actions/jobs/1",
+  html_url: "https://github.com/owner/repo/actions/runs/100/job/1",
+  status: "completed",
+  conclusion: "success",
+  started_at: "2024-01-01T00:00:00Z",
+  completed_at: "2024-01-01T00:01:00Z",
+  name: "test",
+  steps: [step],
+  check_run_url: "https://api.github.com/repos/owner/repo/check-runs/1",
+  labels: ["ubuntu-latest"],
+  runner_id: 1,
+  runner_name: "GitHub Actions 1",
+  runner_group_id: 2,
+  runner_group_name: "GitHub Actions",
+};
+
+describe(validateResponse.name, () => {
+  it("Returns a valid response as it is", () => {
+    assertEquals(validateResponse("WorkflowJob", job), job);
+    // Optional fields may be missing
+    const { steps: _, ...withoutSteps } = job;
+    assertEquals(validateResponse("WorkflowJob", withoutSteps), withoutSteps);
+  });
+
+  it("Names a missing field", () => {
+    const { runner_name: _, ...invalid } = job;
+    const error = assertThrows(
+      () => validateResponse("WorkflowJob", invalid),
+      ResponseValidationError,
+      'Invalid WorkflowJob response: "runner_name" is missing (expected string or null)',
+    );
+    assertEquals(error.field, "runner_name");
+  });
+
+  it("Names a mistyped field in nested arrays", () => {
+    const invalid = { ...job, steps: [step, { ...step, number: "2" }] };
+    const error = assertThrows(
+      () => validateResponse("WorkflowJob", invalid, "[3]"),
+      ResponseValidationError,
+      'Invalid WorkflowJob response: "[3].steps[1].number" must be number, got string "2"',
+    );
+    assertEquals(error.typeName, "WorkflowJob");
+    assertEquals(error.actual, "2");
+  });
+
+  it("Checks items of string arrays", () => {
+    assertThrows(
+      () => validateResponse("WorkflowJob", { ...job, labels: [1] }),
+      ResponseValidationError,
+      '"labels" must be string[], got array',
+    );
+  });
+});
@@ -0,0 +1,363 @@
+/** Primitive field types of a response schema */
+export type PrimitiveRule = "string" | "number" | "boolean" | "string[]";
+
+/**
+ * Rule of a response field
+ *
+ * A primitive rule may be suffixed with " | null" for nullable fields and
+ * "?" for optional fields, e.g. "string | null?". Nested objects and arrays of
+ * objects are described by their own schema.
+ */
+export type FieldRule =
+  | `${PrimitiveRule}${"" | " | null"}${"" | "?"}`
+  | {
+    /** Schema of a nested object */
+    object: ResponseSchema;
+    nullable?: boolean;
+    optional?: boolean;
+  }
+  | {
+    /** Schema of each item of an array */
+    array: ResponseSchema;
+    nullable?: boolean;
+    optional?: boolean;
+  };
+
+/** Expected fields of a response object. Fields not listed are not checked */
+export type ResponseSchema = Record<string, FieldRule>;
+
+/**
+ * Error thrown when a response does not match its schema
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await github.fetchWorkflowRuns("owner", "repo");
+ * } catch (error) {
+ *   if (error instanceof ResponseValidationError) {
+ *     console.error(error.typeName, error.field); // "WorkflowRun", "[0].head_branch"
+ *   }
+ * }
+ * ```
+ */
+export class ResponseValidationError extends Error {
+  /** Name of the response type, e.g. "WorkflowRun" */
+  typeName: string;
+  /** Path of the invalid field, e.g. "head_commit.author" */
+  field: string;
+  /** Expected type of the field */
+  expected: string;
+  /** Actual value of the field */
+  actual: unknown;
+
+  /**
+   * Creates a new ResponseValidationError instance
+   * @param typeName - Name of the response type
+   * @param field - Path of the invalid field
+   * @param expected - Expected type of the field
+   * @param actual - Actual value of the field
+   */
+  constructor(
+    typeName: string,
+    field: string,
+    expected: string,
+    actual: unknown,
+  ) {
+    super(
+      actual === undefined
+        ? `Invalid ${typeName} response: "${field}" is missing (expected ${expected})`
+        : `Invalid ${typeName} response: "${field}" must be ${expected}, got ${
+          describeValue(actual)
+        }`,
+    );
+    this.name = "ResponseValidationError";
+    this.typeName = typeName;
+    this.field = field;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+const user: ResponseSchema = {
+  login: "string",
+  id: "number",
+};
+
+const repository: ResponseSchema = {
+  id: "number",
+  node_id: "string",
+  name: "string",
+  full_name: "string",
+  private: "boolean",
+  owner: { object: user },
+  html_url: "string",
+  description: "string | null",
+  fork: "boolean",
+  url: "string",
+  default_branch: "string?",
+  archived: "boolean?",
+  disabled: "boolean?",
+  topics: "string[]?",
+};
+
+const pullRequestRef: ResponseSchema = {
+  ref: "string",
+  sha: "string",
+  repo: { object: { id: "number", url: "string", name: "string" } },
+};
+
+const gitUser: ResponseSchema = { name: "string", email: "string" };
+
+const workflowJobStep: ResponseSchema = {
+  name: "string",
+  number: "number",
+  status: "string",
+  conclusion: "string | null",
+  started_at: "string | null?",
+  completed_at: "string | null?",
+};
+
+/** Name of a response type that has a schema */
+export type ResponseTypeName =
+  | "RepositoryResponse"
+  | "WorkflowRun"
+  | "WorkflowJob"
+  | "WorkflowJobStep"
+  | "RepositoryWorkflow"
+  | "ActionsCacheList";
+
+/**
+ * Schemas of the response types
+ *
+ * Each schema checks the fields that are declared as required (or typed) in
+ * the corresponding type of api_client.ts.
+ */
+export const responseSchemas: Record<ResponseTypeName, ResponseSchema> = {
+  RepositoryResponse: repository,
+  WorkflowRun: {
+    id: "number",
+    name: "string | null?",
+    node_id: "string",
+    head_branch: "string | null",
+    head_sha: "string",
+    path: "string",
+    display_title: "string?",
+    run_number: "number",
+    run_attempt: "number?",
+    event: "string",
+    status: "string | null",
+    conclusion: "string | null",
+    workflow_id: "number",
+    url: "string",
+    html_url: "string",
+    pull_requests: {
+      array: {
+        id: "number",
+        number: "number",
+        url: "string",
+        head: { object: pullRequestRef },
+        base: { object: pullRequestRef },
+      },
+      nullable: true,
+    },
+    created_at: "string",
+    updated_at: "string",
+    actor: { object: user, optional: true },
+    triggering_actor: { object: user, optional: true },
+    run_started_at: "string",
+    jobs_url: "string",
+    logs_url: "string",
+    artifacts_url: "string",
+    cancel_url: "string",
+    rerun_url: "string",
+    workflow_url: "string",
+    head_commit: {
+      object: {
+        id: "string",
+        tree_id: "string",
+        message: "string",
+        timestamp: "string",
+        author: { object: gitUser, nullable: true },
+        committer: { object: gitUser, nullable: true },
+      },
+      nullable: true,
+    },
+    repository: { object: repository },
+  },
+  WorkflowJob: {
+    id: "number",
+    run_id: "number",
+    run_url: "string",
+    run_attempt: "number?",
+    node_id: "string",
+    head_sha: "string",
+    head_branch: "string | null?",
+    url: "string",
+    html_url: "string | null",
+    status: "string",
+    conclusion: "string | null",
+    created_at: "string?",
+    started_at: "string",
+    completed_at: "string | null",
+    name: "string",
+    steps: { array: workflowJobStep, optional: true },
+    check_run_url: "string",
+    labels: "string[]",
+    runner_id: "number | null",
+    runner_name: "string | null",
+    runner_group_id: "number | null",
+    runner_group_name: "string | null",
+    workflow_name: "string | null?",
+  },
+  WorkflowJobStep: workflowJobStep,
+  RepositoryWorkflow: {
+    id: "number",
+    node_id: "string",
+    name: "string",
+    path: "string",
+    state: "string",
+    created_at: "string",
+    updated_at: "string",
+    url: "string",
+    html_url: "string",
+    badge_url: "string",
+  },
+  ActionsCacheList: {
+    total_count: "number",
+    actions_caches: {
+      array: {
+        id: "number",
+        ref: "string",
+        key: "string",
+        version: "string",
+        last_accessed_at: "string",
+        created_at: "string",
+        size_in_bytes: "number",
+      },
+    },
+  },
+};
+
+/**
+ * Validates a response against the schema of its type
+ *
+ * @param typeName - Name of the response type
+ * @param value - Response data
+ * @param field - Path of the value, prefixed to field paths in errors
+ * @returns The given value typed as the response type
+ * @throws {ResponseValidationError} If a field is missing or has a wrong type
+ *
+ * @example
+ * ```typescript
+ * const res = await fetch("https://api.github.com/repos/owner/repo/actions/runs/12345");
+ * const run = validateResponse<WorkflowRun>("WorkflowRun", await res.json());
+ * ```
+ */
+export function validateResponse<T>(
+  typeName: ResponseTypeName,
+  value: unknown,
+  field = "",
+): T {
+  validateObject(typeName, responseSchemas[typeName], value, field);
+  return value as T;
+}
+
+/**
+ * Validates an object against a schema
+ * @param typeName - Name of the response type
+ * @param schema - Schema of the object
+ * @param value - Value to validate
+ * @param path - Path of the value
+ */
+function validateObject(
+  typeName: string,
+  schema: ResponseSchema,
+  value: unknown,
+  path: string,
+): void {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new ResponseValidationError(
+      typeName,
+      path || "(root)",
+      "object",
+      value,
+    );
+  }
+  const record = value as Record<string, unknown>;
+  for (const [name, rule] of Object.entries(schema)) {
+    validateField(
+      typeName,
+      rule,
+      record[name],
+      path ? `${path}.${name}` : name,
+    );
+  }
+}
+
+/**
+ * Validates a field against its rule
+ * @param typeName - Name of the response type
+ * @param rule - Rule of the field
+ * @param value - Value of the field
+ * @param path - Path of the field
+ */
+function validateField(
+  typeName: string,
+  rule: FieldRule,
+  value: unknown,
+  path: string,
+): void {
+  if (typeof rule === "string") {
+    const optional = rule.endsWith("?");
+    const nullable = rule.includes(" | null");
+    const type = rule.replace("?", "").replace(" | null", "");
+    if (value === undefined && optional) return;
+    if (value === null && nullable) return;
+    const actualType: string = typeof value;
+    const valid = type === "string[]"
+      ? Array.isArray(value) && value.every((it) => typeof it === "string")
+      : actualType === type;
+    if (!valid) {
+      throw new ResponseValidationError(
+        typeName,
+        path,
+        nullable ? `${type} or null` : type,
+        value,
+      );
+    }
+    return;
+  }
+
+  if (value === undefined && rule.optional) return;
+  if (value === null && rule.nullable) return;
+  if ("object" in rule) {
+    validateObject(typeName, rule.object, value, path);
+    return;
+  }
+  if (!Array.isArray(value)) {
+    throw new ResponseValidationError(
+      typeName,
+      path,
+      rule.nullable ? "array or null" : "array",
+      value,
+    );
+  }
+  value.forEach((item, index) =>
+    validateObject(typeName, rule.array, item, `${path}[${index}]`)
+  );
+}
+
+/**
+ * Describes a value for error messages
+ * @param value - Any value
+ * @returns Type name and a short preview of the value
+ */
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "object") return "object";
+  const preview = JSON.stringify(value);
+  return `${typeof value} ${
+    preview.length > 40 ? `${preview.slice(0, 40)}...` : preview
+  }`;
+}
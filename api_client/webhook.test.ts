@@ -0,0 +1,321 @@
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+  assertThrows,
+} from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { encodeHex } from "@std/encoding";
+import {
+  Github,
+  type RepositoryResponse,
+  type WorkflowRun,
+} from "./api_client.ts";
+import { WorkflowModel } from "../workflow_model/src/workflow_file.ts";
+import { FakeGithubServer } from "./fake_github_server.ts";
+import { silentLogger } from "./logger.ts";
+import { ResponseValidationError } from "./response_validation.ts";
+import {
+  enrichWorkflowWebhook,
+  parseWorkflowWebhook,
+  receiveWorkflowWebhook,
+  verifyWebhookSignature,
+  WebhookError,
+} from "./webhook.ts";
+
+const owner = { login: "owner", id: 1 };
+const repository: RepositoryResponse = {
+  id: 10,
+  node_id: "R_10",
+  name: "repo",
+  full_name: "owner/repo",
+  private: false,
+  owner,
+  html_url: "https://github.com/owner/repo",
+  description: null,
+  fork: false,
+  url: "https://api.github.com/repos/owner/repo",
+  default_branch: "main",
+};
+const workflowRun: WorkflowRun = {
+  id: 100,
+  name: "CI",
+  node_id: "WFR_100",
+  head_branch: "main",
+  head_sha: "0123456789abcdef0123456789abcdef01234567",
+  path: ".github/workflows/ci.yml",
+  display_title: "Update README",
+  run_number: 7,
+  run_attempt: 1,
+  event: "push",
+  status: "completed",
+  conclusion: "success",
+  workflow_id: 5,
+  url: "https://api.github.com/repos/owner/repo/actions/runs/100",
+  html_url: "https://github.com/owner/repo/actions/runs/100",
+  pull_requests: [],
+  created_at: "2024-01-01T00:00:00Z",
+  updated_at: "2024-01-01T00:05:00Z",
+  actor: owner,
+  triggering_actor: owner,
+  run_started_at: "2024-01-01T00:00:00Z",
+  jobs_url: "https://api.github.com/repos/owner/repo/actions/runs/100/jobs",
+  logs_url: "https://api.github.com/repos/owner/repo/actions/runs/100/logs",
+  artifacts_url:
+    "https://api.github.com/repos/owner/repo/actions/runs/100/artifacts",
+  cancel_url: "https://api.github.com/repos/owner/repo/actions/runs/100/cancel",
+  rerun_url: "https://api.github.com/repos/owner/repo/actions/runs/100/rerun",
+  workflow_url: "https://api.github.com/repos/owner/repo/actions/workflows/5",
+  head_commit: null,
+  repository,
+};
+const workflowRunPayload = {
+  action: "completed",
+  workflow_run: workflowRun,
+  workflow: { id: 5, name: "CI", path: ".github/workflows/ci.yml" },
+  repository,
+  sender: owner,
+};
+const workflowJobPayload = {
+  action: "completed",
+  workflow_job: {
+    id: 200,
+    run_id: 100,
+    run_url: "https://api.github.com/repos/owner/repo/actions/runs/100",
+    run_attempt: 1,
+    node_id: "CR_200",
+    head_sha: workflowRun.head_sha,
+    head_branch: "main",
+    url: "https://api.github.com/repos/owner/repo/actions/jobs/200",
+    html_url: "https://github.com/owner/repo/actions/runs/100/job/200",
+    status: "completed",
+    conclusion: "failure",
+    started_at: "2024-01-01T00:00:10Z",
+    completed_at: "2024-01-01T00:01:10Z",
+    name: "test (ubuntu-latest)",
+    steps: [],
+    check_run_url: "https://api.github.com/repos/owner/repo/check-runs/200",
+    labels: ["ubuntu-latest"],
+    runner_id: 1,
+    runner_name: "GitHub Actions 1",
+    runner_group_id: 2,
+    runner_group_name: "GitHub Actions",
+    workflow_name: "CI",
+  },
+  repository,
+  sender: owner,
+};
+const workflowYaml = `name: CI
+on: push
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo build
+  test:
+    strategy:
+      matrix:
+        os: [ubuntu-latest, windows-latest]
+    runs-on: \${{ matrix.os }}
+    steps:
+      - run: echo test
+`;
+
+const secret = "It's a Secret to Everybody";
+const sign = async (body: string): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const digest = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(body),
+  );
+  return `sha256=${encodeHex(digest)}`;
+};
+
+describe(verifyWebhookSignature.name, () => {
+  it("Accepts the example of the GitHub docs", async () => {
+    // https://docs.github.com/en/webhooks/using-webhooks/validating-webhook-deliveries#testing-the-webhook-payload-validation
+    assertEquals(
+      await verifyWebhookSignature(
+        secret,
+        "Hello, World!",
+        "sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17",
+      ),
+      true,
+    );
+  });
+
+  it("Accepts a body as bytes", async () => {
+    const body = JSON.stringify(workflowRunPayload);
+    assertEquals(
+      await verifyWebhookSignature(
+        secret,
+        new TextEncoder().encode(body),
+        await sign(body),
+      ),
+      true,
+    );
+  });
+
+  it("Rejects a wrong, missing or malformed signature", async () => {
+    const signature = await sign("Hello, World!");
+    assertEquals(
+      await verifyWebhookSignature(secret, "Hello, World?", signature),
+      false,
+    );
+    assertEquals(
+      await verifyWebhookSignature("wrong", "Hello, World!", signature),
+      false,
+    );
+    assertEquals(
+      await verifyWebhookSignature(secret, "Hello, World!", null),
+      false,
+    );
+    assertEquals(
+      await verifyWebhookSignature(
+        secret,
+        "Hello, World!",
+        signature.replace("sha256=", "sha1="),
+      ),
+      false,
+    );
+  });
+});
+
+describe(parseWorkflowWebhook.name, () => {
+  it("Parses a workflow_run payload", () => {
+    const event = parseWorkflowWebhook(
+      "workflow_run",
+      JSON.stringify(workflowRunPayload),
+    );
+    assertEquals(event.type, "workflow_run");
+    assertEquals(event.action, "completed");
+    assertEquals(event.repository.full_name, "owner/repo");
+    if (event.type !== "workflow_run") throw new Error("unreachable");
+    assertEquals(event.workflowRun.id, 100);
+    assertEquals(event.workflow?.path, ".github/workflows/ci.yml");
+  });
+
+  it("Parses a workflow_job payload that is already parsed", () => {
+    const event = parseWorkflowWebhook("workflow_job", workflowJobPayload);
+    if (event.type !== "workflow_job") throw new Error("unreachable");
+    assertEquals(event.workflowJob.name, "test (ubuntu-latest)");
+    assertEquals(event.sender?.login, "owner");
+  });
+
+  it("Throws for unsupported events and broken payloads", () => {
+    assertThrows(
+      () => parseWorkflowWebhook("push", workflowRunPayload),
+      WebhookError,
+      'Unsupported webhook event "push"',
+    );
+    assertThrows(
+      () => parseWorkflowWebhook("workflow_run", "{"),
+      WebhookError,
+      "not valid JSON",
+    );
+    const error = assertThrows(
+      () =>
+        parseWorkflowWebhook("workflow_job", {
+          ...workflowJobPayload,
+          workflow_job: { ...workflowJobPayload.workflow_job, run_id: "100" },
+        }),
+      ResponseValidationError,
+    );
+    assertEquals(error.field, "workflow_job.run_id");
+  });
+});
+
+describe(receiveWorkflowWebhook.name, () => {
+  const request = (body: string, headers: Record<string, string>) =>
+    new Request("http://localhost/webhook", {
+      method: "POST",
+      body,
+      headers,
+    });
+
+  it("Verifies and parses a request", async () => {
+    const body = JSON.stringify(workflowJobPayload);
+    const event = await receiveWorkflowWebhook(
+      request(body, {
+        "x-github-event": "workflow_job",
+        "x-hub-signature-256": await sign(body),
+      }),
+      secret,
+    );
+    assertEquals(event.type, "workflow_job");
+  });
+
+  it("Rejects an invalid signature before parsing", async () => {
+    const body = JSON.stringify(workflowJobPayload);
+    const signature = await sign(`${body} `);
+    await assertRejects(
+      () =>
+        receiveWorkflowWebhook(
+          request(body, {
+            "x-github-event": "workflow_job",
+            "x-hub-signature-256": signature,
+          }),
+          secret,
+        ),
+      WebhookError,
+      "Invalid X-Hub-Signature-256 signature",
+    );
+  });
+});
+
+describe(enrichWorkflowWebhook.name, () => {
+  const server = new FakeGithubServer({
+    runs: [workflowRun],
+    files: [{
+      owner: "owner",
+      repo: "repo",
+      path: ".github/workflows/ci.yml",
+      content: workflowYaml,
+      ref: workflowRun.head_sha,
+    }],
+  });
+  const github = new Github({
+    token: "token",
+    fetch: server.fetch,
+    logger: silentLogger,
+    _workaroundDenoTest: true,
+  });
+
+  it("Loads the workflow of a workflow_run event at head_sha", async () => {
+    const event = await enrichWorkflowWebhook(
+      github,
+      parseWorkflowWebhook("workflow_run", workflowRunPayload),
+    );
+    assertInstanceOf(event.workflowModel, WorkflowModel);
+    assertEquals(event.workflowModel?.name, "CI");
+    assertEquals(event.jobModel, undefined);
+  });
+
+  it("Matches the job definition of a workflow_job event", async () => {
+    const event = await enrichWorkflowWebhook(
+      github,
+      parseWorkflowWebhook("workflow_job", workflowJobPayload),
+    );
+    assertEquals(event.workflowModel?.name, "CI");
+    assertEquals(event.jobModel?.id, "test");
+    assertEquals(event.jobModel?.startLine, 8);
+  });
+
+  it("Returns the event as it is if the workflow file is not found", async () => {
+    const event = await enrichWorkflowWebhook(
+      github,
+      parseWorkflowWebhook("workflow_run", {
+        ...workflowRunPayload,
+        workflow_run: { ...workflowRun, head_sha: "f".repeat(40) },
+      }),
+    );
+    assertEquals(event.workflowModel, undefined);
+  });
+});
@@ -0,0 +1,289 @@
+import { encodeHex } from "@std/encoding";
+import type {
+  Github,
+  GithubUser,
+  RepositoryResponse,
+  WorkflowJob,
+  WorkflowRun,
+} from "./api_client.ts";
+import { validateResponse } from "./response_validation.ts";
+import {
+  JobModel,
+  WorkflowModel,
+} from "../workflow_model/src/workflow_file.ts";
+
+/** Fields common to workflow webhook events */
+export type WorkflowWebhookEventBase = {
+  /** Repository of the workflow */
+  repository: RepositoryResponse;
+  /** User who triggered the event */
+  sender?: GithubUser;
+  /** GitHub App installation that received the event */
+  installation?: { id: number };
+};
+
+/**
+ * `workflow_run` webhook event
+ * @see https://docs.github.com/en/webhooks/webhook-events-and-payloads#workflow_run
+ */
+export type WorkflowRunWebhookEvent = WorkflowWebhookEventBase & {
+  type: "workflow_run";
+  action: "requested" | "in_progress" | "completed";
+  workflowRun: WorkflowRun;
+  /** Workflow definition metadata */
+  workflow?: { id: number; name: string; path: string };
+};
+
+/**
+ * `workflow_job` webhook event
+ * @see https://docs.github.com/en/webhooks/webhook-events-and-payloads#workflow_job
+ */
+export type WorkflowJobWebhookEvent = WorkflowWebhookEventBase & {
+  type: "workflow_job";
+  action: "queued" | "in_progress" | "completed" | "waiting";
+  workflowJob: WorkflowJob;
+};
+
+/** Workflow webhook event discriminated by `type` */
+export type WorkflowWebhookEvent =
+  | WorkflowRunWebhookEvent
+  | WorkflowJobWebhookEvent;
+
+/** Workflow webhook event with the workflow definition at `head_sha` */
+export type EnrichedWorkflowWebhookEvent = WorkflowWebhookEvent & {
+  /** Workflow file at the head_sha of the event, or undefined if it could not be fetched */
+  workflowModel?: WorkflowModel;
+  /** Job definition matched by `JobModel.match` (workflow_job events only) */
+  jobModel?: JobModel;
+};
+
+/**
+ * Error thrown when a webhook request can not be verified or parsed
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await receiveWorkflowWebhook(request, secret);
+ * } catch (error) {
+ *   if (error instanceof WebhookError) return new Response(error.message, { status: 400 });
+ *   throw error;
+ * }
+ * ```
+ */
+export class WebhookError extends Error {
+  /**
+   * Creates a new WebhookError instance
+   * @param message - Error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookError";
+  }
+}
+
+/**
+ * Verifies the `X-Hub-Signature-256` header of a webhook delivery
+ *
+ * @param secret - Webhook secret
+ * @param body - Raw request body exactly as received
+ * @param signature - Value of the `X-Hub-Signature-256` header ("sha256=...")
+ * @returns True if the signature matches
+ * @see https://docs.github.com/en/webhooks/using-webhooks/validating-webhook-deliveries
+ *
+ * @example
+ * ```typescript
+ * const body = await request.text();
+ * const valid = await verifyWebhookSignature(
+ *   secret,
+ *   body,
+ *   request.headers.get("x-hub-signature-256"),
+ * );
+ * ```
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string | Uint8Array<ArrayBuffer>,
+  signature: string | null | undefined,
+): Promise<boolean> {
+  if (!signature?.startsWith("sha256=")) return false;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const digest = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    typeof body === "string" ? encoder.encode(body) : body,
+  );
+  const expected = `sha256=${encodeHex(digest)}`;
+  // Compare in constant time to not leak the signature by timing
+  const actual = signature.toLowerCase();
+  if (expected.length !== actual.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Parses a `workflow_run` or `workflow_job` webhook payload
+ *
+ * The run and job are validated with the same schemas as API responses,
+ * so they can be used with the rest of this library.
+ *
+ * @param eventName - Value of the `X-GitHub-Event` header
+ * @param payload - Raw request body, or the already parsed JSON
+ * @returns Typed webhook event
+ * @throws {WebhookError} If the event is not a workflow event or the payload is not JSON
+ * @throws {ResponseValidationError} If the run or job lacks a required field
+ *
+ * @example
+ * ```typescript
+ * const event = parseWorkflowWebhook("workflow_job", body);
+ * if (event.type === "workflow_job" && event.action === "completed") {
+ *   console.log(event.workflowJob.conclusion);
+ * }
+ * ```
+ */
+export function parseWorkflowWebhook(
+  eventName: string,
+  payload: string | unknown,
+): WorkflowWebhookEvent {
+  let data: Record<string, unknown>;
+  try {
+    data =
+      (typeof payload === "string" ? JSON.parse(payload) : payload) as Record<
+        string,
+        unknown
+      >;
+  } catch {
+    throw new WebhookError("Webhook payload is not valid JSON");
+  }
+  if (typeof data !== "object" || data === null) {
+    throw new WebhookError("Webhook payload is not a JSON object");
+  }
+
+  const base = {
+    action: data.action,
+    repository: validateResponse<RepositoryResponse>(
+      "RepositoryResponse",
+      data.repository,
+      "repository",
+    ),
+    sender: data.sender as GithubUser | undefined,
+    installation: data.installation as { id: number } | undefined,
+  };
+  switch (eventName) {
+    case "workflow_run":
+      return {
+        ...base,
+        type: "workflow_run",
+        action: base.action as WorkflowRunWebhookEvent["action"],
+        workflowRun: validateResponse<WorkflowRun>(
+          "WorkflowRun",
+          data.workflow_run,
+          "workflow_run",
+        ),
+        workflow: data.workflow as WorkflowRunWebhookEvent["workflow"],
+      };
+    case "workflow_job":
+      return {
+        ...base,
+        type: "workflow_job",
+        action: base.action as WorkflowJobWebhookEvent["action"],
+        workflowJob: validateResponse<WorkflowJob>(
+          "WorkflowJob",
+          data.workflow_job,
+          "workflow_job",
+        ),
+      };
+    default:
+      throw new WebhookError(
+        `Unsupported webhook event "${eventName}", expected workflow_run or workflow_job`,
+      );
+  }
+}
+
+/**
+ * Verifies and parses a workflow webhook request
+ *
+ * @param request - Webhook request, e.g. from `Deno.serve`
+ * @param secret - Webhook secret
+ * @returns Typed webhook event
+ * @throws {WebhookError} If the signature is invalid or the event is not a workflow event
+ *
+ * @example
+ * ```typescript
+ * Deno.serve(async (request) => {
+ *   const event = await receiveWorkflowWebhook(request, Deno.env.get("WEBHOOK_SECRET")!);
+ *   console.log(event.type, event.action);
+ *   return new Response(null, { status: 204 });
+ * });
+ * ```
+ */
+export async function receiveWorkflowWebhook(
+  request: Request,
+  secret: string,
+): Promise<WorkflowWebhookEvent> {
+  const body = await request.text();
+  const signature = request.headers.get("x-hub-signature-256");
+  if (!await verifyWebhookSignature(secret, body, signature)) {
+    throw new WebhookError("Invalid X-Hub-Signature-256 signature");
+  }
+  const eventName = request.headers.get("x-github-event");
+  if (eventName === null) {
+    throw new WebhookError("X-GitHub-Event header is missing");
+  }
+  return parseWorkflowWebhook(eventName, body);
+}
+
+/**
+ * Loads the workflow definition of a webhook event at its `head_sha`
+ *
+ * Events of "dynamic" runs are returned as they are because they have no workflow file.
+ * The workflow file path of a workflow_job event is not in the payload, so
+ * its workflow run is fetched first. Jobs are paired with their definition
+ * by `JobModel.match`.
+ *
+ * @param github - GitHub API client
+ * @param event - Parsed webhook event
+ * @returns The event with workflowModel and jobModel
+ *
+ * @example
+ * ```typescript
+ * const event = await enrichWorkflowWebhook(github, parseWorkflowWebhook(name, body));
+ * console.log(event.jobModel?.htmlUrlWithLine);
+ * ```
+ */
+export async function enrichWorkflowWebhook(
+  github: Github,
+  event: WorkflowWebhookEvent,
+): Promise<EnrichedWorkflowWebhookEvent> {
+  const owner = event.repository.owner.login;
+  const repo = event.repository.name;
+  const run = event.type === "workflow_run"
+    ? event.workflowRun
+    : await github.fetchWorkflowRun(owner, repo, event.workflowJob.run_id);
+  // Runs of "dynamic" event (e.g. CodeQL, Dependabot) have no workflow file
+  if (run.event === "dynamic") return event;
+
+  const fileContent = await github.fetchContent({
+    owner,
+    repo,
+    path: run.path,
+    ref: run.head_sha,
+  });
+  if (fileContent === undefined) return event;
+
+  const workflowModel = new WorkflowModel(fileContent);
+  const jobModel = event.type === "workflow_job"
+    ? JobModel.match(workflowModel.jobs, event.workflowJob.name)
+    : undefined;
+  return { ...event, workflowModel, jobModel };
+}
@@ -0,0 +1,121 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { stub } from "@std/testing/mock";
+import { encodeBase64 } from "@std/encoding";
+import { Github } from "./api_client.ts";
+import { scanWorkflowInventory } from "./workflow_inventory.ts";
+
+const repository = (name: string, extra?: Record<string, unknown>) => ({
+  name,
+  owner: { login: "my-org" },
+  default_branch: "main",
+  archived: false,
+  fork: false,
+  topics: [],
+  ...extra,
+});
+
+const fileEntry = (path: string) => ({
+  type: "file",
+  name: path.split("/").at(-1),
+  path,
+});
+
+const fileContent = (path: string, text: string) => ({
+  type: "file",
+  size: text.length,
+  name: path.split("/").at(-1),
+  path,
+  content: encodeBase64(text),
+  sha: "sha",
+  url: "",
+  git_url: null,
+  html_url: `https://github.com/my-org/repo/blob/main/${path}`,
+  download_url: null,
+});
+
+const routes: Record<string, [number, unknown]> = {
+  "/orgs/my-org/repos": [200, [
+    repository("app", { topics: ["backend"] }),
+    repository("archived", { archived: true }),
+    repository("no-workflows"),
+    repository("forbidden"),
+  ]],
+  "/repos/my-org/app/contents/.github/workflows": [200, [
+    fileEntry(".github/workflows/ci.yml"),
+    fileEntry(".github/workflows/broken.yaml"),
+    fileEntry(".github/workflows/README.md"),
+  ]],
+  "/repos/my-org/app/contents/.github/workflows/ci.yml": [
+    200,
+    fileContent(
+      ".github/workflows/ci.yml",
+      "name: CI\non: push\njobs:\n  test:\n    runs-on: ubuntu-latest\n",
+    ),
+  ],
+  "/repos/my-org/app/contents/.github/workflows/broken.yaml": [
+    200,
+    fileContent(".github/workflows/broken.yaml", "jobs: [\n"),
+  ],
+  "/repos/my-org/no-workflows/contents/.github/workflows": [404, {
+    message: "Not Found",
+  }],
+  "/repos/my-org/forbidden/contents/.github/workflows": [403, {
+    message: "Forbidden",
+  }],
+};
+
+const fakeFetch = (input: string | URL | Request) => {
+  const url = new URL(input instanceof Request ? input.url : input);
+  // Octokit encodes "/" in the contents path as %2F
+  const [status, body] = routes[decodeURIComponent(url.pathname)] ?? [404, {}];
+  return Promise.resolve(
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { "content-type": "application/json" },
+    }),
+  );
+};
+
+describe(scanWorkflowInventory.name, () => {
+  it("yields workflows and per-repository errors", async () => {
+    using _fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    const entries = [];
+    for await (
+      const entry of scanWorkflowInventory(github, "my-org", { concurrency: 2 })
+    ) {
+      entries.push(entry);
+    }
+    const summary = entries.map((entry) =>
+      entry.type === "workflow"
+        ? [entry.repository.name, entry.path, entry.workflow.name]
+        : [entry.repository.name, entry.path, "error"]
+    ).toSorted((a, b) => `${a}`.localeCompare(`${b}`));
+    assertEquals(summary, [
+      ["app", ".github/workflows/broken.yaml", "error"],
+      ["app", ".github/workflows/ci.yml", "CI"],
+      ["forbidden", undefined, "error"],
+    ]);
+  });
+
+  it("filters repositories by topics", async () => {
+    using _fetchStub = stub(globalThis, "fetch", fakeFetch);
+    const github = new Github({ token: "token", _workaroundDenoTest: true });
+
+    const repos = await github.fetchRepositories("my-org", {
+      includeArchived: true,
+    });
+    assertEquals(repos.map((repo) => repo.name), [
+      "app",
+      "archived",
+      "no-workflows",
+      "forbidden",
+    ]);
+    const backendRepos = await github.fetchRepositories("my-org", {
+      topics: ["backend"],
+    });
+    assertEquals(backendRepos.map((repo) => repo.name), ["app"]);
+  });
+});
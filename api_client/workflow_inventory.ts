@@ -0,0 +1,132 @@
+import type {
+  Github,
+  RepositoryFilter,
+  RepositoryResponse,
+} from "./api_client.ts";
+import { WorkflowModel } from "../workflow_model/src/workflow_file.ts";
+
+/** A workflow found by scanWorkflowInventory, or a failure to scan it */
+export type WorkflowInventoryEntry =
+  | {
+    type: "workflow";
+    /** Repository of the workflow */
+    repository: RepositoryResponse;
+    /** Workflow file path */
+    path: string;
+    /** Parsed workflow */
+    workflow: WorkflowModel;
+  }
+  | {
+    type: "error";
+    /** Repository that failed to be scanned */
+    repository: RepositoryResponse;
+    /** Workflow file path, or undefined if listing the repository failed */
+    path?: string;
+    /** The thrown error */
+    error: unknown;
+  };
+
+/**
+ * Scans workflows in every repository of an organization or a user
+ *
+ * Lists `.github/workflows/*.yml|yaml` in the default branch of each
+ * repository and yields a parsed WorkflowModel per file. Repositories are
+ * scanned with bounded concurrency and entries are yielded as each repository
+ * completes. A failing repository or file is yielded as an "error" entry
+ * instead of aborting the whole scan. Create the client with `strict: true`
+ * to get the reason of each failure as a GithubApiError subclass.
+ *
+ * @param github - GitHub API client
+ * @param owner - Organization or user login
+ * @param options - Scan options
+ * @param options.concurrency - Number of repositories scanned concurrently (default: 5)
+ * @returns Async iterator of workflow entries
+ *
+ * @example
+ * ```typescript
+ * for await (const entry of scanWorkflowInventory(github, "my-org", { topics: ["backend"] })) {
+ *   if (entry.type === "error") {
+ *     console.error(entry.repository.name, entry.path, entry.error);
+ *   } else {
+ *     console.log(entry.repository.name, entry.workflow.name);
+ *   }
+ * }
+ * ```
+ */
+export async function* scanWorkflowInventory(
+  github: Github,
+  owner: string,
+  options?: RepositoryFilter & { concurrency?: number },
+): AsyncGenerator<WorkflowInventoryEntry> {
+  const concurrency = Math.max(1, options?.concurrency ?? 5);
+  const repositories = await github.fetchRepositories(owner, options);
+
+  const running = new Map<
+    number,
+    Promise<[number, WorkflowInventoryEntry[]]>
+  >();
+  for (const [index, repository] of repositories.entries()) {
+    running.set(
+      index,
+      scanRepository(github, repository).then((entries) => [index, entries]),
+    );
+    if (running.size >= concurrency) {
+      const [done, entries] = await Promise.race(running.values());
+      running.delete(done);
+      yield* entries;
+    }
+  }
+  while (running.size > 0) {
+    const [done, entries] = await Promise.race(running.values());
+    running.delete(done);
+    yield* entries;
+  }
+}
+
+/**
+ * Scans workflows of a single repository without throwing
+ * @param github - GitHub API client
+ * @param repository - Repository to scan
+ * @returns Array of workflow entries
+ */
+async function scanRepository(
+  github: Github,
+  repository: RepositoryResponse,
+): Promise<WorkflowInventoryEntry[]> {
+  const owner = repository.owner.login;
+  const repo = repository.name;
+  let paths: string[];
+  try {
+    paths = await github.fetchWorkflowFilePaths(
+      owner,
+      repo,
+      repository.default_branch,
+    );
+  } catch (error) {
+    return [{ type: "error", repository, error }];
+  }
+
+  return await Promise.all(
+    paths.map(async (path): Promise<WorkflowInventoryEntry> => {
+      try {
+        const fileContent = await github.fetchContent({
+          owner,
+          repo,
+          path,
+          ref: repository.default_branch ?? "HEAD",
+        });
+        if (fileContent === undefined) {
+          throw new Error(`Failed to fetch ${owner}/${repo}/${path}`);
+        }
+        return {
+          type: "workflow",
+          repository,
+          path,
+          workflow: new WorkflowModel(fileContent),
+        };
+      } catch (error) {
+        return { type: "error", repository, path, error };
+      }
+    }),
+  );
+}
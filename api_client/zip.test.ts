@@ -0,0 +1,61 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { decodeBase64 } from "@std/encoding";
+import { join } from "@std/path";
+import { extractZip, readZip } from "./zip.ts";
+
+// "dir/" directory, "stored.txt" (stored) and "dir/deflated.txt" (deflate)
+const archive = decodeBase64(
+  "UEsDBBQAAAAAAAAAIQAAAAAAAAAAAAAAAAAEAAAAZGlyL1BLAwQUAAAAAADXc1NdhqYQNgUAAAAFAAAACgAAAHN0b3JlZC50eHRoZWxsb1BLAwQUAAAACADXc1NdLLyUAREAAAB4AAAAEAAAAGRpci9kZWZsYXRlZC50eHTLSM3JyVcozy/KSVHIoCMbAFBLAQIUAxQAAAAAAAAAIQAAAAAAAAAAAAAAAAAEAAAAAAAAAAAAAACAAQAAAABkaXIvUEsBAhQDFAAAAAAA13NTXYamEDYFAAAABQAAAAoAAAAAAAAAAAAAAIABIgAAAHN0b3JlZC50eHRQSwECFAMUAAAACADXc1NdLLyUAREAAAB4AAAAEAAAAAAAAAAAAAAAgAFPAAAAZGlyL2RlZmxhdGVkLnR4dFBLBQYAAAAAAwADAKgAAACOAAAAAAA=",
+).buffer as ArrayBuffer;
+// "safe.txt" followed by "../evil.txt"
+const zipSlipArchive = decodeBase64(
+  "UEsDBBQAAAAAANdzU1mDFtyMAQAAAAEAAAAIAAAAc2FmZS50eHR4UEsDBBQAAAAAANdzU1mDFtyMAQAAAAEAAAALAAAALi4vZXZpbC50eHR4UEsBAhQDFAAAAAAA13NTWYMW3IwBAAAAAQAAAAgAAAAAAAAAAAAAAKSBAAAAAHNhZmUudHh0UEsBAhQDFAAAAAAA13NTWYMW3IwBAAAAAQAAAAsAAAAAAAAAAAAAAKSBJwAAAC4uL2V2aWwudHh0UEsFBgAAAAACAAIAbwAAAFEAAAAAAA==",
+).buffer as ArrayBuffer;
+
+describe(readZip.name, () => {
+  it("reads stored and deflated files", async () => {
+    const entries = await readZip(archive);
+    const decoder = new TextDecoder();
+    assertEquals(
+      entries.map((entry) => [entry.name, decoder.decode(entry.data)]),
+      [
+        ["stored.txt", "hello"],
+        ["dir/deflated.txt", "hello world ".repeat(10)],
+      ],
+    );
+  });
+});
+
+describe(extractZip.name, () => {
+  it("writes files into the directory", async () => {
+    const dir = await Deno.makeTempDir();
+    try {
+      const paths = await extractZip(archive, join(dir, "out"));
+      assertEquals(paths, [
+        join(dir, "out", "stored.txt"),
+        join(dir, "out", "dir", "deflated.txt"),
+      ]);
+      assertEquals(
+        await Deno.readTextFile(join(dir, "out", "dir", "deflated.txt")),
+        "hello world ".repeat(10),
+      );
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+
+  it("refuses entries escaping the directory before writing any file", async () => {
+    const dir = await Deno.makeTempDir();
+    try {
+      await assertRejects(
+        () => extractZip(zipSlipArchive, join(dir, "out")),
+        Error,
+        "unsafe entry path ../evil.txt",
+      );
+      assertEquals(await Array.fromAsync(Deno.readDir(dir)), []);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,121 @@
+import { dirname, join, normalize } from "@std/path";
+
+/** A file entry read from a zip archive */
+export type ZipEntry = {
+  /** Path of the file inside the archive */
+  name: string;
+  /** Decompressed file data */
+  data: Uint8Array;
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * Reads file entries from a zip archive
+ *
+ * Supports the "stored" and "deflate" methods used by GitHub artifacts.
+ * Zip64 archives are not supported.
+ *
+ * @param archive - Zip archive data
+ * @returns Array of file entries (directories are omitted)
+ */
+export async function readZip(archive: ArrayBuffer): Promise<ZipEntry[]> {
+  const view = new DataView(archive);
+  const eocdOffset = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocdOffset + 10, true);
+  let offset = view.getUint32(eocdOffset + 16, true);
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error("Invalid zip: broken central directory");
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(
+      new Uint8Array(archive, offset + 46, nameLength),
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+
+    if (view.getUint32(localHeaderOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Invalid zip: broken local header of ${name}`);
+    }
+    const dataOffset = localHeaderOffset + 30 +
+      view.getUint16(localHeaderOffset + 26, true) +
+      view.getUint16(localHeaderOffset + 28, true);
+    const compressed = new Uint8Array(archive, dataOffset, compressedSize);
+    entries.push({ name, data: await decompress(compressed, method, name) });
+  }
+  return entries;
+}
+
+/**
+ * Extracts a zip archive into a directory
+ *
+ * @param archive - Zip archive data
+ * @param dir - Destination directory. Created if it does not exist
+ * @returns Paths of the extracted files
+ * @throws {Error} If an entry escapes the directory. Nothing is written then
+ */
+export async function extractZip(
+  archive: ArrayBuffer,
+  dir: string,
+): Promise<string[]> {
+  // Refuse "zip slip" entries escaping the destination directory. All entries
+  // are checked up front so that a bad archive leaves nothing on disk
+  const files = (await readZip(archive)).map((entry) => {
+    const normalized = normalize(entry.name);
+    if (normalized.startsWith("..") || normalized.startsWith("/")) {
+      throw new Error(`Invalid zip: unsafe entry path ${entry.name}`);
+    }
+    return { path: join(dir, normalized), data: entry.data };
+  });
+  for (const { path, data } of files) {
+    await Deno.mkdir(dirname(path), { recursive: true });
+    await Deno.writeFile(path, data);
+  }
+  return files.map(({ path }) => path);
+}
+
+/**
+ * Finds the End of Central Directory record
+ * @param view - Zip archive data
+ * @returns Byte offset of the record
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes followed by an optional comment up to 65535 bytes
+  const min = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= min; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+  }
+  throw new Error("Invalid zip: End of Central Directory not found");
+}
+
+/**
+ * Decompresses an entry
+ * @param data - Compressed data
+ * @param method - Compression method (0: stored, 8: deflate)
+ * @param name - Entry name for error messages
+ * @returns Decompressed data
+ */
+async function decompress(
+  data: Uint8Array<ArrayBuffer>,
+  method: number,
+  name: string,
+): Promise<Uint8Array> {
+  if (method === 0) return data.slice();
+  if (method !== 8) {
+    throw new Error(`Unsupported zip compression method ${method}: ${name}`);
+  }
+  const stream = new Blob([data]).stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
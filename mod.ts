@@ -1,3 +1,20 @@
+export * from "./api_client/actions_cost.ts";
+export * from "./api_client/actions_url.ts";
 export * from "./api_client/api_client.ts";
+export * from "./api_client/content_cache.ts";
+export * from "./api_client/content_provider.ts";
+export * from "./api_client/errors.ts";
+export * from "./api_client/fake_github_server.ts";
+export * from "./api_client/github_app_auth.ts";
+export * from "./api_client/http_fixture.ts";
+export * from "./api_client/logger.ts";
+export * from "./api_client/request_ledger.ts";
+export * from "./api_client/response_validation.ts";
+export * from "./api_client/webhook.ts";
+export * from "./api_client/workflow_inventory.ts";
+export * from "./workflow_model/src/event_matcher.ts";
+export * from "./workflow_model/src/expression.ts";
+export * from "./workflow_model/src/job_graph.ts";
+export * from "./workflow_model/src/job_log.ts";
 export * from "./workflow_model/src/workflow_ast.ts";
 export * from "./workflow_model/src/workflow_file.ts";
@@ -0,0 +1,360 @@
+import type { TriggerModel, WorkflowModel } from "./workflow_file.ts";
+
+/** Event to test against the `on:` section of a workflow */
+export type WorkflowEvent = {
+  /** Event name, e.g. "push" or "pull_request" */
+  name: string;
+  /** Activity type, e.g. "opened" of pull_request */
+  action?: string;
+  /**
+   * Git ref of the event, e.g. "refs/heads/main" or "refs/tags/v1.0.0".
+   * A ref without "refs/" is a branch name. This is the pushed ref for push,
+   * the base branch for pull_request and the head branch for workflow_run.
+   */
+  ref?: string;
+  /** Paths of the changed files, relative to the repository root */
+  changedFiles?: string[];
+  /** Name of the source workflow of workflow_run */
+  workflow?: string;
+};
+
+/** Part of the `on:` section that can exclude an event */
+export type EventFilterName =
+  | "event"
+  | "types"
+  | "branches"
+  | "branches-ignore"
+  | "tags"
+  | "tags-ignore"
+  | "paths"
+  | "paths-ignore"
+  | "workflows";
+
+/** Result of matching an event against a workflow */
+export type EventMatchResult = {
+  /** Whether the workflow runs for the event */
+  triggered: boolean;
+  /** Trigger of the event, or undefined if the workflow does not listen to the event */
+  trigger?: TriggerModel;
+  /** Filter that excluded the event, if not triggered */
+  excludedBy?: EventFilterName;
+  /** Human readable explanation of the result */
+  reason: string;
+};
+
+/** Activity types that trigger a workflow when `types` is not written */
+const DEFAULT_ACTIVITY_TYPES: Record<string, string[]> = {
+  pull_request: ["opened", "synchronize", "reopened"],
+  pull_request_target: ["opened", "synchronize", "reopened"],
+};
+
+/**
+ * Tests whether a workflow runs for an event
+ *
+ * Evaluates the event name, activity types, branch, tag and path filters and
+ * `workflow_run` sources like GitHub does, including the ordering of `!`
+ * negations and the rule that a push event with only branch filters does
+ * not run for tags (and vice versa). Filters that need information the
+ * event does not have (e.g. `paths` without `changedFiles`) are not evaluated.
+ *
+ * @param workflow - Workflow, or its triggers
+ * @param event - Event to test
+ * @returns Whether the workflow is triggered, with the filter that excluded it
+ * @see https://docs.github.com/en/actions/writing-workflows/workflow-syntax-for-github-actions#filter-pattern-cheat-sheet
+ *
+ * @example
+ * ```typescript
+ * const result = matchWorkflowEvent(workflow, {
+ *   name: "push",
+ *   ref: "refs/heads/main",
+ *   changedFiles: ["docs/README.md"],
+ * });
+ * if (!result.triggered) {
+ *   console.log(result.reason);
+ *   // push is excluded by paths-ignore: every changed file matches ["docs/**"] (line 3)
+ * }
+ * ```
+ */
+export function matchWorkflowEvent(
+  workflow: WorkflowModel | TriggerModel[],
+  event: WorkflowEvent,
+): EventMatchResult {
+  const triggers = Array.isArray(workflow) ? workflow : workflow.triggers;
+  const trigger = triggers.find((it) => it.event === event.name);
+  if (trigger === undefined) {
+    return {
+      triggered: false,
+      excludedBy: "event",
+      reason: `The workflow is not triggered by ${event.name}`,
+    };
+  }
+  const exclude = (excludedBy: EventFilterName, reason: string) => ({
+    triggered: false,
+    trigger,
+    excludedBy,
+    reason:
+      `${event.name} is excluded by ${excludedBy}: ${reason} (line ${trigger.startLine})`,
+  });
+
+  const types = trigger.types ?? DEFAULT_ACTIVITY_TYPES[event.name];
+  if (
+    event.action !== undefined && types !== undefined &&
+    !types.includes(event.action)
+  ) {
+    return exclude(
+      "types",
+      `"${event.action}" is not one of ${formatPatterns(types)}`,
+    );
+  }
+
+  if (
+    event.workflow !== undefined && trigger.workflows !== undefined &&
+    !matchFilterPatterns(trigger.workflows, event.workflow)
+  ) {
+    return exclude(
+      "workflows",
+      `"${event.workflow}" does not match ${formatPatterns(trigger.workflows)}`,
+    );
+  }
+
+  const ref = event.ref !== undefined ? parseRef(event.ref) : undefined;
+  const hasBranchFilter = trigger.branches !== undefined ||
+    trigger.branchesIgnore !== undefined;
+  const hasTagFilter = event.name === "push" &&
+    (trigger.tags !== undefined || trigger.tagsIgnore !== undefined);
+  if (ref?.type === "tag" && event.name === "push") {
+    if (hasBranchFilter && !hasTagFilter) {
+      return exclude(
+        trigger.branches !== undefined ? "branches" : "branches-ignore",
+        `tag "${ref.name}" is not pushed because only branch filters are defined`,
+      );
+    }
+    const excluded = checkRefFilters(
+      trigger.tags,
+      trigger.tagsIgnore,
+      ref.name,
+      "tag",
+    );
+    if (excluded) return exclude(excluded[0], excluded[1]);
+    // Path filters are not evaluated for tags
+    return { triggered: true, trigger, reason: triggeredReason(trigger) };
+  }
+  if (ref !== undefined) {
+    if (hasTagFilter && !hasBranchFilter) {
+      return exclude(
+        trigger.tags !== undefined ? "tags" : "tags-ignore",
+        `branch "${ref.name}" is not pushed because only tag filters are defined`,
+      );
+    }
+    const excluded = checkRefFilters(
+      trigger.branches,
+      trigger.branchesIgnore,
+      ref.name,
+      "branch",
+    );
+    if (excluded) return exclude(excluded[0], excluded[1]);
+  }
+
+  const files = event.changedFiles;
+  if (files !== undefined) {
+    const { paths, pathsIgnore } = trigger;
+    if (
+      paths !== undefined &&
+      !files.some((file) => matchFilterPatterns(paths, file))
+    ) {
+      return exclude(
+        "paths",
+        `no changed file matches ${formatPatterns(paths)}`,
+      );
+    }
+    if (
+      pathsIgnore !== undefined &&
+      files.every((file) => matchFilterPatterns(pathsIgnore, file))
+    ) {
+      return exclude(
+        "paths-ignore",
+        `every changed file matches ${formatPatterns(pathsIgnore)}`,
+      );
+    }
+  }
+
+  return { triggered: true, trigger, reason: triggeredReason(trigger) };
+}
+
+/**
+ * Tests a value against an ordered list of filter patterns
+ *
+ * Patterns are evaluated in order and the last matching one wins, so a
+ * `!` pattern excludes values matched by earlier patterns and a later
+ * positive pattern includes them again.
+ *
+ * @param patterns - Filter patterns, optionally negated with a leading `!`
+ * @param value - Branch, tag, file path or workflow name
+ * @returns True if the last matching pattern is not negated
+ *
+ * @example
+ * ```typescript
+ * const patterns = ["releases/**", "!releases/**-alpha"];
+ * matchFilterPatterns(patterns, "releases/v1"); // true
+ * matchFilterPatterns(patterns, "releases/v1-alpha"); // false
+ * ```
+ */
+export function matchFilterPatterns(
+  patterns: string[],
+  value: string,
+): boolean {
+  let matched = false;
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith("!");
+    if (matchGlob(negated ? pattern.slice(1) : pattern, value)) {
+      matched = !negated;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Tests a value against a single GitHub Actions filter pattern
+ *
+ * - `*` matches zero or more characters except `/`
+ * - `**` matches zero or more of any character, and `**` followed by `/` also matches no directory
+ * - `?` and `+` match zero or one, and one or more, of the preceding character or `[]`, and are literal after `*` or another `?` / `+`
+ * - `[]` matches one character listed or in a range, e.g. `[0-9a-z]`
+ * - `\` escapes the next character
+ *
+ * @param pattern - Filter pattern without a leading `!`
+ * @param value - Value to test
+ * @returns True if the whole value matches the pattern
+ *
+ * @example
+ * ```typescript
+ * matchGlob("**\/docs/**", "docs/README.md"); // true
+ * matchGlob("*.js", "src/app.js"); // false
+ * matchGlob("v[12].[0-9]+.[0-9]+", "v2.10.0"); // true
+ * ```
+ */
+export function matchGlob(pattern: string, value: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
+
+/** Compiled filter patterns */
+const regExpCache = new Map<string, RegExp>();
+
+/**
+ * Converts a filter pattern into an anchored regular expression
+ * @param pattern - Filter pattern without a leading `!`
+ * @returns Regular expression matching the whole value
+ */
+function globToRegExp(pattern: string): RegExp {
+  const cached = regExpCache.get(pattern);
+  if (cached) return cached;
+
+  let source = "";
+  // Whether the last emitted token is a single character or a character class
+  let quantifiable = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const quantifier: boolean = (char === "?" || char === "+") && quantifiable;
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches the root, e.g. "**/docs/**" matches "docs/a.md"
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (quantifier) {
+      // Quantifiers of the preceding character. Elsewhere they are literal, e.g. "*+" or "a++"
+      source += char;
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/[\\\]^]/g, "\\$&")}]`;
+        i = end;
+      }
+    } else if (char === "\\" && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[i + 1]);
+      i += 1;
+    } else {
+      source += escapeRegExp(char);
+    }
+    quantifiable = !quantifier && char !== "*";
+  }
+  const regExp = new RegExp(`^${source}$`);
+  regExpCache.set(pattern, regExp);
+  return regExp;
+}
+
+/**
+ * Escapes a character for a regular expression
+ * @param char - Character
+ * @returns Escaped character
+ */
+function escapeRegExp(char: string): string {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Splits a git ref into branch or tag name
+ * @param ref - e.g. "refs/heads/main", "refs/tags/v1" or "main"
+ * @returns Type and name of the ref
+ */
+function parseRef(ref: string): { type: "branch" | "tag"; name: string } {
+  if (ref.startsWith("refs/tags/")) {
+    return { type: "tag", name: ref.slice("refs/tags/".length) };
+  }
+  return { type: "branch", name: ref.replace(/^refs\/heads\//, "") };
+}
+
+/**
+ * Checks branch or tag filters
+ * @param include - `branches` or `tags` patterns
+ * @param ignore - `branches-ignore` or `tags-ignore` patterns
+ * @param name - Branch or tag name
+ * @param kind - "branch" or "tag"
+ * @returns Excluding filter and reason, or undefined if the ref passes
+ */
+function checkRefFilters(
+  include: string[] | undefined,
+  ignore: string[] | undefined,
+  name: string,
+  kind: "branch" | "tag",
+): [EventFilterName, string] | undefined {
+  const filter = kind === "branch" ? "branches" : "tags";
+  if (include !== undefined && !matchFilterPatterns(include, name)) {
+    return [
+      filter,
+      `${kind} "${name}" does not match ${formatPatterns(include)}`,
+    ];
+  }
+  if (ignore !== undefined && matchFilterPatterns(ignore, name)) {
+    return [
+      `${filter}-ignore`,
+      `${kind} "${name}" matches ${formatPatterns(ignore)}`,
+    ];
+  }
+  return undefined;
+}
+
+/**
+ * Formats patterns for explanations
+ * @param patterns - Filter patterns
+ * @returns e.g. `["main", "releases/**"]`
+ */
+function formatPatterns(patterns: string[]): string {
+  return `[${patterns.map((it) => JSON.stringify(it)).join(", ")}]`;
+}
+
+/**
+ * Explains a triggered result
+ * @param trigger - Matched trigger
+ * @returns Explanation
+ */
+function triggeredReason(trigger: TriggerModel): string {
+  return `Triggered by ${trigger.event} (line ${trigger.startLine})`;
+}
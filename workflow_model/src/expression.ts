@@ -0,0 +1,1231 @@
+/**
+ * Value of an expression
+ *
+ * @see https://docs.github.com/en/actions/writing-workflows/choosing-what-your-workflow-does/evaluate-expressions-in-workflows-and-actions#literals
+ */
+export type ExpressionValue =
+  | null
+  | boolean
+  | number
+  | string
+  | ExpressionValue[]
+  | { [key: string]: ExpressionValue };
+
+/**
+ * Contexts available to expressions
+ *
+ * Contexts that are not given evaluate to null, so an expression can be
+ * evaluated with only the contexts it uses.
+ *
+ * @see https://docs.github.com/en/actions/writing-workflows/choosing-what-your-workflow-does/accessing-contextual-information-about-workflow-runs
+ */
+export type ExpressionContexts = {
+  github?: unknown;
+  env?: unknown;
+  vars?: unknown;
+  job?: unknown;
+  jobs?: unknown;
+  steps?: unknown;
+  runner?: unknown;
+  secrets?: unknown;
+  strategy?: unknown;
+  matrix?: unknown;
+  needs?: unknown;
+  inputs?: unknown;
+  [name: string]: unknown;
+};
+
+/** Options of expression evaluation */
+export type ExpressionOptions = {
+  /** Job status returned by `success()`, `failure()` and `cancelled()` (default "success") */
+  status?: "success" | "failure" | "cancelled";
+  /** Implementation of `hashFiles()`. Returns an empty string, as for no matching files, if omitted */
+  hashFiles?: (patterns: string[]) => string;
+};
+
+/** Offsets of a node in the parsed text, `end` is exclusive */
+export type ExpressionRange = {
+  start: number;
+  end: number;
+};
+
+/** `null`, boolean, number or string literal */
+export type LiteralNode = ExpressionRange & {
+  kind: "literal";
+  value: null | boolean | number | string;
+};
+
+/** Reference to a context, e.g. `github` */
+export type ContextNode = ExpressionRange & {
+  kind: "context";
+  name: string;
+};
+
+/** Property dereference, e.g. `github.ref` */
+export type PropertyNode = ExpressionRange & {
+  kind: "property";
+  object: ExpressionNode;
+  name: string;
+};
+
+/** Index dereference, e.g. `matrix['node-version']` or `needs.*.result[0]` */
+export type IndexNode = ExpressionRange & {
+  kind: "index";
+  object: ExpressionNode;
+  index: ExpressionNode;
+};
+
+/** Object filter, e.g. `.*` of `github.event.issue.labels.*.name` */
+export type FilterNode = ExpressionRange & {
+  kind: "filter";
+  object: ExpressionNode;
+};
+
+/** Function call, e.g. `contains(github.ref, 'release')` */
+export type FunctionCallNode = ExpressionRange & {
+  kind: "call";
+  /** Function name as written. Function names are case-insensitive */
+  name: string;
+  args: ExpressionNode[];
+};
+
+/** Logical not, e.g. `!cancelled()` */
+export type NotNode = ExpressionRange & {
+  kind: "not";
+  operand: ExpressionNode;
+};
+
+/** Operators with two operands */
+export type BinaryOperator =
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "&&"
+  | "||";
+
+/** Comparison or logical operation, e.g. `github.event_name == 'push'` */
+export type BinaryNode = ExpressionRange & {
+  kind: "binary";
+  operator: BinaryOperator;
+  left: ExpressionNode;
+  right: ExpressionNode;
+};
+
+/** Node of a parsed expression */
+export type ExpressionNode =
+  | LiteralNode
+  | ContextNode
+  | PropertyNode
+  | IndexNode
+  | FilterNode
+  | FunctionCallNode
+  | NotNode
+  | BinaryNode;
+
+/** Part of a string that may contain `${{ }}` */
+export type TemplatePart =
+  | ExpressionRange & {
+    kind: "text";
+    value: string;
+  }
+  | ExpressionRange & {
+    kind: "expression";
+    /** Parsed expression. The range of the part includes `${{` and `}}` */
+    expression: ExpressionNode;
+  };
+
+/**
+ * Error thrown when an expression can not be parsed
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   parseExpression("github.ref ==");
+ * } catch (error) {
+ *   if (error instanceof ExpressionSyntaxError) console.error(error.position);
+ * }
+ * ```
+ */
+export class ExpressionSyntaxError extends Error {
+  /** Offset of the error in the parsed text */
+  position: number;
+
+  /**
+   * Creates a new ExpressionSyntaxError instance
+   * @param message - Description of the error
+   * @param text - Parsed text
+   * @param position - Offset of the error in the parsed text
+   */
+  constructor(message: string, text: string, position: number) {
+    super(`${message} at position ${position} of "${text}"`);
+    this.name = "ExpressionSyntaxError";
+    this.position = position;
+  }
+}
+
+/**
+ * Error thrown when a function of an expression fails, e.g. `fromJSON` of invalid JSON
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   evaluateExpression("fromJSON(inputs.config)", { inputs: { config: "{" } });
+ * } catch (error) {
+ *   if (error instanceof ExpressionEvaluationError) console.error(error.message);
+ * }
+ * ```
+ */
+export class ExpressionEvaluationError extends Error {
+  /**
+   * Creates a new ExpressionEvaluationError instance
+   * @param message - Error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionEvaluationError";
+  }
+}
+
+/**
+ * Parses an expression without `${{ }}`, e.g. an `if:` condition
+ *
+ * @param text - Expression
+ * @returns Root node. Node ranges are offsets in `text`
+ * @throws {ExpressionSyntaxError} If the expression is invalid
+ *
+ * @example
+ * ```typescript
+ * const node = parseExpression("github.event_name == 'push'");
+ * console.log(node.kind); // "binary"
+ * ```
+ */
+export function parseExpression(text: string): ExpressionNode {
+  return new ExpressionParser(text, 0, text.length).parse();
+}
+
+/**
+ * Splits a string into literal text and `${{ }}` expressions
+ *
+ * @param text - String that may contain `${{ }}`, e.g. a job `name:`
+ * @returns Parts in order. Node ranges are offsets in `text`
+ * @throws {ExpressionSyntaxError} If an expression is invalid or not closed
+ *
+ * @example
+ * ```typescript
+ * const parts = parseTemplate("test (${{ matrix.os }})");
+ * console.log(parts.map((part) => part.kind)); // ["text", "expression", "text"]
+ * ```
+ */
+export function parseTemplate(text: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let offset = 0;
+  while (offset < text.length) {
+    const open = text.indexOf("${{", offset);
+    if (open === -1) break;
+    const close = findExpressionEnd(text, open + 3);
+    if (open > offset) {
+      parts.push({
+        kind: "text",
+        value: text.slice(offset, open),
+        start: offset,
+        end: open,
+      });
+    }
+    parts.push({
+      kind: "expression",
+      expression: new ExpressionParser(text, open + 3, close).parse(),
+      start: open,
+      end: close + 2,
+    });
+    offset = close + 2;
+  }
+  if (offset < text.length) {
+    parts.push({
+      kind: "text",
+      value: text.slice(offset),
+      start: offset,
+      end: text.length,
+    });
+  }
+  return parts;
+}
+
+/**
+ * Evaluates an expression without `${{ }}`
+ *
+ * Follows the type coercion of GitHub: `==` compares strings
+ * case-insensitively and converts operands of different types to numbers,
+ * `&&` and `||` return one of their operands, and property names are
+ * case-insensitive. Missing properties evaluate to null.
+ *
+ * @param expression - Expression, or a node returned by `parseExpression`
+ * @param contexts - Values of the contexts
+ * @param options - Evaluation options
+ * @returns Value of the expression
+ * @throws {ExpressionSyntaxError} If the expression is invalid
+ * @throws {ExpressionEvaluationError} If a function fails
+ * @see https://docs.github.com/en/actions/writing-workflows/choosing-what-your-workflow-does/evaluate-expressions-in-workflows-and-actions
+ *
+ * @example
+ * ```typescript
+ * evaluateExpression("matrix.os == 'Ubuntu-Latest'", { matrix: { os: "ubuntu-latest" } }); // true
+ * evaluateExpression("github.event.pull_request.labels.*.name", { github }); // ["bug", "ci"]
+ * ```
+ */
+export function evaluateExpression(
+  expression: string | ExpressionNode,
+  contexts: ExpressionContexts,
+  options: ExpressionOptions = {},
+): ExpressionValue {
+  const node = typeof expression === "string"
+    ? parseExpression(expression)
+    : expression;
+  return toResult(evaluateNode(node, contexts, options));
+}
+
+/**
+ * Evaluates a string that may contain `${{ }}`
+ *
+ * A string that is a single `${{ }}` evaluates to the value of the
+ * expression as it is. Otherwise the values are converted to strings and
+ * joined with the text around them.
+ *
+ * @param text - String that may contain `${{ }}`
+ * @param contexts - Values of the contexts
+ * @param options - Evaluation options
+ * @returns Value of the expression, or the interpolated string
+ * @throws {ExpressionSyntaxError} If an expression is invalid
+ * @throws {ExpressionEvaluationError} If a function fails
+ *
+ * @example
+ * ```typescript
+ * evaluateTemplate("test (${{ matrix.os }})", { matrix: { os: "ubuntu-latest" } });
+ * // "test (ubuntu-latest)"
+ * evaluateTemplate("${{ fromJSON('[1, 2]') }}", {}); // [1, 2]
+ * ```
+ */
+export function evaluateTemplate(
+  text: string,
+  contexts: ExpressionContexts,
+  options: ExpressionOptions = {},
+): ExpressionValue {
+  const parts = parseTemplate(text);
+  if (parts.length === 1 && parts[0].kind === "expression") {
+    return evaluateExpression(parts[0].expression, contexts, options);
+  }
+  return parts.map((part) =>
+    part.kind === "text"
+      ? part.value
+      : coerceToString(evaluateNode(part.expression, contexts, options))
+  ).join("");
+}
+
+/**
+ * Evaluates an `if:` condition of a job or step
+ *
+ * The condition may be written with or without `${{ }}`. Like GitHub,
+ * `success() &&` is implied when the condition does not call a status
+ * function (`success()`, `failure()`, `cancelled()` or `always()`).
+ *
+ * @param condition - Value of `if:`
+ * @param contexts - Values of the contexts
+ * @param options - Evaluation options
+ * @returns True if the job or step runs
+ * @throws {ExpressionSyntaxError} If the condition is invalid
+ * @throws {ExpressionEvaluationError} If a function fails
+ *
+ * @example
+ * ```typescript
+ * evaluateCondition("github.ref == 'refs/heads/main'", { github }, { status: "failure" }); // false
+ * evaluateCondition("${{ always() }}", {}, { status: "failure" }); // true
+ * ```
+ */
+export function evaluateCondition(
+  condition: string | boolean,
+  contexts: ExpressionContexts,
+  options: ExpressionOptions = {},
+): boolean {
+  if (typeof condition === "boolean") {
+    return condition && (options.status ?? "success") === "success";
+  }
+  const trimmed = condition.trim();
+  const parts = trimmed.includes("${{") ? parseTemplate(trimmed) : undefined;
+  let node: ExpressionNode;
+  if (parts === undefined) {
+    node = parseExpression(trimmed);
+  } else if (parts.length === 1 && parts[0].kind === "expression") {
+    node = parts[0].expression;
+  } else {
+    // Text around `${{ }}` makes the condition a string
+    const value = evaluateTemplate(trimmed, contexts, options);
+    return isTruthy(value) && (options.status ?? "success") === "success";
+  }
+
+  let hasStatusFunction = false;
+  walkExpression(node, (it) => {
+    if (it.kind === "call" && STATUS_FUNCTIONS.has(it.name.toLowerCase())) {
+      hasStatusFunction = true;
+    }
+  });
+  const value = isTruthy(evaluateNode(node, contexts, options));
+  return hasStatusFunction
+    ? value
+    : value && (options.status ?? "success") === "success";
+}
+
+/**
+ * Visits every node of an expression in depth-first order
+ *
+ * @param node - Root node
+ * @param visitor - Called with each node and its parent
+ *
+ * @example
+ * ```typescript
+ * // Contexts used by an expression
+ * const names = new Set<string>();
+ * walkExpression(parseExpression("needs.build.result == 'success'"), (node) => {
+ *   if (node.kind === "context") names.add(node.name);
+ * });
+ * ```
+ */
+export function walkExpression(
+  node: ExpressionNode,
+  visitor: (node: ExpressionNode, parent?: ExpressionNode) => void,
+  parent?: ExpressionNode,
+): void {
+  visitor(node, parent);
+  switch (node.kind) {
+    case "property":
+    case "filter":
+      walkExpression(node.object, visitor, node);
+      break;
+    case "index":
+      walkExpression(node.object, visitor, node);
+      walkExpression(node.index, visitor, node);
+      break;
+    case "call":
+      for (const arg of node.args) walkExpression(arg, visitor, node);
+      break;
+    case "not":
+      walkExpression(node.operand, visitor, node);
+      break;
+    case "binary":
+      walkExpression(node.left, visitor, node);
+      walkExpression(node.right, visitor, node);
+      break;
+  }
+}
+
+/**
+ * Tests a value like GitHub does in conditions
+ *
+ * @param value - Expression value
+ * @returns False for `false`, `0`, `NaN`, `""` and `null`, otherwise true
+ *
+ * @example
+ * ```typescript
+ * isTruthy("false"); // true
+ * isTruthy(0); // false
+ * ```
+ */
+export function isTruthy(value: unknown): boolean {
+  const unwrapped = unwrap(value);
+  if (unwrapped === null) return false;
+  switch (typeof unwrapped) {
+    case "boolean":
+      return unwrapped;
+    case "number":
+      return unwrapped !== 0 && !Number.isNaN(unwrapped);
+    case "string":
+      return unwrapped !== "";
+    default:
+      return true;
+  }
+}
+
+/**
+ * Converts a value to a string like GitHub does for `${{ }}` in text and for `format()`
+ *
+ * @param value - Expression value
+ * @returns `""` for null, "Array" and "Object" for arrays and objects
+ *
+ * @example
+ * ```typescript
+ * coerceToString(null); // ""
+ * coerceToString(1.5); // "1.5"
+ * ```
+ */
+export function coerceToString(value: unknown): string {
+  const unwrapped = unwrap(value);
+  if (unwrapped === null) return "";
+  if (Array.isArray(unwrapped)) return "Array";
+  if (typeof unwrapped === "object") return "Object";
+  return String(unwrapped);
+}
+
+/** Functions that read the job status */
+const STATUS_FUNCTIONS = new Set(["success", "failure", "cancelled", "always"]);
+
+/** Minimum and maximum number of arguments of the built-in functions */
+const FUNCTION_ARITIES = new Map<string, [number, number]>([
+  ["contains", [2, 2]],
+  ["startswith", [2, 2]],
+  ["endswith", [2, 2]],
+  ["format", [1, Infinity]],
+  ["join", [1, 2]],
+  ["tojson", [1, 1]],
+  ["fromjson", [1, 1]],
+  ["hashfiles", [1, Infinity]],
+  ["success", [0, 0]],
+  ["failure", [0, 0]],
+  ["cancelled", [0, 0]],
+  ["always", [0, 0]],
+]);
+
+/** Result of an object filter. Dereferences apply to each item */
+class FilteredArray {
+  /**
+   * Creates a new FilteredArray instance
+   * @param items - Filtered values
+   */
+  constructor(readonly items: unknown[]) {}
+}
+
+/** Token of an expression */
+type Token = ExpressionRange & {
+  type: "number" | "string" | "identifier" | "operator" | "end";
+  text: string;
+  value?: number | string;
+};
+
+/** Operators, longest first */
+const OPERATORS = [
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "<",
+  ">",
+  "!",
+  "(",
+  ")",
+  "[",
+  "]",
+  ".",
+  ",",
+  "*",
+];
+
+/** Recursive descent parser of an expression in a range of a text */
+class ExpressionParser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  /**
+   * Creates a new ExpressionParser instance
+   * @param text - Whole text. Node ranges are offsets in it
+   * @param start - Start of the expression
+   * @param end - End of the expression (exclusive)
+   */
+  constructor(
+    private readonly text: string,
+    start: number,
+    end: number,
+  ) {
+    this.tokens = this.tokenize(start, end);
+  }
+
+  /**
+   * Parses the whole range
+   * @returns Root node
+   */
+  parse(): ExpressionNode {
+    if (this.peek().type === "end") {
+      throw this.error("Expected an expression", this.peek());
+    }
+    const node = this.parseBinary(0);
+    if (this.peek().type !== "end") {
+      throw this.error(`Unexpected "${this.peek().text}"`, this.peek());
+    }
+    return node;
+  }
+
+  /**
+   * Parses binary operators by precedence climbing
+   * @param level - Index in BINARY_PRECEDENCE
+   * @returns Parsed node
+   */
+  private parseBinary(level: number): ExpressionNode {
+    if (level === BINARY_PRECEDENCE.length) return this.parseUnary();
+    let left = this.parseBinary(level + 1);
+    while (
+      this.peek().type === "operator" &&
+      BINARY_PRECEDENCE[level].includes(this.peek().text)
+    ) {
+      const operator = this.next().text as BinaryOperator;
+      const right = this.parseBinary(level + 1);
+      left = {
+        kind: "binary",
+        operator,
+        left,
+        right,
+        start: left.start,
+        end: right.end,
+      };
+    }
+    return left;
+  }
+
+  /**
+   * Parses `!` and postfix dereferences
+   * @returns Parsed node
+   */
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator("!")) {
+      const token = this.next();
+      const operand = this.parseUnary();
+      return { kind: "not", operand, start: token.start, end: operand.end };
+    }
+
+    let node = this.parsePrimary();
+    while (true) {
+      if (this.isOperator(".")) {
+        this.next();
+        const token = this.next();
+        if (token.type === "operator" && token.text === "*") {
+          node = {
+            kind: "filter",
+            object: node,
+            start: node.start,
+            end: token.end,
+          };
+        } else if (token.type === "identifier") {
+          node = {
+            kind: "property",
+            object: node,
+            name: token.text,
+            start: node.start,
+            end: token.end,
+          };
+        } else {
+          throw this.error("Expected a property name", token);
+        }
+      } else if (this.isOperator("[")) {
+        this.next();
+        if (this.isOperator("*")) {
+          this.next();
+          const close = this.expect("]");
+          node = {
+            kind: "filter",
+            object: node,
+            start: node.start,
+            end: close.end,
+          };
+        } else {
+          const index = this.parseBinary(0);
+          const close = this.expect("]");
+          node = {
+            kind: "index",
+            object: node,
+            index,
+            start: node.start,
+            end: close.end,
+          };
+        }
+      } else {
+        return node;
+      }
+    }
+  }
+
+  /**
+   * Parses literals, contexts, function calls and parentheses
+   * @returns Parsed node
+   */
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    const range = { start: token.start, end: token.end };
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { kind: "literal", value: token.value!, ...range };
+      case "identifier": {
+        if (token.text === "true" || token.text === "false") {
+          return { kind: "literal", value: token.text === "true", ...range };
+        }
+        if (token.text === "null") {
+          return { kind: "literal", value: null, ...range };
+        }
+        if (!this.isOperator("(")) {
+          return { kind: "context", name: token.text, ...range };
+        }
+        return this.parseCall(token);
+      }
+      case "operator":
+        if (token.text === "(") {
+          const node = this.parseBinary(0);
+          const close = this.expect(")");
+          return { ...node, start: token.start, end: close.end };
+        }
+        break;
+    }
+    throw this.error(
+      token.type === "end"
+        ? "Unexpected end of expression"
+        : `Unexpected "${token.text}"`,
+      token,
+    );
+  }
+
+  /**
+   * Parses arguments of a function call
+   * @param name - Function name token
+   * @returns Call node
+   */
+  private parseCall(name: Token): FunctionCallNode {
+    const arity = FUNCTION_ARITIES.get(name.text.toLowerCase());
+    if (arity === undefined) {
+      throw this.error(`Unknown function "${name.text}"`, name);
+    }
+    this.expect("(");
+    const args: ExpressionNode[] = [];
+    if (!this.isOperator(")")) {
+      args.push(this.parseBinary(0));
+      while (this.isOperator(",")) {
+        this.next();
+        args.push(this.parseBinary(0));
+      }
+    }
+    const close = this.expect(")");
+    const [min, max] = arity;
+    if (args.length < min || args.length > max) {
+      const expected = min === max
+        ? `${min}`
+        : max === Infinity
+        ? `at least ${min}`
+        : `${min} to ${max}`;
+      throw this.error(
+        `${name.text}() takes ${expected} arguments, but got ${args.length}`,
+        name,
+      );
+    }
+    return {
+      kind: "call",
+      name: name.text,
+      args,
+      start: name.start,
+      end: close.end,
+    };
+  }
+
+  /**
+   * Splits the range into tokens
+   * @param start - Start of the expression
+   * @param end - End of the expression (exclusive)
+   * @returns Tokens followed by an "end" token
+   */
+  private tokenize(start: number, end: number): Token[] {
+    const tokens: Token[] = [];
+    const source = this.text.slice(0, end);
+    let offset = start;
+    while (offset < end) {
+      const char = source[offset];
+      if (/\s/.test(char)) {
+        offset++;
+        continue;
+      }
+
+      const number = matchAt(
+        /-?(?:0x[0-9a-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)(?![\w.])/y,
+        source,
+        offset,
+      );
+      const identifier = matchAt(/[A-Za-z_][\w-]*/y, source, offset);
+      if (number !== undefined) {
+        const digits = number.replace(/^-/, "");
+        const value = /^0x/i.test(digits)
+          ? parseInt(digits.slice(2), 16)
+          : Number(digits);
+        tokens.push(
+          this.token(
+            "number",
+            number,
+            offset,
+            digits === number ? value : -value,
+          ),
+        );
+        offset += number.length;
+      } else if (identifier !== undefined) {
+        tokens.push(this.token("identifier", identifier, offset));
+        offset += identifier.length;
+      } else if (char === "'") {
+        let value = "";
+        let cursor = offset + 1;
+        while (true) {
+          if (cursor >= end) {
+            throw new ExpressionSyntaxError(
+              "Unterminated string",
+              this.text,
+              offset,
+            );
+          }
+          if (source[cursor] === "'") {
+            // '' is an escaped quote
+            if (source[cursor + 1] !== "'") break;
+            cursor++;
+          }
+          value += source[cursor];
+          cursor++;
+        }
+        tokens.push(
+          this.token("string", source.slice(offset, cursor + 1), offset, value),
+        );
+        offset = cursor + 1;
+      } else {
+        const operator = OPERATORS.find((it) => source.startsWith(it, offset));
+        if (operator === undefined) {
+          throw new ExpressionSyntaxError(
+            `Unexpected character "${char}"`,
+            this.text,
+            offset,
+          );
+        }
+        tokens.push(this.token("operator", operator, offset));
+        offset += operator.length;
+      }
+    }
+    tokens.push(this.token("end", "", end));
+    return tokens;
+  }
+
+  /**
+   * Creates a token
+   * @param type - Token type
+   * @param text - Source text of the token
+   * @param start - Offset of the token
+   * @param value - Value of a literal
+   * @returns Token
+   */
+  private token(
+    type: Token["type"],
+    text: string,
+    start: number,
+    value?: number | string,
+  ): Token {
+    return { type, text, value, start, end: start + text.length };
+  }
+
+  /**
+   * Returns the current token
+   * @returns Current token
+   */
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  /**
+   * Consumes the current token
+   * @returns Consumed token
+   */
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== "end") this.index++;
+    return token;
+  }
+
+  /**
+   * Checks the current token
+   * @param operator - Expected operator
+   * @returns True if the current token is the operator
+   */
+  private isOperator(operator: string): boolean {
+    const token = this.peek();
+    return token.type === "operator" && token.text === operator;
+  }
+
+  /**
+   * Consumes an expected operator
+   * @param operator - Expected operator
+   * @returns Consumed token
+   */
+  private expect(operator: string): Token {
+    if (!this.isOperator(operator)) {
+      throw this.error(`Expected "${operator}"`, this.peek());
+    }
+    return this.next();
+  }
+
+  /**
+   * Creates a syntax error at a token
+   * @param message - Description of the error
+   * @param token - Token of the error
+   * @returns Syntax error
+   */
+  private error(message: string, token: Token): ExpressionSyntaxError {
+    return new ExpressionSyntaxError(message, this.text, token.start);
+  }
+}
+
+/** Binary operators from the lowest precedence */
+const BINARY_PRECEDENCE = [
+  ["||"],
+  ["&&"],
+  ["==", "!="],
+  ["<", "<=", ">", ">="],
+];
+
+/**
+ * Matches a sticky regular expression at an offset
+ * @param regExp - Regular expression with the "y" flag
+ * @param text - Text to match
+ * @param offset - Offset to match at
+ * @returns Matched text, or undefined
+ */
+function matchAt(
+  regExp: RegExp,
+  text: string,
+  offset: number,
+): string | undefined {
+  regExp.lastIndex = offset;
+  return regExp.exec(text)?.[0];
+}
+
+/**
+ * Finds the `}}` that closes an expression, skipping string literals
+ * @param text - Text containing the expression
+ * @param start - Offset after `${{`
+ * @returns Offset of `}}`
+ * @throws {ExpressionSyntaxError} If the expression is not closed
+ */
+function findExpressionEnd(text: string, start: number): number {
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "'") {
+      inString = !inString;
+    } else if (!inString && text.startsWith("}}", i)) {
+      return i;
+    }
+  }
+  throw new ExpressionSyntaxError("Unclosed ${{", text, start - 3);
+}
+
+/**
+ * Evaluates a node
+ * @param node - Node to evaluate
+ * @param contexts - Values of the contexts
+ * @param options - Evaluation options
+ * @returns Value, which may be a FilteredArray
+ */
+function evaluateNode(
+  node: ExpressionNode,
+  contexts: ExpressionContexts,
+  options: ExpressionOptions,
+): unknown {
+  const evaluate = (it: ExpressionNode) => evaluateNode(it, contexts, options);
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "context":
+      return getProperty(contexts, node.name);
+    case "property":
+      return dereference(evaluate(node.object), node.name);
+    case "index":
+      return dereference(evaluate(node.object), unwrap(evaluate(node.index)));
+    case "filter":
+      return filter(evaluate(node.object));
+    case "call":
+      return callFunction(node, node.args.map(evaluate), options);
+    case "not":
+      return !isTruthy(evaluate(node.operand));
+    case "binary": {
+      const left = evaluate(node.left);
+      switch (node.operator) {
+        case "&&":
+          return isTruthy(left) ? evaluate(node.right) : left;
+        case "||":
+          return isTruthy(left) ? left : evaluate(node.right);
+        case "==":
+          return looseEquals(left, evaluate(node.right));
+        case "!=":
+          return !looseEquals(left, evaluate(node.right));
+        default:
+          return compare(node.operator, left, evaluate(node.right));
+      }
+    }
+  }
+}
+
+/**
+ * Calls a built-in function
+ * @param node - Call node
+ * @param args - Evaluated arguments
+ * @param options - Evaluation options
+ * @returns Return value
+ */
+function callFunction(
+  node: FunctionCallNode,
+  args: unknown[],
+  options: ExpressionOptions,
+): unknown {
+  const values = args.map(unwrap);
+  const status = options.status ?? "success";
+  switch (node.name.toLowerCase()) {
+    case "contains":
+      return Array.isArray(values[0])
+        ? values[0].some((item) => looseEquals(item, values[1]))
+        : coerceToString(values[0]).toUpperCase()
+          .includes(coerceToString(values[1]).toUpperCase());
+    case "startswith":
+      return coerceToString(values[0]).toUpperCase()
+        .startsWith(coerceToString(values[1]).toUpperCase());
+    case "endswith":
+      return coerceToString(values[0]).toUpperCase()
+        .endsWith(coerceToString(values[1]).toUpperCase());
+    case "format":
+      return format(coerceToString(values[0]), values.slice(1));
+    case "join": {
+      const separator = values.length > 1 ? coerceToString(values[1]) : ",";
+      return Array.isArray(values[0])
+        ? values[0].map(coerceToString).join(separator)
+        : coerceToString(values[0]);
+    }
+    case "tojson":
+      return JSON.stringify(toResult(values[0]), null, 2);
+    case "fromjson":
+      try {
+        return JSON.parse(coerceToString(values[0]));
+      } catch {
+        throw new ExpressionEvaluationError(
+          `fromJSON() got invalid JSON: ${coerceToString(values[0])}`,
+        );
+      }
+    case "hashfiles":
+      return options.hashFiles?.(values.map(coerceToString)) ?? "";
+    case "success":
+      return status === "success";
+    case "failure":
+      return status === "failure";
+    case "cancelled":
+      return status === "cancelled";
+    case "always":
+      return true;
+  }
+  // parseExpression rejects unknown functions
+  throw new ExpressionEvaluationError(`Unknown function "${node.name}"`);
+}
+
+/**
+ * Replaces `{0}`, `{1}`, ... of a format string
+ * @param template - Format string. `{{` and `}}` are escaped braces
+ * @param args - Replacement values
+ * @returns Formatted string
+ * @throws {ExpressionEvaluationError} If the format string is invalid
+ */
+function format(template: string, args: unknown[]): string {
+  return template.replace(/\{\{|\}\}|\{(\d+)\}|[{}]/g, (match, index) => {
+    if (match === "{{") return "{";
+    if (match === "}}") return "}";
+    if (index === undefined || Number(index) >= args.length) {
+      throw new ExpressionEvaluationError(
+        `format() got an invalid format string: ${template}`,
+      );
+    }
+    return coerceToString(args[Number(index)]);
+  });
+}
+
+/**
+ * Dereferences a property or an index
+ * @param object - Object, array or FilteredArray
+ * @param key - Property name or index
+ * @returns Value, or null if missing
+ */
+function dereference(object: unknown, key: unknown): unknown {
+  if (object instanceof FilteredArray) {
+    return new FilteredArray(
+      object.items.map((item) => dereference(item, key))
+        .filter((item) => item !== null),
+    );
+  }
+  if (Array.isArray(object)) {
+    const index = coerceToNumber(key);
+    return Number.isInteger(index) && index >= 0 && index < object.length
+      ? object[index] ?? null
+      : null;
+  }
+  if (typeof object === "object" && object !== null) {
+    return getProperty(object, coerceToString(key));
+  }
+  return null;
+}
+
+/**
+ * Reads a property case-insensitively
+ * @param object - Object
+ * @param key - Property name
+ * @returns Value, or null if missing
+ */
+function getProperty(object: object, key: string): unknown {
+  const record = object as Record<string, unknown>;
+  if (Object.hasOwn(record, key)) return record[key] ?? null;
+  const lowerKey = key.toLowerCase();
+  const actualKey = Object.keys(record).find((it) =>
+    it.toLowerCase() === lowerKey
+  );
+  return actualKey !== undefined ? record[actualKey] ?? null : null;
+}
+
+/**
+ * Applies an object filter
+ * @param object - Object, array or FilteredArray
+ * @returns Values of the object or items of the array
+ */
+function filter(object: unknown): FilteredArray {
+  const values = (value: unknown): unknown[] => {
+    if (Array.isArray(value)) return value;
+    if (typeof value === "object" && value !== null) {
+      return Object.values(value);
+    }
+    return [];
+  };
+  return new FilteredArray(
+    object instanceof FilteredArray
+      ? object.items.flatMap(values)
+      : values(object),
+  );
+}
+
+/**
+ * Converts a FilteredArray to an array and undefined to null
+ * @param value - Value
+ * @returns Plain value
+ */
+function unwrap(value: unknown): unknown {
+  if (value instanceof FilteredArray) return value.items;
+  return value ?? null;
+}
+
+/**
+ * Converts an evaluated value to the public result
+ * @param value - Value
+ * @returns Expression value
+ */
+function toResult(value: unknown): ExpressionValue {
+  return unwrap(value) as ExpressionValue;
+}
+
+/**
+ * Names the type of a value
+ * @param value - Unwrapped value
+ * @returns Type name
+ */
+function typeOf(
+  value: unknown,
+): "null" | "boolean" | "number" | "string" | "array" | "object" {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  const actualType: string = typeof value;
+  if (
+    actualType === "boolean" || actualType === "number" ||
+    actualType === "string"
+  ) {
+    return actualType;
+  }
+  return "object";
+}
+
+/**
+ * Converts a value to a number like GitHub does for comparisons
+ * @param value - Value
+ * @returns Number, or NaN for arrays, objects and non-numeric strings
+ */
+function coerceToNumber(value: unknown): number {
+  const unwrapped = unwrap(value);
+  switch (typeOf(unwrapped)) {
+    case "null":
+      return 0;
+    case "boolean":
+      return unwrapped ? 1 : 0;
+    case "number":
+      return unwrapped as number;
+    case "string": {
+      const text = (unwrapped as string).trim();
+      if (text === "") return 0;
+      if (
+        /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$|^0x[0-9a-fA-F]+$/.test(
+          text,
+        )
+      ) {
+        return Number(text);
+      }
+      return NaN;
+    }
+    default:
+      return NaN;
+  }
+}
+
+/**
+ * Compares two values with `==`
+ * @param left - Left operand
+ * @param right - Right operand
+ * @returns True if equal. Strings are compared case-insensitively
+ */
+function looseEquals(left: unknown, right: unknown): boolean {
+  const a = unwrap(left);
+  const b = unwrap(right);
+  const typeA = typeOf(a);
+  const typeB = typeOf(b);
+  if (typeA === typeB) {
+    if (typeA === "string") {
+      return (a as string).toUpperCase() === (b as string).toUpperCase();
+    }
+    // Arrays and objects are equal only to themselves
+    return a === b;
+  }
+  if (
+    typeA === "array" || typeA === "object" || typeB === "array" ||
+    typeB === "object"
+  ) {
+    return false;
+  }
+  return coerceToNumber(a) === coerceToNumber(b);
+}
+
+/**
+ * Compares two values with `<`, `<=`, `>` or `>=`
+ * @param operator - Comparison operator
+ * @param left - Left operand
+ * @param right - Right operand
+ * @returns Result. Comparisons with NaN are false
+ */
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  const a = unwrap(left);
+  const b = unwrap(right);
+  let order: number;
+  if (typeOf(a) === "string" && typeOf(b) === "string") {
+    const upperA = (a as string).toUpperCase();
+    const upperB = (b as string).toUpperCase();
+    order = upperA < upperB ? -1 : upperA > upperB ? 1 : 0;
+  } else {
+    const numberA = coerceToNumber(a);
+    const numberB = coerceToNumber(b);
+    if (Number.isNaN(numberA) || Number.isNaN(numberB)) return false;
+    order = numberA - numberB;
+  }
+  switch (operator) {
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    default:
+      return order >= 0;
+  }
+}
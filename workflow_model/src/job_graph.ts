@@ -0,0 +1,369 @@
+import type { WorkflowJob } from "../../api_client/api_client.ts";
+import { JobModel, type WorkflowModel } from "./workflow_file.ts";
+
+/** Problem of the `needs` of a workflow, which GitHub rejects */
+export type JobGraphIssue =
+  | {
+    kind: "unknown-dependency";
+    /** Job that has the `needs` entry */
+    jobId: string;
+    /** Job ID in `needs` that is not defined in the workflow */
+    dependency: string;
+    /** Line number of the `needs` entry */
+    line: number;
+    message: string;
+  }
+  | {
+    kind: "cycle";
+    /** Jobs of the cycle in dependency order, each needing the next and the last needing the first */
+    jobIds: string[];
+    /** Line number of the `needs` entry from the first job of jobIds to the second */
+    line: number;
+    message: string;
+  };
+
+/** Job on the critical path of a workflow run */
+export type CriticalPathEntry = {
+  /** Job definition */
+  job: JobModel;
+  /** Jobs of the API response run for the definition, e.g. every matrix combination */
+  workflowJobs: WorkflowJob[];
+  /** Start of the first of the workflowJobs */
+  startedAt: Date;
+  /** Completion of the last of the workflowJobs */
+  completedAt: Date;
+  /** Milliseconds from the completion of the previous entry (or the start of the run) to startedAt, e.g. queueing */
+  waitMs: number;
+  /** Milliseconds from startedAt to completedAt */
+  durationMs: number;
+};
+
+/** Chain of jobs that determined the wall-clock time of a workflow run */
+export type CriticalPath = {
+  /** Jobs from the first to the last to complete */
+  entries: CriticalPathEntry[];
+  /** Milliseconds from the first job start to the last job completion */
+  durationMs: number;
+};
+
+/**
+ * Error thrown when jobs can not be ordered because their `needs` form a cycle
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   graph.topologicalOrder();
+ * } catch (error) {
+ *   if (error instanceof JobGraphError) console.error(error.issues);
+ * }
+ * ```
+ */
+export class JobGraphError extends Error {
+  /** Cycles found in the graph */
+  issues: JobGraphIssue[];
+
+  /**
+   * Creates a new JobGraphError instance
+   * @param issues - Cycles found in the graph
+   */
+  constructor(issues: JobGraphIssue[]) {
+    super(issues.map((issue) => issue.message).join("; "));
+    this.name = "JobGraphError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Dependency graph of the jobs of a workflow built from `needs`
+ *
+ * @example
+ * ```typescript
+ * const graph = new JobGraph(workflow);
+ * for (const issue of graph.issues) console.error(issue.message);
+ * console.log(graph.topologicalOrder().map((job) => job.id));
+ *
+ * const jobs = await github.fetchWorkflowRunJobs(owner, repo, runId);
+ * const path = graph.criticalPath(jobs);
+ * for (const entry of path.entries) {
+ *   console.log(entry.job.id, entry.waitMs, entry.durationMs);
+ * }
+ * ```
+ */
+export class JobGraph {
+  /** Jobs in the order of the workflow file */
+  readonly jobs: JobModel[];
+  /** Jobs by ID */
+  private readonly jobMap: Map<string, JobModel>;
+
+  /**
+   * Creates a new JobGraph instance
+   * @param workflow - Workflow to analyze
+   */
+  constructor(workflow: WorkflowModel) {
+    this.jobs = workflow.jobs;
+    this.jobMap = new Map(this.jobs.map((job) => [job.id, job]));
+  }
+
+  /**
+   * Gets the job of an ID
+   *
+   * @param jobId - Job ID
+   * @returns Job model, or undefined if not defined
+   */
+  job(jobId: string): JobModel | undefined {
+    return this.jobMap.get(jobId);
+  }
+
+  /**
+   * Gets the jobs a job needs
+   *
+   * @param jobId - Job ID
+   * @returns Jobs in `needs` that are defined in the workflow
+   *
+   * @example
+   * ```typescript
+   * graph.dependenciesOf("deploy").map((job) => job.id); // ["build", "test"]
+   * ```
+   */
+  dependenciesOf(jobId: string): JobModel[] {
+    return (this.jobMap.get(jobId)?.needs ?? [])
+      .map((id) => this.jobMap.get(id))
+      .filter((job) => job !== undefined);
+  }
+
+  /**
+   * Gets the jobs that need a job
+   *
+   * @param jobId - Job ID
+   * @param options - Options
+   * @param options.transitive - Include the jobs that need them, recursively
+   * @returns Dependent jobs in the order of the workflow file, including the job itself if it is in a cycle
+   *
+   * @example
+   * ```typescript
+   * // Jobs skipped when "build" fails
+   * graph.dependentsOf("build", { transitive: true }).map((job) => job.id);
+   * ```
+   */
+  dependentsOf(
+    jobId: string,
+    options: { transitive?: boolean } = {},
+  ): JobModel[] {
+    const found = new Set<string>();
+    const queue = [jobId];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const job of this.jobs) {
+        if (found.has(job.id) || !job.needs.includes(current)) continue;
+        found.add(job.id);
+        if (options.transitive) queue.push(job.id);
+      }
+    }
+    // Includes jobId itself when it is in a cycle
+    return this.jobs.filter((job) => found.has(job.id));
+  }
+
+  /**
+   * Finds `needs` entries of unknown jobs and cycles
+   *
+   * @returns Issues with line numbers, or empty array if the graph is valid
+   *
+   * @example
+   * ```typescript
+   * for (const issue of graph.issues) {
+   *   console.error(`L${issue.line}: ${issue.message}`);
+   * }
+   * ```
+   */
+  get issues(): JobGraphIssue[] {
+    const issues: JobGraphIssue[] = [];
+    for (const job of this.jobs) {
+      for (const [dependency, line] of this.needsWithLines(job)) {
+        if (this.jobMap.has(dependency)) continue;
+        issues.push({
+          kind: "unknown-dependency",
+          jobId: job.id,
+          dependency,
+          line,
+          message:
+            `Job "${job.id}" needs "${dependency}", which is not defined in the workflow`,
+        });
+      }
+    }
+    return [...issues, ...this.findCycles()];
+  }
+
+  /**
+   * Orders jobs so that every job comes after the jobs it needs
+   *
+   * Jobs that do not depend on each other keep the order of the workflow file.
+   * `needs` of unknown jobs are ignored.
+   *
+   * @returns Jobs in topological order
+   * @throws {JobGraphError} If `needs` form a cycle
+   *
+   * @example
+   * ```typescript
+   * graph.topologicalOrder().map((job) => job.id); // ["build", "lint", "test", "deploy"]
+   * ```
+   */
+  topologicalOrder(): JobModel[] {
+    const cycles = this.findCycles();
+    if (cycles.length > 0) throw new JobGraphError(cycles);
+
+    const ordered: JobModel[] = [];
+    const placed = new Set<string>();
+    while (ordered.length < this.jobs.length) {
+      const next = this.jobs.find((job) =>
+        !placed.has(job.id) &&
+        this.dependenciesOf(job.id).every((it) => placed.has(it.id))
+      )!;
+      ordered.push(next);
+      placed.add(next.id);
+    }
+    return ordered;
+  }
+
+  /**
+   * Finds the chain of jobs that determined the wall-clock time of a run
+   *
+   * Starting from the job that completed last, each step goes back to the
+   * job in `needs` that completed last, which is the one the job waited for.
+   * Jobs of the API response are paired with their definition by
+   * `JobModel.match`, so a matrix job spans all of its combinations.
+   * Jobs that have not completed are ignored.
+   *
+   * @param workflowJobs - Jobs of a run, e.g. from `fetchWorkflowRunJobs`
+   * @returns Entries of the critical path, or no entries if no job has completed
+   *
+   * @example
+   * ```typescript
+   * const path = graph.criticalPath(await github.fetchWorkflowRunJobs(owner, repo, runId));
+   * console.log(path.entries.map((it) => `${it.job.id}: ${it.durationMs / 1000}s`));
+   * ```
+   */
+  criticalPath(workflowJobs: WorkflowJob[]): CriticalPath {
+    const timings = new Map<
+      string,
+      { workflowJobs: WorkflowJob[]; startedAt: Date; completedAt: Date }
+    >();
+    for (const workflowJob of workflowJobs) {
+      if (workflowJob.completed_at === null) continue;
+      // Jobs of a reusable workflow are named "{caller job} / {called job}"
+      const job = JobModel.match(this.jobs, workflowJob.name) ??
+        JobModel.match(this.jobs, workflowJob.name.split(" / ")[0]);
+      if (job === undefined) continue;
+
+      const startedAt = new Date(workflowJob.started_at);
+      const completedAt = new Date(workflowJob.completed_at);
+      const timing = timings.get(job.id);
+      if (timing === undefined) {
+        timings.set(job.id, {
+          workflowJobs: [workflowJob],
+          startedAt,
+          completedAt,
+        });
+        continue;
+      }
+      timing.workflowJobs.push(workflowJob);
+      if (startedAt < timing.startedAt) timing.startedAt = startedAt;
+      if (completedAt > timing.completedAt) timing.completedAt = completedAt;
+    }
+    if (timings.size === 0) return { entries: [], durationMs: 0 };
+
+    const latest = (ids: string[]) =>
+      ids.filter((id) => timings.has(id)).reduce<string | undefined>(
+        (found, id) =>
+          found === undefined ||
+            timings.get(id)!.completedAt > timings.get(found)!.completedAt
+            ? id
+            : found,
+        undefined,
+      );
+    const chain: string[] = [];
+    const visited = new Set<string>();
+    let current = latest([...timings.keys()]);
+    while (current !== undefined && !visited.has(current)) {
+      chain.unshift(current);
+      visited.add(current);
+      current = latest(this.jobMap.get(current)!.needs);
+    }
+
+    const runStartedAt = Math.min(
+      ...[...timings.values()].map((it) => it.startedAt.getTime()),
+    );
+    let previousCompletedAt = runStartedAt;
+    const entries = chain.map((id) => {
+      const timing = timings.get(id)!;
+      const entry: CriticalPathEntry = {
+        job: this.jobMap.get(id)!,
+        ...timing,
+        waitMs: timing.startedAt.getTime() - previousCompletedAt,
+        durationMs: timing.completedAt.getTime() - timing.startedAt.getTime(),
+      };
+      previousCompletedAt = timing.completedAt.getTime();
+      return entry;
+    });
+    return { entries, durationMs: previousCompletedAt - runStartedAt };
+  }
+
+  /**
+   * Pairs `needs` entries with their line numbers
+   *
+   * @param job - Job model
+   * @returns Pairs of job ID and line number. The job line is used when the entry line is unknown
+   */
+  private needsWithLines(job: JobModel): [string, number][] {
+    const lines = job.ast.needsStartLines();
+    return job.needs.map((id, index) => [id, lines[index] ?? job.startLine]);
+  }
+
+  /**
+   * Finds cycles of `needs` by depth-first search
+   *
+   * @returns An issue for each distinct cycle
+   */
+  private findCycles(): JobGraphIssue[] {
+    const issues: JobGraphIssue[] = [];
+    const seen = new Set<string>();
+    const done = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (id: string) => {
+      path.push(id);
+      for (
+        const [dependency, line] of this.needsWithLines(this.jobMap.get(id)!)
+      ) {
+        if (!this.jobMap.has(dependency) || done.has(dependency)) continue;
+        const index = path.indexOf(dependency);
+        if (index === -1) {
+          visit(dependency);
+          continue;
+        }
+        const jobIds = path.slice(index);
+        const key = [...jobIds].sort().join("\n");
+        if (seen.has(key)) continue;
+        seen.add(key);
+        // Report at the `needs` entry of the first job of the cycle
+        const first = jobIds.length === 1
+          ? line
+          : this.needsWithLines(this.jobMap.get(jobIds[0])!)
+            .find(([it]) => it === jobIds[1])![1];
+        issues.push({
+          kind: "cycle",
+          jobIds,
+          line: first,
+          message: `Jobs form a cycle of needs: ${
+            [...jobIds, jobIds[0]].join(" -> ")
+          }`,
+        });
+      }
+      path.pop();
+      done.add(id);
+    };
+    for (const job of this.jobs) {
+      if (!done.has(job.id)) visit(job.id);
+    }
+    return issues;
+  }
+}
@@ -0,0 +1,332 @@
+import type {
+  GithubOctokit,
+  WorkflowJob,
+  WorkflowJobStep,
+} from "../../api_client/api_client.ts";
+import { StepModel } from "./workflow_file.ts";
+
+/** Kind of a job log line, derived from its `##[...]` marker */
+export type JobLogLineType =
+  | "output"
+  | "command"
+  | "group"
+  | "endgroup"
+  | "error"
+  | "warning"
+  | "notice"
+  | "debug";
+
+/** A single parsed line of a job log */
+export type JobLogLine = {
+  /** Line number in the raw log (1-based) */
+  lineNumber: number;
+  /** ISO 8601 timestamp prefix of the line, if any */
+  timestamp?: string;
+  /** Kind of the line */
+  type: JobLogLineType;
+  /** Line text without the timestamp prefix and `##[...]` marker */
+  text: string;
+  /** Title of the `##[group]` enclosing this line, if any */
+  group?: string;
+};
+
+/**
+ * A section of a job log produced by a single step
+ *
+ * @example
+ * ```typescript
+ * for (const section of jobLog.sections) {
+ *   console.log(section.name, section.stepModel?.htmlUrlWithLine);
+ *   section.errors.forEach((line) => console.log(line.text));
+ * }
+ * ```
+ */
+export class JobLogSection {
+  /** Step name from the API, or the `Run ...` header when steps are unknown */
+  name: string;
+  /** The API step this section belongs to */
+  step?: WorkflowJobStep;
+  /** The step definition in the workflow file matched by `StepModel.match` */
+  stepModel?: StepModel;
+  /** Log lines of the step */
+  lines: JobLogLine[] = [];
+
+  /**
+   * Creates a new JobLogSection instance
+   *
+   * @param name - Section name
+   * @param step - The API step this section belongs to
+   * @param stepModel - The matched step definition
+   */
+  constructor(name: string, step?: WorkflowJobStep, stepModel?: StepModel) {
+    this.name = name;
+    this.step = step;
+    this.stepModel = stepModel;
+  }
+
+  /**
+   * Gets the `##[error]` lines of the step
+   *
+   * @returns Array of error lines
+   */
+  get errors(): JobLogLine[] {
+    return this.lines.filter((line) => line.type === "error");
+  }
+
+  /**
+   * Gets the `##[warning]` lines of the step
+   *
+   * @returns Array of warning lines
+   */
+  get warnings(): JobLogLine[] {
+    return this.lines.filter((line) => line.type === "warning");
+  }
+
+  /**
+   * Checks if the step of this section failed
+   *
+   * @returns True if the step conclusion is "failure"
+   */
+  isFailure(): boolean {
+    return this.step?.conclusion === "failure";
+  }
+}
+
+/**
+ * Model representing a downloaded job log split into per-step sections
+ *
+ * Lines are assigned to steps by comparing their timestamp prefix with the
+ * `started_at`/`completed_at` of each step from the jobs API. Because the API
+ * timestamps have only second precision, a `##[group]Run ...` header also
+ * starts the next step when it falls within that step's start second.
+ *
+ * @example
+ * ```typescript
+ * const jobLog = await JobLog.download(github.octokit, {
+ *   owner: "owner",
+ *   repo: "repo",
+ *   job,
+ *   stepModels: jobModel.steps,
+ * });
+ * for (const section of jobLog.failedSections()) {
+ *   console.log(section.stepModel?.htmlUrlWithLine);
+ *   section.errors.forEach((line) => console.log(line.text));
+ * }
+ * ```
+ */
+export class JobLog {
+  /** Raw job log text */
+  raw: string;
+  /** The job the log belongs to */
+  job: WorkflowJob;
+  /** All parsed lines */
+  lines: JobLogLine[];
+  /** Per-step sections in execution order */
+  sections: JobLogSection[];
+
+  /**
+   * Creates a new JobLog instance
+   *
+   * @param raw - Raw job log text
+   * @param job - The job the log belongs to
+   * @param stepModels - Step definitions of the job to pair with sections
+   */
+  constructor(raw: string, job: WorkflowJob, stepModels?: StepModel[]) {
+    this.raw = raw;
+    this.job = job;
+    this.lines = JobLog.parse(raw);
+    this.sections = job.steps === undefined || job.steps.length === 0
+      ? JobLog.splitByHeader(this.lines, stepModels)
+      : JobLog.splitBySteps(this.lines, job.steps, stepModels);
+  }
+
+  /**
+   * Downloads a job log and creates a JobLog instance
+   *
+   * @param octokit - Octokit subset from `Github.octokit`
+   * @param params - Parameters for downloading the log
+   * @param params.owner - Repository owner
+   * @param params.repo - Repository name
+   * @param params.job - The job to download the log for
+   * @param params.stepModels - Step definitions of the job to pair with sections
+   * @returns JobLog instance
+   */
+  static async download(
+    octokit: GithubOctokit,
+    params: {
+      owner: string;
+      repo: string;
+      job: WorkflowJob;
+      stepModels?: StepModel[];
+    },
+  ): Promise<JobLog> {
+    const res = await octokit.actions.downloadJobLogsForWorkflowRun({
+      owner: params.owner,
+      repo: params.repo,
+      job_id: params.job.id,
+    });
+    return new JobLog(res.data, params.job, params.stepModels);
+  }
+
+  /**
+   * Gets sections of the failed steps
+   *
+   * @returns Array of sections whose step conclusion is "failure"
+   */
+  failedSections(): JobLogSection[] {
+    return this.sections.filter((section) => section.isFailure());
+  }
+
+  /**
+   * Parses raw job log text into lines
+   *
+   * @param raw - Raw job log text
+   * @returns Array of parsed lines
+   *
+   * @example
+   * ```typescript
+   * const lines = JobLog.parse("2024-01-01T00:00:00.0000000Z ##[error]Failed");
+   * console.log(lines[0].type); // "error"
+   * ```
+   */
+  static parse(raw: string): JobLogLine[] {
+    const groups: string[] = [];
+    return raw.replace(/^\uFEFF/, "").split(/\r?\n/)
+      .map((rawLine, index) => {
+        const match = rawLine.match(
+          /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z) ?(.*)$/,
+        );
+        const timestamp = match?.[1];
+        const body = match ? match[2] : rawLine;
+
+        const marker = body.match(
+          /^##\[(group|endgroup|error|warning|notice|debug)\](.*)$/,
+        );
+        const command = body.match(/^\[command\](.*)$/);
+        const type: JobLogLineType = marker
+          ? marker[1] as JobLogLineType
+          : command
+          ? "command"
+          : "output";
+        const text = marker ? marker[2] : command ? command[1] : body;
+
+        if (type === "endgroup") groups.pop();
+        const line: JobLogLine = {
+          lineNumber: index + 1,
+          timestamp,
+          type,
+          text,
+          group: groups.at(-1),
+        };
+        if (type === "group") groups.push(text);
+        return line;
+      })
+      // Drop the empty line after the trailing newline
+      .filter((line, index, lines) =>
+        !(index === lines.length - 1 && line.text === "" && !line.timestamp)
+      );
+  }
+
+  /**
+   * Splits lines into sections using step timestamps from the jobs API
+   *
+   * @param lines - Parsed lines
+   * @param steps - Steps of the job from the jobs API
+   * @param stepModels - Step definitions to pair with sections
+   * @returns Array of sections
+   */
+  private static splitBySteps(
+    lines: JobLogLine[],
+    steps: WorkflowJobStep[],
+    stepModels?: StepModel[],
+  ): JobLogSection[] {
+    // Skipped steps do not write any log
+    const sections = steps
+      .filter((step) => step.conclusion !== "skipped" && step.started_at)
+      .toSorted((a, b) => a.number - b.number)
+      .map((step) =>
+        new JobLogSection(
+          step.name,
+          step,
+          StepModel.match(stepModels, step.name),
+        )
+      );
+    if (sections.length === 0) return JobLog.splitByHeader(lines, stepModels);
+
+    let index = 0;
+    for (const line of lines) {
+      const time = JobLog.toSeconds(line.timestamp);
+      while (time !== undefined && index < sections.length - 1) {
+        const current = sections[index];
+        const nextStart = JobLog.toSeconds(
+          sections[index + 1].step?.started_at,
+        );
+        const currentEnd = JobLog.toSeconds(current.step?.completed_at);
+        if (nextStart === undefined || time < nextStart) break;
+
+        const isAfterCurrent = currentEnd !== undefined && time > currentEnd;
+        const isNextHeader = JobLog.isStepHeader(line) &&
+          current.lines.length > 0;
+        if (!isAfterCurrent && !isNextHeader) break;
+        index++;
+      }
+      sections[index].lines.push(line);
+    }
+    return sections;
+  }
+
+  /**
+   * Splits lines into sections at each top-level `##[group]Run ...` header
+   *
+   * Used when the job steps are unknown. Lines before the first header belong
+   * to a "Set up job" section.
+   *
+   * @param lines - Parsed lines
+   * @param stepModels - Step definitions to pair with sections
+   * @returns Array of sections
+   */
+  private static splitByHeader(
+    lines: JobLogLine[],
+    stepModels?: StepModel[],
+  ): JobLogSection[] {
+    const sections = [new JobLogSection("Set up job")];
+    for (const line of lines) {
+      if (JobLog.isStepHeader(line)) {
+        sections.push(
+          new JobLogSection(
+            line.text,
+            undefined,
+            StepModel.match(stepModels, line.text),
+          ),
+        );
+      }
+      sections.at(-1)!.lines.push(line);
+    }
+    return sections.filter((section) => section.lines.length > 0);
+  }
+
+  /**
+   * Checks if a line is the header GitHub writes at the beginning of a step
+   *
+   * @param line - Parsed line
+   * @returns True if the line is a top-level `##[group]Run ...`
+   */
+  private static isStepHeader(line: JobLogLine): boolean {
+    return line.type === "group" && line.group === undefined &&
+      line.text.startsWith("Run ");
+  }
+
+  /**
+   * Converts an ISO 8601 timestamp to epoch seconds
+   *
+   * @param timestamp - ISO 8601 timestamp
+   * @returns Epoch seconds truncated to an integer, or undefined
+   */
+  private static toSeconds(
+    timestamp: string | null | undefined,
+  ): number | undefined {
+    if (!timestamp) return undefined;
+    const time = Date.parse(timestamp);
+    return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+  }
+}
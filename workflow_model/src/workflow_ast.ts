@@ -1,7 +1,9 @@
 import {
+  Kind,
   safeLoad,
   type YamlMap,
   type YAMLMapping,
+  type YAMLNode,
   type YAMLSequence,
 } from "yaml-ast-parser";
 import { StructuredSource } from "structured-source";
@@ -49,6 +51,100 @@ export class WorkflowAst {
       ?.value as YamlMap; // jobsは必ず存在し確定でYamlMap
     return jobsMap.mappings.map((it) => new JobAst(it, this.src));
   }
+
+  /**
+   * Gets AST nodes for all events of the `on:` section
+   *
+   * Supports the string (`on: push`), array (`on: [push, pull_request]`)
+   * and map syntaxes, in the order they are written.
+   *
+   * @returns Array of trigger AST nodes, or empty array if `on:` is missing
+   *
+   * @example
+   * ```typescript
+   * const triggerAsts = workflowAst.triggerAsts();
+   * triggerAsts.forEach(trigger => console.log(trigger.startLine()));
+   * ```
+   */
+  triggerAsts(): TriggerAst[] {
+    const on = this.ast.mappings.find((it) => it.key.value === "on")?.value;
+    if (on === undefined || on === null) return [];
+    switch (on.kind) {
+      case Kind.SCALAR:
+        return [new TriggerAst(on, this.src)];
+      case Kind.SEQ:
+        return (on as YAMLSequence).items.map((it) =>
+          new TriggerAst(it, this.src)
+        );
+      case Kind.MAP:
+        return (on as YamlMap).mappings.map((it) =>
+          new TriggerAst(it, this.src)
+        );
+      default:
+        return [];
+    }
+  }
+}
+
+/**
+ * YAML AST wrapper for an event of the `on:` section
+ *
+ * Wraps the event name node of the string and array syntaxes, or the
+ * `event: ...` mapping of the map syntax.
+ *
+ * @example
+ * ```typescript
+ * const triggerAst = workflowAst.triggerAsts()[0];
+ * console.log(triggerAst.startLine()); // line number of the event
+ * ```
+ */
+export class TriggerAst {
+  /** YAML node of the event */
+  private readonly ast: YAMLNode;
+  /** Structured source for line number tracking */
+  private readonly src: StructuredSource;
+
+  /**
+   * Creates a new TriggerAst instance
+   * @param ast - Event name node or `event: ...` mapping node
+   * @param src - Structured source for line number tracking
+   */
+  constructor(ast: YAMLNode, src: StructuredSource) {
+    this.ast = ast;
+    this.src = src;
+  }
+
+  /**
+   * Gets the starting line number of the event in the workflow file
+   * @returns Line number (1-based)
+   *
+   * @example
+   * ```typescript
+   * console.log(`Triggered by the event at line ${triggerAst.startLine()}`);
+   * ```
+   */
+  startLine(): number {
+    return this.src.indexToPosition(this.ast.startPosition).line;
+  }
+
+  /**
+   * Gets the starting line numbers of the items of the event's array value,
+   * e.g. the cron entries of `schedule`
+   * @returns Line numbers (1-based), or empty array if the value is not an array
+   *
+   * @example
+   * ```typescript
+   * const cronLines = scheduleAst.itemStartLines();
+   * ```
+   */
+  itemStartLines(): number[] {
+    if (this.ast.kind !== Kind.MAPPING) return [];
+    const value = (this.ast as YAMLMapping).value;
+    if (value?.kind !== Kind.SEQ) return [];
+    return (value as YAMLSequence).items.map((it) =>
+      this.src.indexToPosition(it.startPosition).line
+    );
+  }
 }
 
 /**
@@ -102,6 +198,29 @@ export class JobAst {
     return stepsSeq.items.map((it) => new StepAst(it as YAMLMapping, this.src));
   }
 
+  /**
+   * Gets the line numbers of the `needs` entries of the job
+   * @returns Line number (1-based) of each job ID in `needs`, or empty array if job has no needs
+   *
+   * @example
+   * ```typescript
+   * // needs: [build, lint]
+   * const lines = jobAst.needsStartLines();
+   * console.log(lines); // [6, 6]
+   * ```
+   */
+  needsStartLines(): number[] {
+    const jobMap = this.ast.value as YamlMap;
+    const needs = jobMap.mappings.find((it) => it.key.value === "needs")
+      ?.value;
+    if (needs === undefined || needs === null) return [];
+
+    const items = needs.kind === Kind.SEQ
+      ? (needs as YAMLSequence).items
+      : [needs];
+    return items.map((it) => this.src.indexToPosition(it.startPosition).line);
+  }
+
   /**
    * Gets the starting line number of the job in the workflow file
    * @returns Line number (1-based)
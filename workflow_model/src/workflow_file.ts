@@ -1,16 +1,116 @@
 import { parse } from "@std/yaml";
 import { zip } from "@std/collections";
 import type { FileContent } from "../../api_client/api_client.ts";
-import { type JobAst, type StepAst, WorkflowAst } from "./workflow_ast.ts";
+import {
+  type JobAst,
+  type StepAst,
+  type TriggerAst,
+  WorkflowAst,
+} from "./workflow_ast.ts";
+import {
+  coerceToString,
+  evaluateTemplate,
+  type ExpressionContexts,
+  ExpressionEvaluationError,
+  ExpressionSyntaxError,
+  type ExpressionValue,
+  parseTemplate,
+  walkExpression,
+} from "./expression.ts";
 
 /** GitHub workflow YAML structure */
 export type Workflow = {
   name?: string;
+  on?: WorkflowTriggers;
   jobs: {
     [key: string]: Job;
   };
   [key: string]: unknown;
 };
+
+/**
+ * `on:` section of a workflow in any of its three syntaxes
+ *
+ * @see https://docs.github.com/en/actions/writing-workflows/workflow-syntax-for-github-actions#on
+ */
+export type WorkflowTriggers =
+  | string
+  | string[]
+  | {
+    schedule?: ScheduleConfig[] | null;
+    [event: string]: TriggerConfig | ScheduleConfig[] | null | undefined;
+  };
+
+/** Filters and settings of an event in the map syntax of `on:` */
+export type TriggerConfig = {
+  /** Activity types, e.g. "opened" of pull_request */
+  types?: string | string[];
+  branches?: string | string[];
+  "branches-ignore"?: string | string[];
+  tags?: string | string[];
+  "tags-ignore"?: string | string[];
+  paths?: string | string[];
+  "paths-ignore"?: string | string[];
+  /** Inputs of workflow_dispatch and workflow_call */
+  inputs?: Record<string, WorkflowDispatchInput | null> | null;
+  /** Source workflow names of workflow_run */
+  workflows?: string | string[];
+  [key: string]: unknown;
+};
+
+/** Entry of the `schedule` event */
+export type ScheduleConfig = { cron: string };
+
+/**
+ * Input definition of the `workflow_dispatch` trigger
+ *
+ * @see https://docs.github.com/en/actions/writing-workflows/workflow-syntax-for-github-actions#onworkflow_dispatchinputs
+ */
+export type WorkflowDispatchInput = {
+  description?: string;
+  required?: boolean;
+  default?: string | number | boolean;
+  /** Defaults to "string" */
+  type?: "string" | "boolean" | "number" | "choice" | "environment";
+  /** Allowed values of a "choice" input. Unquoted YAML scalars such as `1` are parsed as numbers */
+  options?: (string | number | boolean)[];
+};
+
+/** Value of a `workflow_dispatch` input given by the caller */
+export type WorkflowDispatchInputValue = string | number | boolean;
+
+/**
+ * Error thrown when `workflow_dispatch` inputs do not match the workflow definition
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   workflow.validateDispatchInputs({ environment: "prod" });
+ * } catch (error) {
+ *   if (error instanceof WorkflowDispatchInputError) console.error(error.issues);
+ * }
+ * ```
+ */
+export class WorkflowDispatchInputError extends Error {
+  /** Every problem found in the inputs */
+  issues: string[];
+
+  /**
+   * Creates a new WorkflowDispatchInputError instance
+   * @param workflowName - Name of the dispatched workflow
+   * @param issues - Problems found in the inputs
+   */
+  constructor(workflowName: string, issues: string[]) {
+    super(
+      `Invalid workflow_dispatch inputs for "${workflowName}": ${
+        issues.join("; ")
+      }`,
+    );
+    this.name = "WorkflowDispatchInputError";
+    this.issues = issues;
+  }
+}
+
 /**
  * Model representing a GitHub Actions workflow file
  *
@@ -85,6 +185,313 @@ export class WorkflowModel {
       ([[id, job], jobAst]) => new JobModel(id, job, this.fileContent, jobAst),
     );
   }
+
+  /**
+   * Gets the inputs of the `workflow_dispatch` trigger
+   *
+   * @returns Input definitions by name, or undefined if the workflow can not be dispatched
+   */
+  get dispatchInputs(): Record<string, WorkflowDispatchInput> | undefined {
+    const entry = TriggerModel.entries(this.raw.on).find(([event]) =>
+      event === "workflow_dispatch"
+    );
+    if (entry === undefined) return undefined;
+    return TriggerModel.normalizeInputs(entry[1]) ?? {};
+  }
+
+  /**
+   * Gets all events of the `on:` section as TriggerModel instances
+   *
+   * The string, array and map syntaxes are normalized to one model per event.
+   *
+   * @returns Array of trigger models in the order they are written
+   *
+   * @example
+   * ```typescript
+   * for (const trigger of workflow.triggers) {
+   *   console.log(trigger.event, trigger.branches, trigger.htmlUrlWithLine);
+   * }
+   * ```
+   */
+  get triggers(): TriggerModel[] {
+    return zip(TriggerModel.entries(this.raw.on), this.ast.triggerAsts()).map(
+      ([[event, config], triggerAst]) =>
+        new TriggerModel(event, config, this.fileContent, triggerAst),
+    );
+  }
+
+  /**
+   * Validates `workflow_dispatch` inputs against the workflow definition
+   *
+   * Checks the same rules as the GitHub API: unknown inputs, required inputs
+   * without a default, boolean/number types and choice options. All problems
+   * are reported at once instead of the API's opaque 422 response.
+   *
+   * @param inputs - Inputs to dispatch the workflow with
+   * @returns Inputs converted to strings, as the API expects
+   * @throws {WorkflowDispatchInputError} If the workflow has no `workflow_dispatch` trigger or any input is invalid
+   *
+   * @example
+   * ```typescript
+   * const inputs = workflow.validateDispatchInputs({ version: "1.2.0", dry_run: true });
+   * // { version: "1.2.0", dry_run: "true" }
+   * ```
+   */
+  validateDispatchInputs(
+    inputs: Record<string, WorkflowDispatchInputValue | undefined>,
+  ): Record<string, string> {
+    const definitions = this.dispatchInputs;
+    if (definitions === undefined) {
+      throw new WorkflowDispatchInputError(this.name, [
+        "workflow does not have a workflow_dispatch trigger",
+      ]);
+    }
+
+    const issues: string[] = [];
+    const validated: Record<string, string> = {};
+    for (const [name, value] of Object.entries(inputs)) {
+      if (value === undefined) continue;
+      const definition = definitions[name];
+      if (definition === undefined) {
+        issues.push(`unexpected input "${name}"`);
+        continue;
+      }
+      const issue = WorkflowModel.validateDispatchInput(definition, value);
+      if (issue) {
+        issues.push(`input "${name}" ${issue}`);
+        continue;
+      }
+      validated[name] = String(value);
+    }
+    for (const [name, definition] of Object.entries(definitions)) {
+      if (
+        definition.required && definition.default === undefined &&
+        inputs[name] === undefined
+      ) {
+        issues.push(`required input "${name}" is missing`);
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new WorkflowDispatchInputError(this.name, issues);
+    }
+    return validated;
+  }
+
+  /**
+   * Validates a value against its input definition
+   * @param definition - Input definition
+   * @param value - Given value
+   * @returns Description of the problem, or undefined if the value is valid
+   */
+  private static validateDispatchInput(
+    definition: WorkflowDispatchInput,
+    value: WorkflowDispatchInputValue,
+  ): string | undefined {
+    const text = String(value);
+    switch (definition.type) {
+      case "boolean":
+        if (text !== "true" && text !== "false") {
+          return `must be a boolean, got "${text}"`;
+        }
+        return;
+      case "number":
+        if (text.trim() === "" || Number.isNaN(Number(text))) {
+          return `must be a number, got "${text}"`;
+        }
+        return;
+      case "choice": {
+        // GitHub compares the string forms, e.g. option 1 accepts "1"
+        const options = (definition.options ?? []).map(String);
+        if (!options.includes(text)) {
+          return `must be one of ${
+            options.map((it) => `"${it}"`).join(", ")
+          }, got "${text}"`;
+        }
+        return;
+      }
+      default:
+        return;
+    }
+  }
+}
+
+/** Cron entry of the `schedule` event with its line number */
+export type ScheduleEntry = {
+  /** POSIX cron expression (UTC) */
+  cron: string;
+  /** Line number of the entry in the workflow file */
+  startLine: number;
+};
+
+/**
+ * Represents an event of the `on:` section that triggers a workflow
+ *
+ * Filters are normalized to arrays whether they are written as a string or
+ * an array. Filters that are not written are undefined, which means the
+ * event is not filtered by them.
+ *
+ * @example
+ * ```typescript
+ * const push = workflow.triggers.find((trigger) => trigger.event === "push");
+ * console.log(push?.branches); // ["main", "releases/**"]
+ * console.log(push?.pathsIgnore); // ["docs/**"]
+ * console.log(push?.htmlUrlWithLine);
+ * ```
+ */
+export class TriggerModel {
+  /** Event name, e.g. "push" or "pull_request" */
+  event: string;
+  /** Settings of the event, or null for the string and array syntaxes and events without settings */
+  raw: TriggerConfig | ScheduleConfig[] | null;
+  /** The AST representation of the event */
+  ast: TriggerAst;
+  /** The HTML URL to the workflow file */
+  htmlUrl?: string;
+
+  /**
+   * Creates a new TriggerModel instance
+   *
+   * @param event - Event name
+   * @param raw - Settings of the event
+   * @param fileContent - The file content containing the workflow
+   * @param ast - The AST representation of the event
+   */
+  constructor(
+    event: string,
+    raw: TriggerConfig | ScheduleConfig[] | null,
+    fileContent: FileContent,
+    ast: TriggerAst,
+  ) {
+    this.event = event;
+    this.raw = raw;
+    this.ast = ast;
+    this.htmlUrl = fileContent.raw.html_url ?? undefined;
+  }
+
+  /**
+   * Normalizes the `on:` section to event entries
+   *
+   * @param on - `on:` section in any syntax
+   * @returns Pairs of event name and settings (null without settings)
+   *
+   * @example
+   * ```typescript
+   * TriggerModel.entries(["push", "pull_request"]);
+   * // [["push", null], ["pull_request", null]]
+   * ```
+   */
+  static entries(
+    on: WorkflowTriggers | undefined,
+  ): [string, TriggerConfig | ScheduleConfig[] | null][] {
+    if (typeof on === "string") return [[on, null]];
+    if (Array.isArray(on)) return on.map((event) => [event, null]);
+    if (typeof on !== "object" || on === null) return [];
+    return Object.entries(on).map(([event, config]) => [event, config ?? null]);
+  }
+
+  /**
+   * Normalizes inputs so that inputs without settings become empty objects
+   * @param config - Settings of the event
+   * @returns Input definitions by name, or undefined if no inputs are written
+   */
+  static normalizeInputs(
+    config: TriggerConfig | ScheduleConfig[] | null,
+  ): Record<string, WorkflowDispatchInput> | undefined {
+    if (config === null || Array.isArray(config) || !config.inputs) {
+      return undefined;
+    }
+    return Object.fromEntries(
+      Object.entries(config.inputs).map(([name, input]) => [name, input ?? {}]),
+    );
+  }
+
+  /**
+   * Gets the starting line number of the event in the workflow file
+   *
+   * @returns The line number where the event is written
+   */
+  get startLine(): number {
+    return this.ast.startLine();
+  }
+
+  /**
+   * Gets the HTML URL with line number anchor pointing to the event
+   *
+   * @returns The HTML URL with line anchor (e.g., "https://github.com/owner/repo/blob/main/.github/workflows/ci.yml#L3")
+   */
+  get htmlUrlWithLine(): string {
+    return `${this.htmlUrl}#L${this.startLine}`;
+  }
+
+  /** Activity types (`types`), e.g. ["opened", "synchronize"] */
+  get types(): string[] | undefined {
+    return this.filter("types");
+  }
+
+  /** Branch filter (`branches`) */
+  get branches(): string[] | undefined {
+    return this.filter("branches");
+  }
+
+  /** Branch exclusion filter (`branches-ignore`) */
+  get branchesIgnore(): string[] | undefined {
+    return this.filter("branches-ignore");
+  }
+
+  /** Tag filter (`tags`) */
+  get tags(): string[] | undefined {
+    return this.filter("tags");
+  }
+
+  /** Tag exclusion filter (`tags-ignore`) */
+  get tagsIgnore(): string[] | undefined {
+    return this.filter("tags-ignore");
+  }
+
+  /** Path filter (`paths`) */
+  get paths(): string[] | undefined {
+    return this.filter("paths");
+  }
+
+  /** Path exclusion filter (`paths-ignore`) */
+  get pathsIgnore(): string[] | undefined {
+    return this.filter("paths-ignore");
+  }
+
+  /** Source workflow names of `workflow_run` (`workflows`) */
+  get workflows(): string[] | undefined {
+    return this.filter("workflows");
+  }
+
+  /** Inputs of `workflow_dispatch` and `workflow_call`, or undefined if no inputs are written */
+  get inputs(): Record<string, WorkflowDispatchInput> | undefined {
+    return TriggerModel.normalizeInputs(this.raw);
+  }
+
+  /**
+   * Gets the cron entries of the `schedule` event
+   *
+   * @returns Cron entries with their line numbers, or empty array for other events
+   */
+  get schedules(): ScheduleEntry[] {
+    if (!Array.isArray(this.raw)) return [];
+    return zip(this.raw, this.ast.itemStartLines()).map((
+      [schedule, startLine],
+    ) => ({ cron: schedule.cron, startLine }));
+  }
+
+  /**
+   * Gets a filter of the event normalized to an array
+   * @param key - Filter key
+   * @returns Filter patterns, or undefined if the filter is not written
+   */
+  private filter(key: keyof TriggerConfig): string[] | undefined {
+    if (this.raw === null || Array.isArray(this.raw)) return undefined;
+    const value = this.raw[key];
+    if (value === undefined || value === null) return undefined;
+    return (Array.isArray(value) ? value : [value]).map(String);
+  }
 }
 
 /** Reusable workflow YAML structure */
@@ -144,13 +551,32 @@ export type Job = {
   name?: string;
   "runs-on": string;
   uses?: string;
+  /** IDs of the jobs that must complete before this job runs */
+  needs?: string | string[];
   steps?: Step[];
   strategy?: {
-    matrix?: Record<string, unknown>;
+    /** Matrix definition, or an expression such as `${{ fromJSON(...) }}` */
+    matrix?: Record<string, unknown> | string;
     [key: string]: unknown;
   };
   [key: string]: unknown;
 };
+
+/** Combination of a matrix, which runs as one job */
+export type MatrixCombination = {
+  /** Values of the `matrix` context */
+  values: Record<string, ExpressionValue>;
+  /** Job name shown by GitHub, e.g. "build (ubuntu-latest, 20)" */
+  name: string;
+};
+
+/** Result of `JobModel.expandMatrix` */
+export type MatrixExpansion = {
+  /** True if the matrix is built by expressions, e.g. `fromJSON` of job outputs */
+  dynamic: boolean;
+  /** Combinations in the order GitHub creates the jobs. Empty for a dynamic matrix without contexts */
+  combinations: MatrixCombination[];
+};
 /**
  * Represents a job within a GitHub Actions workflow
  *
@@ -220,6 +646,17 @@ export class JobModel {
     return `${this.htmlUrl}#L${this.startLine}`;
   }
 
+  /**
+   * Gets the IDs of the jobs this job needs
+   *
+   * @returns Job IDs of `needs`, or empty array if not defined
+   */
+  get needs(): string[] {
+    const needs = this.raw.needs;
+    if (needs === undefined || needs === null) return [];
+    return Array.isArray(needs) ? needs : [needs];
+  }
+
   /**
    * Gets all steps in the job as StepModel instances
    *
@@ -238,8 +675,10 @@ export class JobModel {
    * Finds a job model that matches the given raw name
    *
    * This method handles matching by job ID, job name, and matrix job variations.
-   * For matrix jobs, it attempts to match partial names and handles GitHub's
-   * matrix job naming conventions.
+   * Matrix jobs are matched by the names of their expanded combinations
+   * first, so jobs whose IDs share a prefix are not confused. Matrices that
+   * can not be expanded (e.g. `fromJSON` of job outputs) fall back to partial
+   * matching of the job ID and `name`.
    *
    * @param jobModels - Array of job models to search through
    * @param rawName - The raw name to match against
@@ -262,22 +701,117 @@ export class JobModel {
     for (const jobModel of jobModels) {
       if (jobModel.id === rawName) return jobModel;
       if (jobModel.name === rawName) return jobModel;
+      if (jobModel.matchMatrixCombination(rawName) !== undefined) {
+        return jobModel;
+      }
+    }
 
-      if (jobModel.isMatrix()) {
-        // case: 'name' is not defined
-        if (rawName.startsWith(jobModel.id)) return jobModel;
+    for (const jobModel of jobModels) {
+      if (!jobModel.isMatrix()) continue;
+      // case: 'name' is not defined
+      if (rawName.startsWith(jobModel.id)) return jobModel;
 
-        if (jobModel.name === undefined) continue;
-        // case: 'name' is defined
-        // NOTE: If matrix has multiple keys, it maybe can not possible to perfect match.
-        const trimedName = jobModel.name.replace(/\$\{\{.+\}\}/g, "").trim();
-        if (rawName.includes(trimedName)) return jobModel;
-      }
+      if (jobModel.name === undefined) continue;
+      // case: 'name' is defined
+      // NOTE: If matrix has multiple keys, it maybe can not possible to perfect match.
+      const trimedName = jobModel.name.replace(/\$\{\{.+\}\}/g, "").trim();
+      if (rawName.includes(trimedName)) return jobModel;
     }
 
     return undefined;
   }
 
+  /**
+   * Finds the matrix combination that GitHub ran as the given job name
+   *
+   * @param rawName - Job name of the API response, e.g. "build (ubuntu-latest, 20)"
+   * @param contexts - Contexts for a dynamic matrix and for `name`, e.g. `inputs`
+   * @returns The matching combination, or undefined if the job is not a matrix, the
+   * matrix can not be expanded, or no combination has the name
+   *
+   * @example
+   * ```typescript
+   * const combination = job.matchMatrixCombination("build (ubuntu-latest, 20)");
+   * console.log(combination?.values); // { os: "ubuntu-latest", node: 20 }
+   * ```
+   */
+  matchMatrixCombination(
+    rawName: string,
+    contexts?: ExpressionContexts,
+  ): MatrixCombination | undefined {
+    if (!this.isMatrix()) return undefined;
+    try {
+      return this.expandMatrix(contexts).combinations
+        .find((combination) => combination.name === rawName);
+    } catch (error) {
+      // Expressions that can not be evaluated without the run
+      if (
+        error instanceof ExpressionSyntaxError ||
+        error instanceof ExpressionEvaluationError
+      ) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Expands `strategy.matrix` into the combinations GitHub runs
+   *
+   * The values of the matrix keys are combined in order, then `exclude`
+   * removes the combinations that match every key of an entry. Each
+   * `include` entry is added to every combination whose original values it
+   * does not overwrite, or becomes a new combination if there is none.
+   *
+   * Matrices written with expressions are flagged as `dynamic` and are
+   * expanded only when the contexts they read are given.
+   *
+   * @param contexts - Contexts of the expressions in the matrix and `name`, e.g. `needs`
+   * @returns Combinations with their job names. Empty if the job is not a matrix
+   * @throws {ExpressionSyntaxError} If an expression is invalid
+   * @throws {ExpressionEvaluationError} If an expression fails, e.g. `fromJSON` of invalid JSON
+   * @see https://docs.github.com/en/actions/writing-workflows/choosing-what-your-workflow-does/running-variations-of-jobs-in-a-workflow
+   *
+   * @example
+   * ```typescript
+   * // strategy.matrix: { os: [ubuntu-latest, windows-latest], node: [18, 20] }
+   * const { combinations } = job.expandMatrix();
+   * console.log(combinations.map((it) => it.name));
+   * // ["test (ubuntu-latest, 18)", "test (ubuntu-latest, 20)", "test (windows-latest, 18)", "test (windows-latest, 20)"]
+   *
+   * // strategy.matrix: ${{ fromJSON(needs.setup.outputs.matrix) }}
+   * job.expandMatrix(); // { dynamic: true, combinations: [] }
+   * job.expandMatrix({ needs: { setup: { outputs: { matrix: '{"os":["ubuntu-latest"]}' } } } });
+   * ```
+   */
+  expandMatrix(contexts?: ExpressionContexts): MatrixExpansion {
+    const matrix = this.raw.strategy?.matrix;
+    if (matrix === undefined) return { dynamic: false, combinations: [] };
+
+    const dynamic = JobModel.containsExpression(matrix);
+    if (dynamic && contexts === undefined) return { dynamic, combinations: [] };
+    const resolved = dynamic
+      ? JobModel.resolveExpressions(matrix, contexts ?? {})
+      : matrix;
+    if (
+      typeof resolved !== "object" || resolved === null ||
+      Array.isArray(resolved)
+    ) {
+      return { dynamic, combinations: [] };
+    }
+
+    const combinations = JobModel.combineMatrix(
+      resolved as Record<string, ExpressionValue>,
+    );
+    return {
+      dynamic,
+      combinations: combinations.map((values) => ({
+        values,
+        name: this.renderMatrixJobName(values, contexts ?? {}),
+      })),
+    };
+  }
+
   /**
    * Checks if this job uses a matrix strategy
    *
@@ -315,6 +849,144 @@ export class JobModel {
 
     return false;
   }
+
+  /**
+   * Renders the job name of a matrix combination like GitHub
+   *
+   * @param values - Values of the combination
+   * @param contexts - Contexts other than `matrix`
+   * @returns `name` evaluated with the combination, followed by the values
+   * unless `name` reads the `matrix` context. The job ID is used without `name`
+   */
+  private renderMatrixJobName(
+    values: Record<string, ExpressionValue>,
+    contexts: ExpressionContexts,
+  ): string {
+    const suffix = ` (${
+      Object.values(values).flatMap(JobModel.flattenMatrixValue).join(", ")
+    })`;
+    if (this.name === undefined) return `${this.id}${suffix}`;
+
+    let readsMatrix = false;
+    for (const part of parseTemplate(this.name)) {
+      if (part.kind !== "expression") continue;
+      walkExpression(part.expression, (node) => {
+        if (node.kind === "context" && node.name.toLowerCase() === "matrix") {
+          readsMatrix = true;
+        }
+      });
+    }
+    const name = coerceToString(
+      evaluateTemplate(this.name, { ...contexts, matrix: values }),
+    );
+    return readsMatrix ? name : `${name}${suffix}`;
+  }
+
+  /**
+   * Combines the matrix keys and applies `exclude` and `include`
+   *
+   * @param matrix - Matrix without expressions
+   * @returns Values of each combination
+   */
+  private static combineMatrix(
+    matrix: Record<string, ExpressionValue>,
+  ): Record<string, ExpressionValue>[] {
+    const { include, exclude, ...dimensions } = matrix;
+    const keys = Object.keys(dimensions);
+    const equals = (a: ExpressionValue, b: ExpressionValue) =>
+      JSON.stringify(a) === JSON.stringify(b);
+    const entries = (value: ExpressionValue | undefined) =>
+      (Array.isArray(value) ? value : []).filter((it) =>
+        typeof it === "object" && it !== null && !Array.isArray(it)
+      ) as Record<string, ExpressionValue>[];
+
+    let combinations: Record<string, ExpressionValue>[] = keys.length === 0
+      ? []
+      : [{}];
+    for (const key of keys) {
+      const value = dimensions[key];
+      const values = Array.isArray(value) ? value : [value];
+      combinations = combinations.flatMap((combination) =>
+        values.map((it) => ({ ...combination, [key]: it }))
+      );
+    }
+
+    combinations = combinations.filter((combination) =>
+      !entries(exclude).some((entry) =>
+        Object.entries(entry).every(([key, value]) =>
+          key in combination && equals(combination[key], value)
+        )
+      )
+    );
+
+    // Combinations created by `include` do not take later `include` entries
+    const created: Record<string, ExpressionValue>[] = [];
+    for (const entry of entries(include)) {
+      let added = false;
+      for (const combination of combinations) {
+        const overwrites = Object.entries(entry).some(([key, value]) =>
+          keys.includes(key) && !equals(combination[key], value)
+        );
+        if (overwrites) continue;
+        Object.assign(combination, entry);
+        added = true;
+      }
+      if (!added) created.push({ ...entry });
+    }
+    return [...combinations, ...created];
+  }
+
+  /**
+   * Checks whether a matrix has `${{ }}` anywhere
+   *
+   * @param value - Matrix or a value in it
+   * @returns True if a string contains `${{`
+   */
+  private static containsExpression(value: unknown): boolean {
+    if (typeof value === "string") return value.includes("${{");
+    if (typeof value !== "object" || value === null) return false;
+    return Object.values(value).some(JobModel.containsExpression);
+  }
+
+  /**
+   * Evaluates every `${{ }}` of a matrix
+   *
+   * @param value - Matrix or a value in it
+   * @param contexts - Contexts of the expressions
+   * @returns Matrix without expressions
+   */
+  private static resolveExpressions(
+    value: unknown,
+    contexts: ExpressionContexts,
+  ): ExpressionValue {
+    if (typeof value === "string") {
+      return value.includes("${{") ? evaluateTemplate(value, contexts) : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((it) => JobModel.resolveExpressions(it, contexts));
+    }
+    if (typeof value === "object" && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map((
+          [key, it],
+        ) => [key, JobModel.resolveExpressions(it, contexts)]),
+      );
+    }
+    return (value ?? null) as ExpressionValue;
+  }
+
+  /**
+   * Flattens a matrix value for the job name
+   *
+   * @param value - Value of a matrix key
+   * @returns Strings of the value, or of each value nested in an array or object
+   */
+  private static flattenMatrixValue(value: ExpressionValue): string[] {
+    if (typeof value === "object" && value !== null) {
+      return Object.values(value).flatMap(JobModel.flattenMatrixValue);
+    }
+    return [coerceToString(value)];
+  }
 }
 
 /** Composite action YAML structure */
@@ -0,0 +1,297 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import {
+  matchFilterPatterns,
+  matchGlob,
+  matchWorkflowEvent,
+} from "../src/event_matcher.ts";
+import { WorkflowModel } from "../src/workflow_file.ts";
+import type { FileContent } from "../../api_client/api_client.ts";
+
+const createWorkflow = (on: string) =>
+  new WorkflowModel(
+    {
+      raw: {
+        html_url:
+          "https://github.com/owner/repo/blob/main/.github/workflows/ci.yml",
+      },
+      content: `name: CI
+on:
+${on}
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo test
+`,
+    } as unknown as FileContent,
+  );
+
+describe(matchGlob.name, () => {
+  it("* does not match /", () => {
+    assertEquals(matchGlob("feature/*", "feature/a"), true);
+    assertEquals(matchGlob("feature/*", "feature/a/b"), false);
+    assertEquals(matchGlob("*.js", "app.js"), true);
+    assertEquals(matchGlob("*.js", "src/app.js"), false);
+  });
+
+  it("** matches across directories", () => {
+    assertEquals(matchGlob("feature/**", "feature/a/b"), true);
+    assertEquals(matchGlob("**.js", "src/app.js"), true);
+    assertEquals(matchGlob("docs/**", "docs/a/README.md"), true);
+    assertEquals(matchGlob("**/docs/**", "docs/README.md"), true);
+    assertEquals(matchGlob("**/docs/**", "packages/a/docs/README.md"), true);
+    assertEquals(matchGlob("**/docs/**", "mydocs/README.md"), false);
+  });
+
+  it("? and + quantify the preceding character", () => {
+    assertEquals(matchGlob("v2?", "v"), true);
+    assertEquals(matchGlob("v2?", "v2"), true);
+    assertEquals(matchGlob("v2?", "v22"), false);
+    assertEquals(matchGlob("v[0-9]+.[0-9]+", "v10.2"), true);
+    assertEquals(matchGlob("v[0-9]+.[0-9]+", "v.2"), false);
+  });
+
+  it("? and + are literal unless they follow a character or class", () => {
+    assertEquals(matchGlob("**+", "a/b+"), true);
+    assertEquals(matchGlob("**+", "a/b"), false);
+    assertEquals(matchGlob("*+", "a+"), true);
+    assertEquals(matchGlob("*?", "a?"), true);
+    assertEquals(matchGlob("*?", "a"), false);
+    assertEquals(matchGlob("[0-9]++", "12+"), true);
+    assertEquals(matchGlob("[0-9]++", "12"), false);
+    assertEquals(matchGlob("+a", "+a"), true);
+  });
+
+  it("[] matches a character, and other characters are literal", () => {
+    assertEquals(matchGlob("[AB]-*", "A-1"), true);
+    assertEquals(matchGlob("[AB]-*", "C-1"), false);
+    assertEquals(matchGlob("v1.0", "v1x0"), false);
+    assertEquals(matchGlob("(a)|b", "(a)|b"), true);
+    assertEquals(matchGlob("a\\*b", "a*b"), true);
+    assertEquals(matchGlob("a\\*b", "axb"), false);
+  });
+});
+
+describe(matchFilterPatterns.name, () => {
+  it("Lets the last matching pattern win", () => {
+    const patterns = [
+      "releases/**",
+      "!releases/**-alpha",
+      "releases/keep-alpha",
+    ];
+    assertEquals(matchFilterPatterns(patterns, "releases/v1"), true);
+    assertEquals(matchFilterPatterns(patterns, "releases/v1-alpha"), false);
+    assertEquals(matchFilterPatterns(patterns, "releases/keep-alpha"), true);
+    assertEquals(matchFilterPatterns(patterns, "main"), false);
+  });
+
+  it("Overrides a negation with a later positive pattern", () => {
+    assertEquals(matchFilterPatterns(["!docs/**", "**"], "docs/a.md"), true);
+  });
+});
+
+describe(matchWorkflowEvent.name, () => {
+  it("Excludes events not in on:", () => {
+    const result = matchWorkflowEvent(createWorkflow("  push:"), {
+      name: "pull_request",
+    });
+    assertEquals(result.triggered, false);
+    assertEquals(result.excludedBy, "event");
+    assertEquals(result.trigger, undefined);
+  });
+
+  it("Evaluates activity types with the defaults of pull_request", () => {
+    const workflow = createWorkflow(`  pull_request:
+  issues:
+  release:
+    types: [published]`);
+    assertEquals(
+      matchWorkflowEvent(workflow, { name: "pull_request", action: "opened" })
+        .triggered,
+      true,
+    );
+    const result = matchWorkflowEvent(workflow, {
+      name: "pull_request",
+      action: "labeled",
+    });
+    assertEquals(result.excludedBy, "types");
+    assertEquals(
+      result.reason,
+      'pull_request is excluded by types: "labeled" is not one of ["opened", "synchronize", "reopened"] (line 3)',
+    );
+    assertEquals(
+      matchWorkflowEvent(workflow, { name: "issues", action: "labeled" })
+        .triggered,
+      true,
+    );
+    assertEquals(
+      matchWorkflowEvent(workflow, { name: "release", action: "created" })
+        .excludedBy,
+      "types",
+    );
+  });
+
+  it("Evaluates branches with negations", () => {
+    const workflow = createWorkflow(`  push:
+    branches:
+      - main
+      - "releases/**"
+      - "!releases/**-alpha"`);
+    assertEquals(
+      matchWorkflowEvent(workflow, { name: "push", ref: "refs/heads/main" })
+        .triggered,
+      true,
+    );
+    assertEquals(
+      matchWorkflowEvent(workflow, { name: "push", ref: "releases/v1/rc" })
+        .triggered,
+      true,
+    );
+    const result = matchWorkflowEvent(workflow, {
+      name: "push",
+      ref: "refs/heads/releases/v2-alpha",
+    });
+    assertEquals(result.triggered, false);
+    assertEquals(result.excludedBy, "branches");
+    assertEquals(result.trigger?.event, "push");
+  });
+
+  it("Evaluates branches-ignore and the base branch of pull_request", () => {
+    const workflow = createWorkflow(`  pull_request:
+    branches-ignore: ["gh-pages"]`);
+    assertEquals(
+      matchWorkflowEvent(workflow, { name: "pull_request", ref: "gh-pages" })
+        .excludedBy,
+      "branches-ignore",
+    );
+    assertEquals(
+      matchWorkflowEvent(workflow, { name: "pull_request", ref: "main" })
+        .triggered,
+      true,
+    );
+  });
+
+  it("Does not run tag pushes with only branch filters, and vice versa", () => {
+    const branchOnly = createWorkflow(`  push:
+    branches: ["**"]`);
+    const tagPush = { name: "push", ref: "refs/tags/v1.0.0" };
+    assertEquals(
+      matchWorkflowEvent(branchOnly, tagPush).excludedBy,
+      "branches",
+    );
+
+    const tagOnly = createWorkflow(`  push:
+    tags: ["v*"]`);
+    assertEquals(matchWorkflowEvent(tagOnly, tagPush).triggered, true);
+    assertEquals(
+      matchWorkflowEvent(tagOnly, { name: "push", ref: "refs/heads/main" })
+        .excludedBy,
+      "tags",
+    );
+    assertEquals(
+      matchWorkflowEvent(tagOnly, { name: "push", ref: "refs/tags/release" })
+        .excludedBy,
+      "tags",
+    );
+
+    const noFilter = createWorkflow("  push:");
+    assertEquals(matchWorkflowEvent(noFilter, tagPush).triggered, true);
+  });
+
+  it("Runs when any changed file matches paths", () => {
+    const workflow = createWorkflow(`  push:
+    paths:
+      - "packages/api/**"
+      - "!packages/api/**.md"`);
+    assertEquals(
+      matchWorkflowEvent(workflow, {
+        name: "push",
+        ref: "main",
+        changedFiles: ["packages/web/index.ts", "packages/api/src/main.ts"],
+      }).triggered,
+      true,
+    );
+    const result = matchWorkflowEvent(workflow, {
+      name: "push",
+      ref: "main",
+      changedFiles: ["packages/web/index.ts", "packages/api/docs/README.md"],
+    });
+    assertEquals(result.excludedBy, "paths");
+    assertEquals(
+      result.reason,
+      'push is excluded by paths: no changed file matches ["packages/api/**", "!packages/api/**.md"] (line 3)',
+    );
+  });
+
+  it("Skips only when every changed file matches paths-ignore", () => {
+    const workflow = createWorkflow(`  pull_request:
+    paths-ignore: ["**.md", "docs/**"]`);
+    assertEquals(
+      matchWorkflowEvent(workflow, {
+        name: "pull_request",
+        changedFiles: ["README.md", "docs/guide/index.html"],
+      }).excludedBy,
+      "paths-ignore",
+    );
+    assertEquals(
+      matchWorkflowEvent(workflow, {
+        name: "pull_request",
+        changedFiles: ["README.md", "src/main.ts"],
+      }).triggered,
+      true,
+    );
+  });
+
+  it("Does not evaluate paths for tag pushes or without changed files", () => {
+    const workflow = createWorkflow(`  push:
+    tags: ["v*"]
+    branches: [main]
+    paths: ["src/**"]`);
+    assertEquals(
+      matchWorkflowEvent(workflow, {
+        name: "push",
+        ref: "refs/tags/v1",
+        changedFiles: ["README.md"],
+      }).triggered,
+      true,
+    );
+    assertEquals(
+      matchWorkflowEvent(workflow, { name: "push", ref: "main" }).triggered,
+      true,
+    );
+  });
+
+  it("Evaluates workflows of workflow_run", () => {
+    const workflow = createWorkflow(`  workflow_run:
+    workflows: ["Build*"]
+    types: [completed]
+    branches: [main]`);
+    assertEquals(
+      matchWorkflowEvent(workflow, {
+        name: "workflow_run",
+        action: "completed",
+        workflow: "Build Linux",
+        ref: "main",
+      }).triggered,
+      true,
+    );
+    assertEquals(
+      matchWorkflowEvent(workflow, {
+        name: "workflow_run",
+        action: "completed",
+        workflow: "Lint",
+      }).excludedBy,
+      "workflows",
+    );
+  });
+
+  it("Accepts the triggers of a workflow", () => {
+    const workflow = createWorkflow("  [push, pull_request]");
+    const result = matchWorkflowEvent(workflow.triggers, {
+      name: "pull_request",
+    });
+    assertEquals(result.triggered, true);
+    assertEquals(result.reason, "Triggered by pull_request (line 3)");
+  });
+});
@@ -0,0 +1,306 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import {
+  evaluateCondition,
+  evaluateExpression,
+  evaluateTemplate,
+  ExpressionEvaluationError,
+  type ExpressionNode,
+  ExpressionSyntaxError,
+  parseExpression,
+  parseTemplate,
+  walkExpression,
+} from "../src/expression.ts";
+
+const github = {
+  event_name: "pull_request",
+  ref: "refs/heads/main",
+  event: {
+    pull_request: {
+      number: 12,
+      labels: [{ name: "bug" }, { name: "ci" }],
+      draft: false,
+    },
+  },
+};
+
+describe(parseExpression.name, () => {
+  it("Parses operators by precedence with source ranges", () => {
+    const text = "github.event_name == 'push' || !cancelled()";
+    const node = parseExpression(text);
+    if (node.kind !== "binary") throw new Error("unreachable");
+    assertEquals(node.operator, "||");
+    assertEquals([node.start, node.end], [0, text.length]);
+    if (node.left.kind !== "binary") throw new Error("unreachable");
+    assertEquals(node.left.operator, "==");
+    assertEquals(
+      text.slice(node.left.left.start, node.left.left.end),
+      "github.event_name",
+    );
+    assertEquals(node.right.kind, "not");
+    assertEquals(text.slice(node.right.start, node.right.end), "!cancelled()");
+  });
+
+  it("Parses literals", () => {
+    const values = [
+      "null",
+      "true",
+      "711",
+      "-9.2",
+      "0xff",
+      "-2.99e-2",
+      "'It''s open source!'",
+    ].map((text) => {
+      const node = parseExpression(text);
+      if (node.kind !== "literal") throw new Error("unreachable");
+      return node.value;
+    });
+    assertEquals(values, [
+      null,
+      true,
+      711,
+      -9.2,
+      255,
+      -0.0299,
+      "It's open source!",
+    ]);
+  });
+
+  it("Parses dereferences and object filters", () => {
+    const text = "github.event.pull_request.labels.*.name[0]";
+    const kinds: string[] = [];
+    walkExpression(parseExpression(text), (node) => kinds.push(node.kind));
+    assertEquals(kinds, [
+      "index",
+      "property",
+      "filter",
+      "property",
+      "property",
+      "property",
+      "context",
+      "literal",
+    ]);
+    const node = parseExpression("steps.my-step.outputs['cache-hit']");
+    if (node.kind !== "index") throw new Error("unreachable");
+    assertEquals(node.object.kind, "property");
+  });
+
+  it("Includes parentheses in the range", () => {
+    const node = parseExpression("(a || b) && c");
+    if (node.kind !== "binary") throw new Error("unreachable");
+    assertEquals([node.left.start, node.left.end], [0, 8]);
+  });
+
+  it("Throws with the position of the error", () => {
+    const cases: [string, number][] = [
+      ["github.ref ==", 13],
+      ["github.ref = 'main'", 11],
+      ["'unterminated", 0],
+      ["unknown(1)", 0],
+      ["constructor(1)", 0],
+      ["toString()", 0],
+      ["contains('a')", 0],
+      ["github.", 7],
+      ["(a || b", 7],
+    ];
+    for (const [text, position] of cases) {
+      const error = assertThrows(
+        () => parseExpression(text),
+        ExpressionSyntaxError,
+      );
+      assertEquals(error.position, position, text);
+    }
+  });
+});
+
+describe(parseTemplate.name, () => {
+  it("Splits text and expressions with offsets in the whole string", () => {
+    const text = "test (${{ matrix.os }}, ${{ '}}' }})";
+    const parts = parseTemplate(text);
+    assertEquals(parts.map((part) => part.kind), [
+      "text",
+      "expression",
+      "text",
+      "expression",
+      "text",
+    ]);
+    assertEquals(text.slice(parts[1].start, parts[1].end), "${{ matrix.os }}");
+    const expression = (parts[1] as { expression: ExpressionNode }).expression;
+    assertEquals(text.slice(expression.start, expression.end), "matrix.os");
+    assertEquals(parts[4], { kind: "text", value: ")", start: 35, end: 36 });
+  });
+
+  it("Throws for an unclosed expression", () => {
+    const error = assertThrows(
+      () => parseTemplate("name ${{ matrix.os"),
+      ExpressionSyntaxError,
+    );
+    assertEquals(error.position, 5);
+  });
+});
+
+describe(evaluateExpression.name, () => {
+  it("Reads contexts case-insensitively and returns null for missing values", () => {
+    assertEquals(
+      evaluateExpression("github.EVENT_NAME", { github }),
+      "pull_request",
+    );
+    assertEquals(
+      evaluateExpression("github.event.issue.title", { github }),
+      null,
+    );
+    assertEquals(evaluateExpression("matrix.os", {}), null);
+    assertEquals(
+      evaluateExpression("matrix['node-version']", {
+        matrix: { "node-version": 20 },
+      }),
+      20,
+    );
+  });
+
+  it("Applies object filters", () => {
+    assertEquals(
+      evaluateExpression("github.event.pull_request.labels.*.name", { github }),
+      ["bug", "ci"],
+    );
+    assertEquals(
+      evaluateExpression("needs.*.result", {
+        needs: { build: { result: "success" }, lint: { result: "failure" } },
+      }),
+      ["success", "failure"],
+    );
+    assertEquals(
+      evaluateExpression("contains(needs.*.result, 'FAILURE')", {
+        needs: { build: { result: "success" }, lint: { result: "failure" } },
+      }),
+      true,
+    );
+  });
+
+  it("Follows loose equality and type coercion", () => {
+    const cases: [string, unknown][] = [
+      ["'ABC' == 'abc'", true],
+      ["1 == '1'", true],
+      ["1 == '1.0'", true],
+      ["0 == ''", true],
+      ["null == 0", true],
+      ["true == 1", true],
+      ["true == 'true'", false],
+      ["'abc' == 0", false],
+      ["fromJSON('[]') == fromJSON('[]')", false],
+      ["1 < '2'", true],
+      ["'b' > 'A'", true],
+      ["'abc' < 1", false],
+      ["null || 'default'", "default"],
+      ["'' && 'unused'", ""],
+      ["github.event.pull_request.draft || 'ready'", "ready"],
+      ["!github.event.pull_request.draft", true],
+    ];
+    for (const [expression, expected] of cases) {
+      assertEquals(
+        evaluateExpression(expression, { github }),
+        expected,
+        expression,
+      );
+    }
+  });
+
+  it("Calls built-in functions case-insensitively", () => {
+    const cases: [string, unknown][] = [
+      ["contains('Hello world', 'WORLD')", true],
+      [
+        'contains(fromJSON(\'["push", "pull_request"]\'), github.event_name)',
+        true,
+      ],
+      ["startsWith(github.ref, 'refs/HEADS/')", true],
+      ["endsWith(github.ref, '/dev')", false],
+      ["format('{0} {{1}} {1}', 'Hello', 12)", "Hello {1} 12"],
+      ["join(github.event.pull_request.labels.*.name, ', ')", "bug, ci"],
+      ["join('single')", "single"],
+      [
+        "toJSON(fromJSON('{\"a\":[1,true]}'))",
+        '{\n  "a": [\n    1,\n    true\n  ]\n}',
+      ],
+      ["FROMJSON('123')", 123],
+      ["hashFiles('**/package-lock.json')", ""],
+    ];
+    for (const [expression, expected] of cases) {
+      assertEquals(
+        evaluateExpression(expression, { github }),
+        expected,
+        expression,
+      );
+    }
+    assertEquals(
+      evaluateExpression("hashFiles('**/*.lock', 'go.sum')", {}, {
+        hashFiles: (patterns) => patterns.join("|"),
+      }),
+      "**/*.lock|go.sum",
+    );
+  });
+
+  it("Throws for invalid JSON and format strings", () => {
+    assertThrows(
+      () => evaluateExpression("fromJSON('{')", {}),
+      ExpressionEvaluationError,
+      "fromJSON() got invalid JSON",
+    );
+    assertThrows(
+      () => evaluateExpression("format('{1}', 'a')", {}),
+      ExpressionEvaluationError,
+      "format() got an invalid format string",
+    );
+  });
+});
+
+describe(evaluateTemplate.name, () => {
+  it("Returns the value of a single expression as it is", () => {
+    assertEquals(evaluateTemplate("${{ fromJSON('[1, 2]') }}", {}), [1, 2]);
+  });
+
+  it("Interpolates values into text", () => {
+    assertEquals(
+      evaluateTemplate("test (${{ matrix.os }}, ${{ matrix.node }})", {
+        matrix: { os: "ubuntu-latest", node: 20 },
+      }),
+      "test (ubuntu-latest, 20)",
+    );
+    assertEquals(
+      evaluateTemplate(
+        "${{ matrix.missing }}-${{ fromJSON('{}') }}-${{ true }}",
+        {},
+      ),
+      "-Object-true",
+    );
+    assertEquals(evaluateTemplate("no expression", {}), "no expression");
+  });
+});
+
+describe(evaluateCondition.name, () => {
+  it("Implies success() without a status function", () => {
+    const condition = "github.event_name == 'pull_request'";
+    assertEquals(evaluateCondition(condition, { github }), true);
+    assertEquals(
+      evaluateCondition(condition, { github }, { status: "failure" }),
+      false,
+    );
+    assertEquals(
+      evaluateCondition(`\${{ failure() && ${condition} }}`, { github }, {
+        status: "failure",
+      }),
+      true,
+    );
+    assertEquals(
+      evaluateCondition("${{ always() }}", {}, { status: "cancelled" }),
+      true,
+    );
+    assertEquals(
+      evaluateCondition("!cancelled()", {}, { status: "failure" }),
+      true,
+    );
+  });
+
+  it("Treats text around ${{ }} as a string, which is always truthy", () => {
+    assertEquals(evaluateCondition("${{ false }} == true", {}), true);
+  });
+});
@@ -0,0 +1,148 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { JobGraph, JobGraphError } from "../src/job_graph.ts";
+import { WorkflowModel } from "../src/workflow_file.ts";
+import type { FileContent, WorkflowJob } from "../../api_client/api_client.ts";
+import { fakeWorkflowJob } from "../../api_client/fake_github_server.ts";
+
+const createGraph = (jobs: string) =>
+  new JobGraph(
+    new WorkflowModel(
+      {
+        raw: {
+          html_url:
+            "https://github.com/owner/repo/blob/main/.github/workflows/ci.yml",
+        },
+        content: `name: CI
+on: push
+jobs:
+${jobs}`,
+      } as unknown as FileContent,
+    ),
+  );
+
+const pipeline = `  deploy:
+    needs: [build, test]
+    runs-on: ubuntu-latest
+  test:
+    needs: build
+    strategy:
+      matrix:
+        os: [ubuntu-latest, windows-latest]
+    runs-on: \${{ matrix.os }}
+  lint:
+    runs-on: ubuntu-latest
+  build:
+    runs-on: ubuntu-latest
+  release:
+    needs: [deploy]
+    uses: ./.github/workflows/release.yml
+`;
+
+const workflowJob = (
+  name: string,
+  startedAt: string,
+  completedAt: string | null,
+): WorkflowJob =>
+  fakeWorkflowJob({
+    name,
+    started_at: `2024-01-01T00:${startedAt}Z`,
+    completed_at: completedAt === null ? null : `2024-01-01T00:${completedAt}Z`,
+  });
+
+describe(JobGraph.name, () => {
+  it("Orders jobs after the jobs they need", () => {
+    const graph = createGraph(pipeline);
+    assertEquals(graph.issues, []);
+    assertEquals(graph.topologicalOrder().map((job) => job.id), [
+      "lint",
+      "build",
+      "test",
+      "deploy",
+      "release",
+    ]);
+  });
+
+  it("Finds direct and transitive dependents", () => {
+    const graph = createGraph(pipeline);
+    assertEquals(graph.dependenciesOf("deploy").map((job) => job.id), [
+      "build",
+      "test",
+    ]);
+    assertEquals(graph.dependentsOf("build").map((job) => job.id), [
+      "deploy",
+      "test",
+    ]);
+    assertEquals(
+      graph.dependentsOf("build", { transitive: true }).map((job) => job.id),
+      ["deploy", "test", "release"],
+    );
+    assertEquals(graph.dependentsOf("lint"), []);
+  });
+
+  it("Reports unknown dependencies and cycles with line numbers", () => {
+    const graph = createGraph(`  a:
+    needs: [c, missing]
+    runs-on: ubuntu-latest
+  b:
+    needs: a
+    runs-on: ubuntu-latest
+  c:
+    needs:
+      - b
+    runs-on: ubuntu-latest
+  self:
+    needs: self
+    runs-on: ubuntu-latest
+`);
+    assertEquals(graph.issues.map(({ message: _message, ...issue }) => issue), [
+      {
+        kind: "unknown-dependency",
+        jobId: "a",
+        dependency: "missing",
+        line: 5,
+      },
+      { kind: "cycle", jobIds: ["a", "c", "b"], line: 5 },
+      { kind: "cycle", jobIds: ["self"], line: 15 },
+    ]);
+    assertEquals(
+      graph.issues[1].message,
+      "Jobs form a cycle of needs: a -> c -> b -> a",
+    );
+    const error = assertThrows(() => graph.topologicalOrder(), JobGraphError);
+    assertEquals(error.issues.length, 2);
+  });
+
+  describe("criticalPath", () => {
+    it("Follows the dependency that completed last", () => {
+      const graph = createGraph(pipeline);
+      const path = graph.criticalPath([
+        workflowJob("build", "00:00", "02:00"),
+        workflowJob("lint", "00:05", "09:00"),
+        workflowJob("test (ubuntu-latest)", "02:10", "04:00"),
+        workflowJob("test (windows-latest)", "02:30", "07:00"),
+        workflowJob("deploy", "07:20", "08:00"),
+        workflowJob("release / publish", "08:30", "10:00"),
+      ]);
+      assertEquals(
+        path.entries.map((it) => [it.job.id, it.waitMs, it.durationMs]),
+        [
+          ["build", 0, 120_000],
+          ["test", 10_000, 290_000],
+          ["deploy", 20_000, 40_000],
+          ["release", 30_000, 90_000],
+        ],
+      );
+      assertEquals(path.entries[1].workflowJobs.length, 2);
+      assertEquals(path.durationMs, 600_000);
+    });
+
+    it("Ignores jobs that have not completed", () => {
+      const graph = createGraph(pipeline);
+      assertEquals(
+        graph.criticalPath([workflowJob("build", "00:00", null)]),
+        { entries: [], durationMs: 0 },
+      );
+    });
+  });
+});
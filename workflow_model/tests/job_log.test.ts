@@ -0,0 +1,155 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { join } from "@std/path";
+import { JobLog } from "../src/job_log.ts";
+import { StepModel } from "../src/workflow_file.ts";
+import type {
+  FileContent,
+  WorkflowJob,
+  WorkflowJobStep,
+} from "../../api_client/api_client.ts";
+import { fakeWorkflowJob } from "../../api_client/fake_github_server.ts";
+import type { StepAst } from "../src/workflow_ast.ts";
+
+const fixture = Deno.readTextFileSync(
+  join(import.meta.dirname!, "./fixtures/job_log.txt"),
+);
+const fileContentDummy = {
+  raw: {
+    html_url:
+      "https://github.com/owner/repo/blob/main/.github/workflows/ci.yml",
+  },
+} as unknown as FileContent;
+const dummyStepAst = {} as unknown as StepAst;
+const stepModels = [
+  new StepModel(
+    { uses: "actions/checkout@v4" },
+    fileContentDummy,
+    dummyStepAst,
+  ),
+  new StepModel(
+    { name: "Test", run: "deno test -A" },
+    fileContentDummy,
+    dummyStepAst,
+  ),
+];
+const step = (
+  number: number,
+  name: string,
+  conclusion: string,
+  started: string,
+  completed: string,
+): WorkflowJobStep => ({
+  number,
+  name,
+  status: "completed",
+  conclusion,
+  started_at: `2024-01-01T00:00:${started}Z`,
+  completed_at: `2024-01-01T00:00:${completed}Z`,
+});
+const job: WorkflowJob = fakeWorkflowJob({
+  id: 1,
+  name: "test",
+  conclusion: "failure",
+  started_at: "2024-01-01T00:00:01Z",
+  completed_at: "2024-01-01T00:00:07Z",
+  steps: [
+    step(1, "Set up job", "success", "01", "02"),
+    step(2, "Run actions/checkout@v4", "success", "02", "04"),
+    step(3, "Skipped", "skipped", "04", "04"),
+    step(4, "Test", "failure", "04", "06"),
+    step(5, "Complete job", "success", "07", "07"),
+  ],
+});
+
+describe(JobLog.name, () => {
+  describe("parse", () => {
+    const lines = JobLog.parse(fixture);
+
+    it("strips BOM and trailing newline", () => {
+      assertEquals(lines.length, 17);
+      assertEquals(lines[0].timestamp, "2024-01-01T00:00:01.1000000Z");
+      assertEquals(lines[0].text, "Current runner version: '2.317.0'");
+    });
+
+    it("detects markers and enclosing group", () => {
+      assertEquals(lines[1], {
+        lineNumber: 2,
+        timestamp: "2024-01-01T00:00:01.2000000Z",
+        type: "group",
+        text: "Operating System",
+        group: undefined,
+      });
+      assertEquals(lines[2].group, "Operating System");
+      assertEquals(lines[3].type, "endgroup");
+      assertEquals(lines[8].type, "command");
+      assertEquals(lines[8].text, "/usr/bin/git version");
+      assertEquals(lines[13].type, "warning");
+      assertEquals(lines[15].type, "error");
+      assertEquals(lines[15].text, "Process completed with exit code 1.");
+    });
+
+    it("keeps lines without timestamp", () => {
+      const [line] = JobLog.parse("plain text");
+      assertEquals(line.timestamp, undefined);
+      assertEquals(line.text, "plain text");
+    });
+  });
+
+  describe("sections by steps", () => {
+    const jobLog = new JobLog(fixture, job, stepModels);
+
+    it("splits lines into non-skipped steps", () => {
+      assertEquals(
+        jobLog.sections.map((section) => [
+          section.name,
+          section.lines.map((line) => line.lineNumber),
+        ]),
+        [
+          ["Set up job", [1, 2, 3, 4]],
+          ["Run actions/checkout@v4", [5, 6, 7, 8, 9, 10]],
+          ["Test", [11, 12, 13, 14, 15, 16]],
+          ["Complete job", [17]],
+        ],
+      );
+    });
+
+    it("pairs sections with StepModel", () => {
+      assertEquals(jobLog.sections[0].stepModel, undefined);
+      assertEquals(jobLog.sections[1].stepModel, stepModels[0]);
+      assertEquals(jobLog.sections[2].stepModel, stepModels[1]);
+    });
+
+    it("failedSections returns errors of the failing step", () => {
+      const failed = jobLog.failedSections();
+      assertEquals(failed.map((section) => section.name), ["Test"]);
+      assertEquals(failed[0].errors.map((line) => line.text), [
+        "Process completed with exit code 1.",
+      ]);
+      assertEquals(failed[0].warnings.map((line) => line.text), [
+        "Deprecated API",
+      ]);
+    });
+  });
+
+  describe("sections by header", () => {
+    const jobLog = new JobLog(
+      fixture,
+      { ...job, steps: undefined },
+      stepModels,
+    );
+
+    it("splits lines at Run headers", () => {
+      assertEquals(
+        jobLog.sections.map((section) => [section.name, section.lines.length]),
+        [
+          ["Set up job", 4],
+          ["Run actions/checkout@v4", 6],
+          ["Run deno test -A", 7],
+        ],
+      );
+      assertEquals(jobLog.sections[1].stepModel, stepModels[0]);
+      assertEquals(jobLog.sections[2].stepModel, undefined);
+    });
+  });
+});
@@ -1,7 +1,12 @@
 import { assertEquals, assertInstanceOf } from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
 import { join } from "@std/path";
-import { JobAst, StepAst, WorkflowAst } from "../src/workflow_ast.ts";
+import {
+  JobAst,
+  StepAst,
+  TriggerAst,
+  WorkflowAst,
+} from "../src/workflow_ast.ts";
 
 describe("workflow_ast.yaml", () => {
   const fixture = Deno.readTextFileSync(
@@ -113,3 +118,23 @@ describe("ci.yaml", () => {
     });
   });
 });
+
+describe(TriggerAst.name, () => {
+  it("is empty without on:", () => {
+    assertEquals(new WorkflowAst("name: CI\njobs: {}\n").triggerAsts(), []);
+  });
+
+  it("startLine() and itemStartLines()", () => {
+    const triggerAsts = new WorkflowAst(`on:
+  push:
+  schedule:
+    - cron: "0 0 * * *"
+
+    - cron: "0 12 * * *"
+jobs: {}
+`).triggerAsts();
+    assertEquals(triggerAsts.map((it) => it.startLine()), [2, 3]);
+    assertEquals(triggerAsts[0].itemStartLines(), []);
+    assertEquals(triggerAsts[1].itemStartLines(), [4, 6]);
+  });
+});
@@ -1,6 +1,13 @@
-import { assertEquals } from "@std/assert";
+import { assertEquals, assertThrows } from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
-import { JobModel, StepModel, WorkflowModel } from "../src/workflow_file.ts";
+import {
+  type Job,
+  JobModel,
+  StepModel,
+  TriggerModel,
+  WorkflowDispatchInputError,
+  WorkflowModel,
+} from "../src/workflow_file.ts";
 import type { FileContent } from "../../api_client/api_client.ts";
 import type { JobAst, StepAst } from "../src/workflow_ast.ts";
 
@@ -41,6 +48,190 @@ describe(WorkflowModel.name, () => {
     assertEquals(actual[0].id, "test1");
     assertEquals(actual[1].id, "test2");
   });
+
+  describe("validateDispatchInputs", () => {
+    const dispatchWorkflow = new WorkflowModel({
+      raw: { path: ".github/workflows/release.yml" },
+      content: `name: Release
+on:
+  workflow_dispatch:
+    inputs:
+      version:
+        required: true
+      environment:
+        type: choice
+        options: [staging, production]
+        default: staging
+      dry_run:
+        type: boolean
+      retries:
+        type: number
+      replicas:
+        type: choice
+        options: [1, 2]
+jobs:
+  release:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo release
+`,
+    } as unknown as FileContent);
+
+    it("dispatchInputs is undefined without workflow_dispatch", () => {
+      const pushOnly = new WorkflowModel({
+        raw: {},
+        content: "on: [push]\njobs: {}\n",
+      } as unknown as FileContent);
+      assertEquals(pushOnly.dispatchInputs, undefined);
+      assertEquals(Object.keys(workflowModel.dispatchInputs!), []);
+    });
+
+    it("Converts valid inputs to strings", () => {
+      const actual = dispatchWorkflow.validateDispatchInputs({
+        version: "1.2.0",
+        environment: "production",
+        dry_run: true,
+        retries: 3,
+        replicas: "1",
+      });
+      assertEquals(actual, {
+        version: "1.2.0",
+        environment: "production",
+        dry_run: "true",
+        retries: "3",
+        replicas: "1",
+      });
+    });
+
+    it("Reports every invalid input at once", () => {
+      const error = assertThrows(
+        () =>
+          dispatchWorkflow.validateDispatchInputs({
+            environment: "prod",
+            dry_run: "yes",
+            retries: "three",
+            replicas: 3,
+            verison: "1.2.0",
+          }),
+        WorkflowDispatchInputError,
+      );
+      assertEquals(error.issues, [
+        'input "environment" must be one of "staging", "production", got "prod"',
+        'input "dry_run" must be a boolean, got "yes"',
+        'input "retries" must be a number, got "three"',
+        'input "replicas" must be one of "1", "2", got "3"',
+        'unexpected input "verison"',
+        'required input "version" is missing',
+      ]);
+    });
+  });
+});
+
+describe(TriggerModel.name, () => {
+  const workflowOf = (content: string) =>
+    new WorkflowModel({
+      raw: {
+        path: ".github/workflows/ci.yml",
+        html_url:
+          "https://github.com/owner/repo/blob/main/.github/workflows/ci.yml",
+      },
+      content,
+    } as unknown as FileContent);
+
+  it("Normalizes the string syntax", () => {
+    const triggers = workflowOf("on: push\njobs: {}\n").triggers;
+    assertEquals(triggers.map((it) => [it.event, it.startLine]), [["push", 1]]);
+    assertEquals(triggers[0].branches, undefined);
+  });
+
+  it("Normalizes the array syntax", () => {
+    const triggers = workflowOf(`name: CI
+on:
+  - push
+  - pull_request
+jobs: {}
+`).triggers;
+    assertEquals(triggers.map((it) => [it.event, it.startLine, it.raw]), [
+      ["push", 3, null],
+      ["pull_request", 4, null],
+    ]);
+  });
+
+  describe("map syntax", () => {
+    const triggers = workflowOf(`name: CI
+on:
+  push:
+    branches: [main, "releases/**"]
+    tags: v*
+    paths-ignore:
+      - docs/**
+  pull_request:
+    types: [opened, synchronize]
+    branches-ignore: ["dependabot/**"]
+    paths: ["src/**", "!src/**/*.md"]
+  schedule:
+    - cron: "0 0 * * *"
+    - cron: "30 12 * * 1-5"
+  workflow_dispatch:
+    inputs:
+      version:
+        required: true
+      dry_run:
+  workflow_run:
+    workflows: [Build]
+    types: completed
+  merge_group:
+jobs: {}
+`).triggers;
+    const trigger = (event: string) =>
+      triggers.find((it) => it.event === event)!;
+
+    it("has every event with its line", () => {
+      assertEquals(triggers.map((it) => [it.event, it.startLine]), [
+        ["push", 3],
+        ["pull_request", 8],
+        ["schedule", 12],
+        ["workflow_dispatch", 15],
+        ["workflow_run", 20],
+        ["merge_group", 23],
+      ]);
+      assertEquals(
+        trigger("pull_request").htmlUrlWithLine,
+        "https://github.com/owner/repo/blob/main/.github/workflows/ci.yml#L8",
+      );
+    });
+
+    it("normalizes branch, tag and path filters", () => {
+      const push = trigger("push");
+      assertEquals(push.branches, ["main", "releases/**"]);
+      assertEquals(push.tags, ["v*"]);
+      assertEquals(push.pathsIgnore, ["docs/**"]);
+      assertEquals(push.paths, undefined);
+
+      const pullRequest = trigger("pull_request");
+      assertEquals(pullRequest.types, ["opened", "synchronize"]);
+      assertEquals(pullRequest.branchesIgnore, ["dependabot/**"]);
+      assertEquals(pullRequest.paths, ["src/**", "!src/**/*.md"]);
+    });
+
+    it("has cron entries with their lines", () => {
+      assertEquals(trigger("schedule").schedules, [
+        { cron: "0 0 * * *", startLine: 13 },
+        { cron: "30 12 * * 1-5", startLine: 14 },
+      ]);
+      assertEquals(trigger("push").schedules, []);
+    });
+
+    it("has workflow_dispatch inputs and workflow_run sources", () => {
+      assertEquals(trigger("workflow_dispatch").inputs, {
+        version: { required: true },
+        dry_run: {},
+      });
+      assertEquals(trigger("workflow_run").workflows, ["Build"]);
+      assertEquals(trigger("workflow_run").types, ["completed"]);
+      assertEquals(trigger("merge_group").raw, null);
+    });
+  });
 });
 
 describe(JobModel.name, () => {
@@ -194,6 +385,179 @@ describe(JobModel.name, () => {
         assertEquals(actual, expectJob);
       });
     });
+
+    it("matrix jobs sharing a prefix", () => {
+      const matrixJob = (id: string, job: Partial<Job> = {}) =>
+        new JobModel(
+          id,
+          {
+            "runs-on": "ubuntu-latest",
+            strategy: { matrix: { os: ["ubuntu-latest", "windows-latest"] } },
+            ...job,
+          },
+          fileContentDummy,
+          dummyJobAst,
+        );
+      const build = matrixJob("build");
+      const buildDocs = matrixJob("build-docs");
+      const named = matrixJob("named", { name: "build ${{ matrix.os }}" });
+      const jobs = [build, named, buildDocs];
+
+      assertEquals(
+        JobModel.match(jobs, "build-docs (ubuntu-latest)"),
+        buildDocs,
+      );
+      assertEquals(JobModel.match(jobs, "build (windows-latest)"), build);
+      assertEquals(JobModel.match(jobs, "build windows-latest"), named);
+    });
+
+    it("dynamic matrix falls back to the job ID", () => {
+      const dynamicJob = new JobModel(
+        "dynamic",
+        {
+          "runs-on": "ubuntu-latest",
+          strategy: { matrix: "${{ fromJSON(needs.setup.outputs.matrix) }}" },
+        },
+        fileContentDummy,
+        dummyJobAst,
+      );
+      assertEquals(
+        JobModel.match([baseJob, dynamicJob], "dynamic (a)"),
+        dynamicJob,
+      );
+    });
+  });
+
+  describe("expandMatrix", () => {
+    const matrixJob = (
+      matrix: Record<string, unknown> | string,
+      name?: string,
+    ) =>
+      new JobModel(
+        "test",
+        { "runs-on": "ubuntu-latest", name, strategy: { matrix } },
+        fileContentDummy,
+        dummyJobAst,
+      );
+
+    it("'matrix' is not defined", () => {
+      assertEquals(baseJob.expandMatrix(), {
+        dynamic: false,
+        combinations: [],
+      });
+    });
+
+    it("combines keys in order and names jobs with the values", () => {
+      const { dynamic, combinations } = matrixJob({
+        os: ["ubuntu-latest", "windows-latest"],
+        node: [18, 20],
+      }).expandMatrix();
+      assertEquals(dynamic, false);
+      assertEquals(combinations.map((it) => it.name), [
+        "test (ubuntu-latest, 18)",
+        "test (ubuntu-latest, 20)",
+        "test (windows-latest, 18)",
+        "test (windows-latest, 20)",
+      ]);
+      assertEquals(combinations[1].values, { os: "ubuntu-latest", node: 20 });
+    });
+
+    it("applies exclude with partial entries", () => {
+      const { combinations } = matrixJob({
+        os: ["macos-latest", "windows-latest"],
+        version: [12, 14, 16],
+        environment: ["staging", "production"],
+        exclude: [
+          { os: "macos-latest", version: 12, environment: "production" },
+          { os: "windows-latest", version: 16 },
+        ],
+      }).expandMatrix();
+      assertEquals(combinations.length, 12 - 1 - 2);
+      assertEquals(
+        combinations.some((it) =>
+          it.values.os === "windows-latest" && it.values.version === 16
+        ),
+        false,
+      );
+    });
+
+    it("applies include like the GitHub docs", () => {
+      // https://docs.github.com/en/actions/writing-workflows/choosing-what-your-workflow-does/running-variations-of-jobs-in-a-workflow#example-expanding-configurations
+      const { combinations } = matrixJob({
+        fruit: ["apple", "pear"],
+        animal: ["cat", "dog"],
+        include: [
+          { color: "green" },
+          { color: "pink", animal: "cat" },
+          { fruit: "apple", shape: "circle" },
+          { fruit: "banana" },
+          { fruit: "banana", animal: "cat" },
+        ],
+      }).expandMatrix();
+      assertEquals(combinations.map((it) => it.values), [
+        { fruit: "apple", animal: "cat", color: "pink", shape: "circle" },
+        { fruit: "apple", animal: "dog", color: "green", shape: "circle" },
+        { fruit: "pear", animal: "cat", color: "pink" },
+        { fruit: "pear", animal: "dog", color: "green" },
+        { fruit: "banana" },
+        { fruit: "banana", animal: "cat" },
+      ]);
+    });
+
+    it("uses only include without keys", () => {
+      const { combinations } = matrixJob({
+        include: [
+          { os: "ubuntu-latest", target: { arch: "x64", libc: "gnu" } },
+          { os: "macos-latest", target: { arch: "arm64", libc: "none" } },
+        ],
+      }).expandMatrix();
+      assertEquals(combinations.map((it) => it.name), [
+        "test (ubuntu-latest, x64, gnu)",
+        "test (macos-latest, arm64, none)",
+      ]);
+    });
+
+    it("renders 'name' with and without the matrix context", () => {
+      const matrix = { os: ["ubuntu-latest"], node: [20] };
+      assertEquals(
+        matrixJob(matrix, "Node ${{ matrix.node }} on ${{ matrix.os }}")
+          .expandMatrix().combinations[0].name,
+        "Node 20 on ubuntu-latest",
+      );
+      assertEquals(
+        matrixJob(matrix, "Test").expandMatrix().combinations[0].name,
+        "Test (ubuntu-latest, 20)",
+      );
+    });
+
+    it("flags fromJSON matrices as dynamic and expands them with contexts", () => {
+      const job = matrixJob({
+        os: "${{ fromJSON(needs.setup.outputs.os) }}",
+        node: [20],
+      });
+      assertEquals(job.expandMatrix(), { dynamic: true, combinations: [] });
+
+      const expansion = job.expandMatrix({
+        needs: {
+          setup: { outputs: { os: '["ubuntu-latest", "macos-latest"]' } },
+        },
+      });
+      assertEquals(expansion.dynamic, true);
+      assertEquals(expansion.combinations.map((it) => it.name), [
+        "test (ubuntu-latest, 20)",
+        "test (macos-latest, 20)",
+      ]);
+      assertEquals(
+        job.matchMatrixCombination("test (macos-latest, 20)", {
+          needs: { setup: { outputs: { os: '["macos-latest"]' } } },
+        })?.values,
+        { os: "macos-latest", node: 20 },
+      );
+      assertEquals(
+        job.matchMatrixCombination("test (macos-latest, 20)"),
+        undefined,
+      );
+    });
   });
 });
 